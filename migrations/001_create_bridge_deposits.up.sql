@@ -0,0 +1,26 @@
+-- Initial schema, previously created by createTablesIfNotExists.
+-- IF NOT EXISTS keeps this safe on databases that already have the table.
+CREATE TABLE IF NOT EXISTS bridge_deposits (
+  id SERIAL PRIMARY KEY,
+  deposit_id VARCHAR(255) UNIQUE NOT NULL,
+  user_address VARCHAR(42) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  amount VARCHAR(255) NOT NULL,
+  nonce VARCHAR(255),
+  source_chain VARCHAR(10) DEFAULT 'L1',
+  target_chain VARCHAR(10) DEFAULT 'L2',
+  status VARCHAR(20) DEFAULT 'PENDING',
+  tx_hash VARCHAR(66),
+  block_number VARCHAR(255),
+  retry_count INTEGER DEFAULT 0,
+  failure_reason TEXT,
+  completed_tx_hash VARCHAR(66),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_bridge_deposits_user ON bridge_deposits(user_address);
+CREATE INDEX IF NOT EXISTS idx_bridge_deposits_status ON bridge_deposits(status);
+CREATE INDEX IF NOT EXISTS idx_bridge_deposits_deposit_id ON bridge_deposits(deposit_id);
+CREATE INDEX IF NOT EXISTS idx_bridge_deposits_created_at ON bridge_deposits(created_at);
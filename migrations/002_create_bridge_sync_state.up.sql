@@ -0,0 +1,6 @@
+-- Last fully-processed block per event source, used to resume ingestion after restarts
+CREATE TABLE IF NOT EXISTS bridge_sync_state (
+  sync_key VARCHAR(64) PRIMARY KEY,
+  last_processed_block BIGINT NOT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
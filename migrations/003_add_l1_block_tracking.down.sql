@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS l1_block_hashes;
+
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS log_index;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS block_hash;
@@ -0,0 +1,10 @@
+-- Block hash and log index of each deposit, used to re-verify it against the canonical chain
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS block_hash VARCHAR(66);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS log_index INTEGER;
+
+-- Hashes of ingested L1 blocks, compared against the chain to detect reorgs
+CREATE TABLE IF NOT EXISTS l1_block_hashes (
+  block_number BIGINT PRIMARY KEY,
+  block_hash VARCHAR(66) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
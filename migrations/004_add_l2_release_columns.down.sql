@@ -0,0 +1,8 @@
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS confirmed_at;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS submitted_at;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l2_token;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l2_deposit_id;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l2_effective_gas_price;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l2_gas_used;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l2_block_number;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l2_tx_hash;
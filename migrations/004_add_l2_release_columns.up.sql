@@ -0,0 +1,9 @@
+-- L2 release details so a transfer can be traced end-to-end
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l2_tx_hash VARCHAR(66);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l2_block_number BIGINT;
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l2_gas_used VARCHAR(78);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l2_effective_gas_price VARCHAR(78);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l2_deposit_id VARCHAR(78);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l2_token VARCHAR(42);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
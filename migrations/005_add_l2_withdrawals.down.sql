@@ -0,0 +1,11 @@
+DROP INDEX IF EXISTS idx_bridge_deposits_source_status;
+
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l1_release_effective_gas_price;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l1_release_gas_used;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l1_release_block_number;
+ALTER TABLE bridge_deposits DROP COLUMN IF EXISTS l1_release_tx_hash;
+
+-- The old schema cannot hold withdrawals next to deposits with the same id, so they are dropped
+DELETE FROM bridge_deposits WHERE source_chain = 'L2';
+ALTER TABLE bridge_deposits DROP CONSTRAINT IF EXISTS bridge_deposits_source_chain_deposit_id_key;
+ALTER TABLE bridge_deposits ADD CONSTRAINT bridge_deposits_deposit_id_key UNIQUE (deposit_id);
@@ -0,0 +1,12 @@
+-- L2 withdrawals live in bridge_deposits with source_chain = 'L2'. Deposit and
+-- withdrawal ids come from different contracts, so they are unique per source chain.
+ALTER TABLE bridge_deposits DROP CONSTRAINT IF EXISTS bridge_deposits_deposit_id_key;
+ALTER TABLE bridge_deposits ADD CONSTRAINT bridge_deposits_source_chain_deposit_id_key UNIQUE (source_chain, deposit_id);
+
+-- L1 release details for withdrawals, mirroring the l2_* columns of deposits
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l1_release_tx_hash VARCHAR(66);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l1_release_block_number BIGINT;
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l1_release_gas_used VARCHAR(78);
+ALTER TABLE bridge_deposits ADD COLUMN IF NOT EXISTS l1_release_effective_gas_price VARCHAR(78);
+
+CREATE INDEX IF NOT EXISTS idx_bridge_deposits_source_status ON bridge_deposits(source_chain, status);
@@ -0,0 +1,8 @@
+DROP TRIGGER IF EXISTS bridge_deposits_stats ON bridge_deposits;
+DROP FUNCTION IF EXISTS bridge_stats_on_change();
+DROP FUNCTION IF EXISTS bridge_stats_apply(bridge_deposits, INTEGER);
+DROP FUNCTION IF EXISTS bridge_stats_bucket(NUMERIC);
+
+DROP TABLE IF EXISTS bridge_stats_processing_time;
+DROP TABLE IF EXISTS bridge_stats_daily;
+DROP TABLE IF EXISTS bridge_stats_status;
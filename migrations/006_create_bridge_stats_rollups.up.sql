@@ -0,0 +1,111 @@
+-- Rollups behind GET /api/bridge/stats, maintained by a trigger on bridge_deposits
+-- so the stats endpoint never scans the transfer table.
+
+-- Transfer count and volume per source chain, token and current status
+CREATE TABLE IF NOT EXISTS bridge_stats_status (
+  source_chain VARCHAR(10) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  status VARCHAR(20) NOT NULL,
+  transfer_count BIGINT NOT NULL DEFAULT 0,
+  volume NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  PRIMARY KEY (source_chain, token_address, status)
+);
+
+-- Completed volume per day of completion
+CREATE TABLE IF NOT EXISTS bridge_stats_daily (
+  day DATE NOT NULL,
+  source_chain VARCHAR(10) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  transfer_count BIGINT NOT NULL DEFAULT 0,
+  volume NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, source_chain, token_address)
+);
+
+-- Histogram of created_at -> completed_at for completed transfers. Percentiles are
+-- read from the bucket bounds, so p95 is accurate to the bucket width.
+CREATE TABLE IF NOT EXISTS bridge_stats_processing_time (
+  source_chain VARCHAR(10) NOT NULL,
+  token_address VARCHAR(42) NOT NULL,
+  bucket_upper_seconds INTEGER NOT NULL,
+  transfer_count BIGINT NOT NULL DEFAULT 0,
+  total_seconds NUMERIC NOT NULL DEFAULT 0,
+  PRIMARY KEY (source_chain, token_address, bucket_upper_seconds)
+);
+
+CREATE OR REPLACE FUNCTION bridge_stats_bucket(seconds NUMERIC) RETURNS INTEGER AS $$
+  SELECT COALESCE(
+    (SELECT bound FROM unnest(ARRAY[15, 30, 60, 120, 300, 600, 1200, 1800, 3600, 7200, 14400, 43200, 86400]) AS bound
+     WHERE seconds <= bound ORDER BY bound LIMIT 1),
+    2147483647
+  );
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Adds (direction = 1) or removes (direction = -1) one transfer's contribution to every rollup
+CREATE OR REPLACE FUNCTION bridge_stats_apply(t bridge_deposits, direction INTEGER) RETURNS VOID AS $$
+DECLARE
+  amount NUMERIC := t.amount::NUMERIC;
+  seconds NUMERIC;
+BEGIN
+  INSERT INTO bridge_stats_status (source_chain, token_address, status, transfer_count, volume)
+  VALUES (t.source_chain, t.token_address, t.status, direction, direction * amount)
+  ON CONFLICT (source_chain, token_address, status) DO UPDATE
+  SET transfer_count = bridge_stats_status.transfer_count + EXCLUDED.transfer_count,
+      volume = bridge_stats_status.volume + EXCLUDED.volume;
+
+  IF t.status = 'COMPLETED' AND t.completed_at IS NOT NULL THEN
+    INSERT INTO bridge_stats_daily (day, source_chain, token_address, transfer_count, volume)
+    VALUES (t.completed_at::DATE, t.source_chain, t.token_address, direction, direction * amount)
+    ON CONFLICT (day, source_chain, token_address) DO UPDATE
+    SET transfer_count = bridge_stats_daily.transfer_count + EXCLUDED.transfer_count,
+        volume = bridge_stats_daily.volume + EXCLUDED.volume;
+
+    seconds := GREATEST(EXTRACT(EPOCH FROM (t.completed_at - t.created_at)), 0);
+    INSERT INTO bridge_stats_processing_time (source_chain, token_address, bucket_upper_seconds, transfer_count, total_seconds)
+    VALUES (t.source_chain, t.token_address, bridge_stats_bucket(seconds), direction, direction * seconds)
+    ON CONFLICT (source_chain, token_address, bucket_upper_seconds) DO UPDATE
+    SET transfer_count = bridge_stats_processing_time.transfer_count + EXCLUDED.transfer_count,
+        total_seconds = bridge_stats_processing_time.total_seconds + EXCLUDED.total_seconds;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION bridge_stats_on_change() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM bridge_stats_apply(NEW, 1);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM bridge_stats_apply(OLD, -1);
+  ELSIF (OLD.status, OLD.amount, OLD.token_address, OLD.source_chain, OLD.created_at, OLD.completed_at)
+    IS DISTINCT FROM (NEW.status, NEW.amount, NEW.token_address, NEW.source_chain, NEW.created_at, NEW.completed_at) THEN
+    PERFORM bridge_stats_apply(OLD, -1);
+    PERFORM bridge_stats_apply(NEW, 1);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Backfill from existing transfers before the trigger takes over
+INSERT INTO bridge_stats_status (source_chain, token_address, status, transfer_count, volume)
+SELECT source_chain, token_address, status, COUNT(*), SUM(amount::NUMERIC)
+FROM bridge_deposits
+GROUP BY source_chain, token_address, status;
+
+INSERT INTO bridge_stats_daily (day, source_chain, token_address, transfer_count, volume)
+SELECT completed_at::DATE, source_chain, token_address, COUNT(*), SUM(amount::NUMERIC)
+FROM bridge_deposits
+WHERE status = 'COMPLETED' AND completed_at IS NOT NULL
+GROUP BY completed_at::DATE, source_chain, token_address;
+
+INSERT INTO bridge_stats_processing_time (source_chain, token_address, bucket_upper_seconds, transfer_count, total_seconds)
+SELECT source_chain, token_address, bridge_stats_bucket(seconds), COUNT(*), SUM(seconds)
+FROM (
+  SELECT source_chain, token_address, GREATEST(EXTRACT(EPOCH FROM (completed_at - created_at)), 0) AS seconds
+  FROM bridge_deposits
+  WHERE status = 'COMPLETED' AND completed_at IS NOT NULL
+) completed
+GROUP BY source_chain, token_address, bridge_stats_bucket(seconds);
+
+DROP TRIGGER IF EXISTS bridge_deposits_stats ON bridge_deposits;
+CREATE TRIGGER bridge_deposits_stats
+AFTER INSERT OR UPDATE OR DELETE ON bridge_deposits
+FOR EACH ROW EXECUTE FUNCTION bridge_stats_on_change();
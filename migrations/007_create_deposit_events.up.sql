@@ -0,0 +1,19 @@
+-- Status history of every transfer: each transition with the actor and reason behind it
+CREATE TABLE IF NOT EXISTS deposit_events (
+  id BIGSERIAL PRIMARY KEY,
+  source_chain VARCHAR(10) NOT NULL,
+  deposit_id VARCHAR(255) NOT NULL,
+  from_status VARCHAR(20),
+  to_status VARCHAR(20) NOT NULL,
+  actor VARCHAR(255) NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (source_chain, deposit_id) REFERENCES bridge_deposits (source_chain, deposit_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_deposit_events_deposit ON deposit_events(source_chain, deposit_id, created_at);
+
+-- Existing transfers start their history at their current status
+INSERT INTO deposit_events (source_chain, deposit_id, from_status, to_status, actor, reason, created_at)
+SELECT source_chain, deposit_id, NULL, status, 'system:migration', 'History started', updated_at
+FROM bridge_deposits;
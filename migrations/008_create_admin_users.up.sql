@@ -0,0 +1,27 @@
+-- Operators allowed into the admin API; role decides which admin routes they may use
+CREATE TABLE IF NOT EXISTS admin_users (
+  id BIGSERIAL PRIMARY KEY,
+  username VARCHAR(64) NOT NULL UNIQUE,
+  password_hash VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('viewer', 'operator', 'admin')),
+  disabled BOOLEAN NOT NULL DEFAULT FALSE,
+  last_login_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Refresh tokens are stored hashed and rotated on every use; all tokens of one login share a session_id
+CREATE TABLE IF NOT EXISTS admin_refresh_tokens (
+  id VARCHAR(36) PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  session_id VARCHAR(36) NOT NULL,
+  token_hash CHAR(64) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  replaced_by VARCHAR(36),
+  created_ip VARCHAR(64),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_refresh_tokens_session ON admin_refresh_tokens(session_id);
+CREATE INDEX IF NOT EXISTS idx_admin_refresh_tokens_user ON admin_refresh_tokens(user_id) WHERE revoked_at IS NULL;
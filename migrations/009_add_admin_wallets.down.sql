@@ -0,0 +1,7 @@
+ALTER TABLE admin_users DROP CONSTRAINT IF EXISTS admin_users_has_credential;
+DROP INDEX IF EXISTS idx_admin_users_wallet;
+
+-- Wallet-only admins cannot be kept without a password
+DELETE FROM admin_users WHERE password_hash IS NULL;
+ALTER TABLE admin_users ALTER COLUMN password_hash SET NOT NULL;
+ALTER TABLE admin_users DROP COLUMN IF EXISTS wallet_address;
@@ -0,0 +1,8 @@
+-- Admins may sign in with an Ethereum wallet (SIWE) instead of, or as well as, a password
+ALTER TABLE admin_users ADD COLUMN IF NOT EXISTS wallet_address VARCHAR(42);
+ALTER TABLE admin_users ALTER COLUMN password_hash DROP NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_users_wallet ON admin_users(LOWER(wallet_address));
+
+ALTER TABLE admin_users ADD CONSTRAINT admin_users_has_credential
+  CHECK (password_hash IS NOT NULL OR wallet_address IS NOT NULL);
@@ -0,0 +1,9 @@
+-- Every change to the runtime BridgeConfig is a new row; the highest version is the active one
+CREATE TABLE IF NOT EXISTS bridge_config_versions (
+  version INTEGER PRIMARY KEY,
+  config JSONB NOT NULL,
+  created_by VARCHAR(255) NOT NULL,
+  reason TEXT,
+  restored_from INTEGER REFERENCES bridge_config_versions(version),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,17 @@
+-- Tokens the bridge releases automatically; deposits of anything else are held for review.
+-- Addresses are stored lowercase and amounts in the token's base units.
+CREATE TABLE IF NOT EXISTS bridge_tokens (
+  l1_address VARCHAR(42) PRIMARY KEY,
+  l2_address VARCHAR(42) UNIQUE,
+  symbol VARCHAR(32) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  decimals SMALLINT NOT NULL CHECK (decimals BETWEEN 0 AND 36),
+  min_amount NUMERIC(78, 0) NOT NULL,
+  max_amount NUMERIC(78, 0) NOT NULL,
+  is_native BOOLEAN NOT NULL DEFAULT FALSE,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  paused BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CHECK (min_amount >= 0 AND min_amount <= max_amount)
+);
@@ -0,0 +1,9 @@
+-- name/symbol/decimals read from L1 token contracts, fetched once per token. The
+-- name and symbol become those of the wrapped L2 token, so they are never guessed.
+CREATE TABLE IF NOT EXISTS token_metadata (
+  address VARCHAR(42) PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  symbol VARCHAR(64) NOT NULL,
+  decimals SMALLINT NOT NULL,
+  fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
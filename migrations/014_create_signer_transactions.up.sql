@@ -0,0 +1,30 @@
+-- One row per nonce sent by a bridge signer. The row is inserted when the nonce is
+-- reserved, so nonces survive restarts and concurrent workers never share one.
+-- Replacements keep the nonce and move the old hash to previous_hashes.
+CREATE TABLE IF NOT EXISTS signer_transactions (
+  id BIGSERIAL PRIMARY KEY,
+  chain VARCHAR(2) NOT NULL CHECK (chain IN ('L1', 'L2')),
+  signer VARCHAR(42) NOT NULL,
+  nonce BIGINT NOT NULL,
+  reference VARCHAR(100) NOT NULL,
+  to_address VARCHAR(42) NOT NULL,
+  data TEXT NOT NULL,
+  value NUMERIC(78, 0) NOT NULL DEFAULT 0,
+  gas_limit NUMERIC(78, 0) NOT NULL,
+  max_fee_per_gas NUMERIC(78, 0) NOT NULL,
+  max_priority_fee_per_gas NUMERIC(78, 0),
+  tx_hash VARCHAR(66),
+  previous_hashes TEXT[] NOT NULL DEFAULT '{}',
+  replacements INTEGER NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'MINED', 'REVERTED', 'REPLACED', 'FAILED')),
+  block_number BIGINT,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_sent_at TIMESTAMP,
+  resolved_at TIMESTAMP
+);
+
+-- A nonce can only be in flight once per signer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_signer_transactions_in_flight
+  ON signer_transactions(chain, signer, nonce) WHERE status = 'PENDING';
+CREATE INDEX IF NOT EXISTS idx_signer_transactions_reference ON signer_transactions(reference);
@@ -0,0 +1,5 @@
+DROP INDEX IF EXISTS idx_signer_transactions_resolved_at;
+
+ALTER TABLE signer_transactions
+  DROP COLUMN IF EXISTS effective_gas_price,
+  DROP COLUMN IF EXISTS gas_used;
@@ -0,0 +1,6 @@
+-- Gas paid by each resolved transaction, reverted ones included, for operating cost reports
+ALTER TABLE signer_transactions
+  ADD COLUMN IF NOT EXISTS gas_used NUMERIC(78, 0),
+  ADD COLUMN IF NOT EXISTS effective_gas_price NUMERIC(78, 0);
+
+CREATE INDEX IF NOT EXISTS idx_signer_transactions_resolved_at ON signer_transactions(resolved_at);
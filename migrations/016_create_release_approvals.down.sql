@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS release_approvals;
+
+ALTER TABLE bridge_tokens DROP COLUMN IF EXISTS approval_threshold;
@@ -0,0 +1,18 @@
+-- Deposits of at least approval_threshold (base units) wait for operator approvals
+-- before release; NULL means the token never needs them.
+ALTER TABLE bridge_tokens
+  ADD COLUMN IF NOT EXISTS approval_threshold NUMERIC(78, 0) CHECK (approval_threshold >= 0);
+
+-- EIP-712 release approvals signed by operators' linked wallets. One row per
+-- operator and deposit; approving again replaces an earlier, possibly expired, one.
+CREATE TABLE IF NOT EXISTS release_approvals (
+  id BIGSERIAL PRIMARY KEY,
+  source_chain VARCHAR(2) NOT NULL CHECK (source_chain IN ('L1', 'L2')),
+  deposit_id VARCHAR(255) NOT NULL,
+  operator_id BIGINT NOT NULL REFERENCES admin_users(id) ON DELETE CASCADE,
+  signer VARCHAR(42) NOT NULL,
+  signature VARCHAR(132) NOT NULL,
+  deadline TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (source_chain, deposit_id, operator_id)
+);
@@ -0,0 +1 @@
+ALTER TABLE bridge_tokens DROP COLUMN IF EXISTS outflow_limit;
@@ -0,0 +1,4 @@
+-- Most of a token (base units) the bridge may release within the rolling outflow
+-- window before it pauses all releases; NULL means no limit. Usage is tracked in Redis.
+ALTER TABLE bridge_tokens
+  ADD COLUMN IF NOT EXISTS outflow_limit NUMERIC(78, 0) CHECK (outflow_limit >= 0);
@@ -0,0 +1,2 @@
+-- The copied limits are ordinary registry entries from here on; nothing to undo
+SELECT 1;
@@ -0,0 +1,30 @@
+-- Per-token limits used to be part of the versioned config (bridge_config_versions.config->'tokens').
+-- Copy the active version's tokens into bridge_tokens so they are not replaced by the
+-- MIN_BRIDGE_AMOUNT / MAX_BRIDGE_AMOUNT defaults: missing tokens are added, and entries
+-- never edited since they were created take the stored limits. An L2 address already
+-- used by another entry is left unset.
+WITH active_config AS (
+  SELECT config FROM bridge_config_versions ORDER BY version DESC LIMIT 1
+), stored_tokens AS (
+  SELECT LOWER(t.key) AS l1_address, t.value AS token
+  FROM active_config, jsonb_each(active_config.config->'tokens') AS t
+)
+INSERT INTO bridge_tokens (l1_address, l2_address, symbol, name, decimals, min_amount, max_amount, is_native)
+SELECT
+  s.l1_address,
+  CASE
+    WHEN EXISTS (SELECT 1 FROM bridge_tokens b WHERE b.l2_address = LOWER(s.token->>'l2Address')) THEN NULL
+    ELSE LOWER(s.token->>'l2Address')
+  END,
+  s.token->>'symbol',
+  s.token->>'name',
+  (s.token->>'decimals')::SMALLINT,
+  (s.token->>'minBridgeAmount')::NUMERIC,
+  (s.token->>'maxBridgeAmount')::NUMERIC,
+  COALESCE((s.token->>'isNative')::BOOLEAN, FALSE)
+FROM stored_tokens s
+ON CONFLICT (l1_address) DO UPDATE
+  SET min_amount = EXCLUDED.min_amount,
+      max_amount = EXCLUDED.max_amount,
+      updated_at = CURRENT_TIMESTAMP
+  WHERE bridge_tokens.updated_at = bridge_tokens.created_at;
@@ -0,0 +1,4 @@
+-- Value of one whole token in the unit of OUTFLOW_GLOBAL_MAX_VALUE (e.g. USD), used
+-- to count releases of different tokens against the global outflow limit; NULL means unpriced.
+ALTER TABLE bridge_tokens
+  ADD COLUMN IF NOT EXISTS reference_price NUMERIC(38, 18) CHECK (reference_price >= 0);
@@ -0,0 +1,59 @@
+import dotenv from 'dotenv';
+import readline from 'readline';
+import { ethers } from 'ethers';
+import { initializeDatabaseSimple, closeDatabaseSimple, SimpleBridgeDB } from '@/config/database-simple';
+import { hashPassword } from '@/services/AdminAuth';
+import { ADMIN_ROLES, AdminRole } from '@/types/auth';
+
+dotenv.config({ path: '.env.development' });
+
+const USAGE = `Usage: create-admin <username> [${ADMIN_ROLES.join('|')}] [walletAddress]
+  Password from ADMIN_PASSWORD or stdin; with a wallet address and no ADMIN_PASSWORD the user signs in with SIWE only.`;
+
+// Reads the first line of stdin so the password stays out of shell history and the process list
+async function readPassword(): Promise<string> {
+  if (process.env.ADMIN_PASSWORD) {
+    return process.env.ADMIN_PASSWORD;
+  }
+
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+  process.stdout.write('Password: ');
+  for await (const line of rl) {
+    rl.close();
+    return line;
+  }
+  return '';
+}
+
+async function main(): Promise<void> {
+  const [username, role = 'admin', walletAddress] = process.argv.slice(2);
+  if (!username || !ADMIN_ROLES.includes(role as AdminRole) || (walletAddress && !ethers.isAddress(walletAddress))) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const walletOnly = walletAddress !== undefined && !process.env.ADMIN_PASSWORD;
+  const password = walletOnly ? null : await readPassword();
+  if (password !== null && password.length < 12) {
+    throw new Error('Password must be at least 12 characters');
+  }
+
+  await initializeDatabaseSimple();
+  try {
+    const user = await SimpleBridgeDB.createAdminUser({
+      username,
+      passwordHash: password === null ? null : await hashPassword(password),
+      walletAddress: walletAddress ? ethers.getAddress(walletAddress) : null,
+      role: role as AdminRole,
+    });
+    console.log(`✅ Created ${user.role} ${user.username} (id ${user.id})`);
+  } finally {
+    await closeDatabaseSimple();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Failed to create admin user:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import pg from 'pg';
+import { migrateUp, migrateDown, getMigrationStatus } from '@/config/migrations';
+
+dotenv.config({ path: '.env.development' });
+
+const USAGE = 'Usage: migrate <up|down [steps]|status>';
+
+async function main(): Promise<void> {
+  const [command, arg] = process.argv.slice(2);
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL, max: 1 });
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrateUp(pool);
+        if (applied.length === 0) {
+          console.log('✅ Database is up to date');
+        }
+        for (const migration of applied) {
+          console.log(`⬆️  Applied ${migration.version}_${migration.name}`);
+        }
+        break;
+      }
+
+      case 'down': {
+        const steps = arg ? parseInt(arg) : 1;
+        if (!Number.isInteger(steps) || steps < 1) {
+          throw new Error(`Invalid number of steps: ${arg}`);
+        }
+        const reverted = await migrateDown(pool, steps);
+        if (reverted.length === 0) {
+          console.log('ℹ️  Nothing to roll back');
+        }
+        for (const migration of reverted) {
+          console.log(`⬇️  Rolled back ${migration.version}_${migration.name}`);
+        }
+        break;
+      }
+
+      case 'status': {
+        const statuses = await getMigrationStatus(pool);
+        for (const status of statuses) {
+          const state = status.checksumMismatch
+            ? '⚠️  modified after apply'
+            : status.applied ? `✅ applied ${status.appliedAt?.toISOString()}` : '⏳ pending';
+          console.log(`${String(status.version).padStart(3, '0')}_${status.name}  ${state}`);
+        }
+        break;
+      }
+
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    await pool.end();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Migration command failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
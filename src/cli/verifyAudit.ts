@@ -0,0 +1,30 @@
+import dotenv from 'dotenv';
+import { initializeDatabaseSimple, closeDatabaseSimple } from '@/config/database-simple';
+import { verifyAuditLog } from '@/services/AuditLog';
+
+dotenv.config({ path: '.env.development' });
+
+// Usage: verify-audit [knownHash]  (a head hash recorded by an earlier run)
+async function main(): Promise<void> {
+  const [knownHash] = process.argv.slice(2);
+
+  await initializeDatabaseSimple();
+  try {
+    const result = await verifyAuditLog(knownHash);
+    if (!result.ok) {
+      console.error(`❌ Audit log broken at entry ${result.brokenAt} after ${result.entries} valid entries: ${result.reason}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`✅ Audit log intact: ${result.entries} entries`);
+    console.log(`   Head: ${result.headId ?? '-'} ${result.headHash}`);
+  } finally {
+    await closeDatabaseSimple();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Audit verification failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,31 @@
+// ABI for L1 Bridge Contract - Transfer ownership hanya via MetaMask/wallet signing untuk keamanan
+// Updated ABI with nonce parameter to match new contract
+export const BRIDGE_L1_ABI = [
+  "event DepositERC20(uint256 indexed depositId, address indexed user, address indexed token, uint256 amount, uint256 nonce, uint256 timestamp)",
+  "event DepositETH(uint256 indexed depositId, address indexed user, uint256 amount, uint256 nonce, uint256 timestamp)",
+  "event OwnershipTransferred(address indexed previousAdmin, address indexed newAdmin)",
+  // Withdrawal releases (L2 -> L1), called by the withdrawal signer
+  "function releaseETH(uint256 l2WithdrawalId, address to, uint256 amount) external",
+  "function releaseERC20(uint256 l2WithdrawalId, address token, address to, uint256 amount) external",
+  "event WithdrawalReleased(uint256 indexed l2WithdrawalId, address indexed to, address indexed token, uint256 amount, uint256 timestamp)",
+];
+
+// ABI for L2 Bridge Contract (Library-based) - Updated dengan function signature terbaru
+export const BRIDGE_L2_ABI = [
+  "function depositERC20(uint256 l1DepositId, address l1Token, address to, uint256 amount, string memory name, string memory symbol) external",
+  "function depositETH(uint256 l1DepositId, address to, uint256 amount) external",
+  "event DepositERC20(uint256 indexed depositId, uint256 indexed l1DepositId, address indexed to, address l1Token, address l2Token, uint256 amount, uint256 timestamp)",
+  "event DepositETH(uint256 indexed depositId, address indexed to, uint256 amount, uint256 timestamp)",
+  "event TokenCreated(address indexed l1Token, address indexed l2Token, string name, string symbol)",
+  // Withdrawals (L2 -> L1): ETH is locked and wrapped tokens are burned on L2
+  "event WithdrawETH(uint256 indexed withdrawalId, address indexed user, uint256 amount, uint256 nonce, uint256 timestamp)",
+  "event WithdrawERC20(uint256 indexed withdrawalId, address indexed user, address indexed l1Token, address l2Token, uint256 amount, uint256 nonce, uint256 timestamp)",
+  "event OwnershipTransferred(address indexed previousAdmin, address indexed newAdmin)"
+];
+
+// ABI for ERC20 tokens to get name and symbol
+export const ERC20_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)"
+];
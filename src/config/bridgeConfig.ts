@@ -0,0 +1,236 @@
+import Joi from 'joi';
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+import {
+  BridgeConfig,
+  BridgeConfigVersionRecord,
+  ChainConfig,
+  StoredBridgeConfig,
+  StoredChainConfig,
+} from '@/types/bridge';
+
+// Instances announce new versions here; the message is {"version": n}
+export const BRIDGE_CONFIG_CHANNEL = 'bridge:config';
+
+const refreshIntervalMs = () => parseInt(process.env.BRIDGE_CONFIG_REFRESH_MS || '60000');
+
+export class BridgeConfigError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'BridgeConfigError';
+  }
+}
+
+const uintString = Joi.string().pattern(/^\d+$/).max(78);
+// Zero gas limits or fee caps would silently defer or cap every release (see GasPolicy)
+const positiveUintString = uintString.custom((value: string, helpers) =>
+  BigInt(value) > 0n ? value : helpers.message({ custom: '{{#label}} must be greater than 0' })
+);
+const address = Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/);
+
+const chainSchema = Joi.object({
+  chainId: Joi.number().integer().positive().required(),
+  name: Joi.string().trim().max(100).required(),
+  bridgeContract: address.allow('').required(),
+  confirmationBlocks: Joi.number().integer().min(0).max(10000).required(),
+  gasLimit: positiveUintString.required(),
+  maxGasPrice: positiveUintString.required(),
+});
+
+const bridgeConfigSchema = Joi.object({
+  l1: chainSchema.required(),
+  l2: chainSchema.required(),
+  feePercentage: Joi.number().min(0).max(100).required(),
+  minConfirmations: Joi.number().integer().min(0).max(10000).required(),
+});
+
+// Checks a config submitted through the admin API; throws a BridgeConfigError (400) describing the first problem
+export function validateBridgeConfig(input: unknown): StoredBridgeConfig {
+  const { value, error } = bridgeConfigSchema.validate(input);
+  if (error) {
+    throw new BridgeConfigError(error.details[0]?.message ?? 'Invalid bridge config', 400);
+  }
+  return value as StoredBridgeConfig;
+}
+
+// The config a fresh database is seeded with, built from the environment as before
+export function defaultBridgeConfig(): StoredBridgeConfig {
+  const confirmationBlocks = parseInt(process.env.CONFIRMATION_BLOCKS || '12');
+  const maxGasPrice = ethers.parseUnits('100', 'gwei').toString();
+
+  return {
+    l1: {
+      chainId: 11155111, // Sepolia
+      name: 'Sepolia',
+      bridgeContract: process.env.L1_BRIDGE_CONTRACT || '',
+      confirmationBlocks,
+      gasLimit: '500000',
+      maxGasPrice,
+    },
+    l2: {
+      chainId: 98765432103, // GoodNet Testnet
+      name: 'GoodNet Testnet',
+      bridgeContract: process.env.L2_BRIDGE_CONTRACT || '',
+      confirmationBlocks: 1,
+      gasLimit: '500000',
+      maxGasPrice,
+    },
+    feePercentage: parseFloat(process.env.BRIDGE_FEE_PERCENTAGE || '0.1'),
+    minConfirmations: confirmationBlocks,
+  };
+}
+
+function toChainConfig(chain: StoredChainConfig, rpcUrl: string | undefined): ChainConfig {
+  return {
+    ...chain,
+    rpcUrl: rpcUrl || '',
+    gasLimit: BigInt(chain.gasLimit),
+    maxGasPrice: BigInt(chain.maxGasPrice),
+  };
+}
+
+// RPC URLs are never stored; they come from L1_RPC_URL / L2_RPC_URL
+export function fromStoredConfig(stored: StoredBridgeConfig): BridgeConfig {
+  return {
+    l1: toChainConfig(stored.l1, process.env.L1_RPC_URL),
+    l2: toChainConfig(stored.l2, process.env.L2_RPC_URL),
+    feePercentage: stored.feePercentage,
+    minConfirmations: stored.minConfirmations,
+  };
+}
+
+let active: { record: BridgeConfigVersionRecord; config: BridgeConfig } | undefined;
+
+/**
+ * The config deposits are validated against right now. Before
+ * initializeBridgeConfig has loaded a version this is the environment default,
+ * which is also what a fresh database gets seeded with.
+ */
+export function getBridgeConfig(): BridgeConfig {
+  return active?.config ?? fromStoredConfig(defaultBridgeConfig());
+}
+
+export function getActiveBridgeConfigVersion(): BridgeConfigVersionRecord | null {
+  return active?.record ?? null;
+}
+
+// Confirmations an L1 deposit needs before it is released on L2
+export function requiredDepositConfirmations(config: BridgeConfig = getBridgeConfig()): number {
+  return Math.max(config.l1.confirmationBlocks, config.minConfirmations);
+}
+
+// Versions only move forward, so a late pub/sub message can't roll an instance back
+function applyVersion(record: BridgeConfigVersionRecord): void {
+  if (active && active.record.version >= record.version) {
+    return;
+  }
+  active = { record, config: fromStoredConfig(record.config) };
+  logger.info(`Bridge config version ${record.version} applied`);
+}
+
+export async function refreshBridgeConfig(): Promise<void> {
+  const latest = await SimpleBridgeDB.getLatestBridgeConfig();
+  if (latest) {
+    applyVersion(latest);
+  }
+}
+
+async function publishVersion(version: number): Promise<void> {
+  try {
+    await getRedisClient().publish(BRIDGE_CONFIG_CHANNEL, JSON.stringify({ version }));
+  } catch (error) {
+    // Other instances still pick the version up on their next periodic refresh
+    logger.error(`Failed to announce bridge config version ${version}:`, error);
+  }
+}
+
+/**
+ * Loads the latest stored version, seeding version 1 from the environment on
+ * an empty table, and keeps it current: new versions are announced over Redis
+ * pub/sub, with a periodic reload (BRIDGE_CONFIG_REFRESH_MS) in case a message
+ * is missed.
+ */
+export async function initializeBridgeConfig(): Promise<void> {
+  let latest = await SimpleBridgeDB.getLatestBridgeConfig();
+  if (!latest) {
+    latest = await SimpleBridgeDB.saveBridgeConfigVersion({
+      config: defaultBridgeConfig(),
+      createdBy: 'system:bootstrap',
+      reason: 'Seeded from environment',
+      restoredFrom: null,
+      expectedVersion: 0,
+    }) ?? await SimpleBridgeDB.getLatestBridgeConfig(); // another instance seeded it first
+  }
+  if (latest) {
+    applyVersion(latest);
+  }
+
+  const subscriber = getRedisClient().duplicate();
+  subscriber.on('error', (error: unknown) => logger.error('Bridge config subscriber error:', error));
+  await subscriber.connect();
+  await subscriber.subscribe(BRIDGE_CONFIG_CHANNEL, (message: string) => {
+    let version: number;
+    try {
+      ({ version } = JSON.parse(message) as { version: number });
+    } catch (error) {
+      logger.warn(`Ignoring malformed ${BRIDGE_CONFIG_CHANNEL} message: ${message}`, error);
+      return;
+    }
+    if (!active || version > active.record.version) {
+      refreshBridgeConfig().catch(error => logger.error('Failed to reload bridge config:', error));
+    }
+  });
+
+  const refreshTimer = setInterval(() => {
+    refreshBridgeConfig().catch(error => logger.error('Failed to refresh bridge config:', error));
+  }, refreshIntervalMs());
+  refreshTimer.unref();
+}
+
+async function saveVersion(
+  config: StoredBridgeConfig,
+  expectedVersion: number,
+  actor: string,
+  reason: string | null,
+  restoredFrom: number | null
+): Promise<BridgeConfigVersionRecord> {
+  const saved = await SimpleBridgeDB.saveBridgeConfigVersion({ config, createdBy: actor, reason, restoredFrom, expectedVersion });
+  if (!saved) {
+    throw new BridgeConfigError(`Bridge config is no longer at version ${expectedVersion}; reload and retry`, 409);
+  }
+
+  applyVersion(saved);
+  await publishVersion(saved.version);
+  return saved;
+}
+
+/**
+ * Stores a new version and applies it here and, via pub/sub, on every other
+ * instance. expectedVersion is the version the change was based on; if another
+ * change landed in between this fails with 409 instead of overwriting it.
+ */
+export async function updateBridgeConfig(
+  input: unknown,
+  expectedVersion: number,
+  actor: string,
+  reason: string | null
+): Promise<BridgeConfigVersionRecord> {
+  return saveVersion(validateBridgeConfig(input), expectedVersion, actor, reason, null);
+}
+
+// Makes an earlier version current again by storing a copy of it as a new version
+export async function restoreBridgeConfig(
+  version: number,
+  expectedVersion: number,
+  actor: string,
+  reason: string | null
+): Promise<BridgeConfigVersionRecord> {
+  const target = await SimpleBridgeDB.getBridgeConfigVersion(version);
+  if (!target) {
+    throw new BridgeConfigError(`Bridge config version ${version} not found`, 404);
+  }
+
+  return saveVersion(target.config, expectedVersion, actor, reason, version);
+}
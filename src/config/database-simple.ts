@@ -1,5 +1,28 @@
 import pg from 'pg';
 import { logger } from '@/utils/logger';
+import { migrateUp } from '@/config/migrations';
+import {
+  BridgeChain,
+  BridgeConfigVersionRecord,
+  BridgeDepositRecord,
+  BridgeTokenRecord,
+  BridgeStatus,
+  DailyRollupRow,
+  DepositEventRecord,
+  DepositHistoryFilters,
+  DepositHistoryRow,
+  GasCostRow,
+  ProcessingTimeBucket,
+  ReleaseApprovalRecord,
+  SignerTransactionRecord,
+  SignerTransactionStatus,
+  StatusRollupRow,
+  StoredBridgeConfig,
+  TokenMetadata,
+  TokenMetadataRecord,
+} from '@/types/bridge';
+import { AdminRole, AdminUserRecord, AuditDiff, AuditLogFilters, AuditLogRecord, RefreshTokenRecord } from '@/types/auth';
+import { GENESIS_HASH, hashAuditEntry } from '@/utils/auditChain';
 
 const { Pool } = pg;
 
@@ -17,11 +40,13 @@ export async function initializeDatabaseSimple(): Promise<pg.Pool> {
 
     // Test connection
     const client = await pool.connect();
-    
-    // Create tables if they don't exist
-    await createTablesIfNotExists(client);
-    
     client.release();
+
+    // Bring the schema up to date unless migrations are run separately (npm run db:migrate)
+    if (process.env.DB_AUTO_MIGRATE !== 'false') {
+      const applied = await migrateUp(pool);
+      logger.info(`Database migrations applied: ${applied.length}`);
+    }
     
     logger.info('Simple database connection established successfully');
     return pool;
@@ -31,42 +56,6 @@ export async function initializeDatabaseSimple(): Promise<pg.Pool> {
   }
 }
 
-async function createTablesIfNotExists(client: pg.PoolClient): Promise<void> {
-  const createBridgeDepositTable = `
-    CREATE TABLE IF NOT EXISTS bridge_deposits (
-      id SERIAL PRIMARY KEY,
-      deposit_id VARCHAR(255) UNIQUE NOT NULL,
-      user_address VARCHAR(42) NOT NULL,
-      token_address VARCHAR(42) NOT NULL,
-      amount VARCHAR(255) NOT NULL,
-      nonce VARCHAR(255),
-      source_chain VARCHAR(10) DEFAULT 'L1',
-      target_chain VARCHAR(10) DEFAULT 'L2',
-      status VARCHAR(20) DEFAULT 'PENDING',
-      tx_hash VARCHAR(66),
-      block_number VARCHAR(255),
-      retry_count INTEGER DEFAULT 0,
-      failure_reason TEXT,
-      completed_tx_hash VARCHAR(66),
-      completed_at TIMESTAMP,
-      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-    );
-  `;
-
-  const createIndexes = `
-    CREATE INDEX IF NOT EXISTS idx_bridge_deposits_user ON bridge_deposits(user_address);
-    CREATE INDEX IF NOT EXISTS idx_bridge_deposits_status ON bridge_deposits(status);
-    CREATE INDEX IF NOT EXISTS idx_bridge_deposits_deposit_id ON bridge_deposits(deposit_id);
-    CREATE INDEX IF NOT EXISTS idx_bridge_deposits_created_at ON bridge_deposits(created_at);
-  `;
-
-  await client.query(createBridgeDepositTable);
-  await client.query(createIndexes);
-  
-  logger.info('Database tables created/verified successfully');
-}
-
 export function getDatabaseSimple(): pg.Pool {
   if (!pool) {
     throw new Error('Database not initialized. Call initializeDatabaseSimple() first.');
@@ -91,19 +80,41 @@ export class SimpleBridgeDB {
     nonce?: string;
     txHash: string;
     blockNumber: string;
+    blockHash: string;
+    logIndex: number;
     timestamp: Date;
-  }): Promise<void> {
+  }): Promise<boolean> {
     const client = await pool.connect();
     try {
+      // previous is read from the same snapshot as the upsert, so the event records the status it replaced
       const query = `
-        INSERT INTO bridge_deposits (
-          deposit_id, user_address, token_address, amount, nonce,
-          tx_hash, block_number, created_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        ON CONFLICT (deposit_id) DO NOTHING
+        WITH previous AS (
+          SELECT status FROM bridge_deposits WHERE source_chain = 'L1' AND deposit_id = $1
+        ), upserted AS (
+          INSERT INTO bridge_deposits (
+            deposit_id, user_address, token_address, amount, nonce,
+            tx_hash, block_number, block_hash, log_index, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          ON CONFLICT (source_chain, deposit_id) DO UPDATE
+          SET tx_hash = EXCLUDED.tx_hash,
+              block_number = EXCLUDED.block_number,
+              block_hash = EXCLUDED.block_hash,
+              log_index = EXCLUDED.log_index,
+              status = 'PENDING',
+              failure_reason = NULL,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE bridge_deposits.status = 'REORGED' AND bridge_deposits.l2_tx_hash IS NULL
+          RETURNING source_chain, deposit_id, status
+        )
+        INSERT INTO deposit_events (source_chain, deposit_id, from_status, to_status, actor, reason)
+        SELECT source_chain, deposit_id, (SELECT status FROM previous), status, 'system:listener',
+               CASE WHEN (SELECT status FROM previous) IS NULL
+                 THEN 'Deposit observed on L1'
+                 ELSE 'Deposit re-observed on the canonical L1 chain' END
+        FROM upserted
       `;
       
-      await client.query(query, [
+      const result = await client.query(query, [
         deposit.depositId,
         deposit.userAddress.toLowerCase(),
         deposit.tokenAddress.toLowerCase(),
@@ -111,10 +122,20 @@ export class SimpleBridgeDB {
         deposit.nonce || null,
         deposit.txHash,
         deposit.blockNumber,
+        deposit.blockHash,
+        deposit.logIndex,
         deposit.timestamp
       ]);
-      
-      logger.info(`Deposit saved to database: ${deposit.depositId}`);
+
+      // rowCount is 0 when the deposit was already stored (e.g. replayed during catch-up).
+      // A deposit reorged out before release is revived when it reappears on the new chain.
+      const inserted = (result.rowCount ?? 0) > 0;
+      if (inserted) {
+        logger.info(`Deposit saved to database: ${deposit.depositId}`);
+      } else {
+        logger.debug(`Deposit ${deposit.depositId} already stored, skipping`);
+      }
+      return inserted;
     } catch (error) {
       logger.error('Error saving deposit to database:', error);
       throw error;
@@ -123,38 +144,409 @@ export class SimpleBridgeDB {
     }
   }
 
-  static async updateDepositStatus(
-    depositId: string, 
-    status: string, 
-    completedTxHash?: string,
-    failureReason?: string
-  ): Promise<void> {
+  /**
+   * Compare-and-set status change plus its deposit_events row, in one transaction.
+   * Returns false when the row is no longer in fromStatus (another worker or an
+   * operator changed it first). Callers go through DepositStateMachine, which
+   * decides whether the transition is allowed at all.
+   */
+  static async transitionDeposit(
+    depositId: string,
+    fromStatus: BridgeStatus,
+    toStatus: BridgeStatus,
+    details: {
+      sourceChain: BridgeChain;
+      actor: string;
+      reason?: string;
+      completedTxHash?: string;
+      failureReason?: string;
+    }
+  ): Promise<boolean> {
     const client = await pool.connect();
     try {
-      const query = `
-        UPDATE bridge_deposits 
-        SET status = $1, 
-            completed_tx_hash = $2,
+      await client.query('BEGIN');
+
+      const updateQuery = `
+        UPDATE bridge_deposits
+        SET status = $1,
+            completed_tx_hash = COALESCE($2, completed_tx_hash),
             completed_at = CASE WHEN $1 = 'COMPLETED' THEN CURRENT_TIMESTAMP ELSE completed_at END,
             failure_reason = $3,
             updated_at = CURRENT_TIMESTAMP
-        WHERE deposit_id = $4
+        WHERE deposit_id = $4 AND source_chain = $5 AND status = $6
       `;
-      
-      await client.query(query, [status, completedTxHash, failureReason, depositId]);
-      logger.info(`Deposit ${depositId} status updated to ${status}`);
+      const result = await client.query(updateQuery, [
+        toStatus,
+        details.completedTxHash ?? null,
+        details.failureReason ?? null,
+        depositId,
+        details.sourceChain,
+        fromStatus,
+      ]);
+
+      if ((result.rowCount ?? 0) === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(
+        `INSERT INTO deposit_events (source_chain, deposit_id, from_status, to_status, actor, reason)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [details.sourceChain, depositId, fromStatus, toStatus, details.actor, details.reason ?? details.failureReason ?? null]
+      );
+
+      await client.query('COMMIT');
+      logger.info(`${details.sourceChain} transfer ${depositId} moved ${fromStatus} -> ${toStatus} by ${details.actor}`);
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error transitioning deposit status:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDepositEvents(depositId: string, sourceChain: BridgeChain = 'L1'): Promise<DepositEventRecord[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM deposit_events
+        WHERE deposit_id = $1 AND source_chain = $2
+        ORDER BY created_at ASC, id ASC
+      `;
+      const result = await client.query(query, [depositId, sourceChain]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting deposit events:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async recordL2Submission(depositId: string, l2TxHash: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE bridge_deposits
+        SET l2_tx_hash = $1,
+            submitted_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE deposit_id = $2 AND source_chain = 'L1'
+      `;
+      await client.query(query, [l2TxHash, depositId]);
+    } catch (error) {
+      logger.error('Error recording L2 submission:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async recordL2Confirmation(depositId: string, confirmation: {
+    txHash: string;
+    blockNumber: number;
+    gasUsed: string;
+    effectiveGasPrice: string;
+    l2DepositId: string | null;
+    l2Token: string | null;
+  }): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE bridge_deposits
+        SET l2_tx_hash = $1,
+            l2_block_number = $2,
+            l2_gas_used = $3,
+            l2_effective_gas_price = $4,
+            l2_deposit_id = $5,
+            l2_token = $6,
+            submitted_at = COALESCE(submitted_at, CURRENT_TIMESTAMP),
+            confirmed_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE deposit_id = $7 AND source_chain = 'L1'
+      `;
+      await client.query(query, [
+        confirmation.txHash,
+        confirmation.blockNumber,
+        confirmation.gasUsed,
+        confirmation.effectiveGasPrice,
+        confirmation.l2DepositId,
+        confirmation.l2Token?.toLowerCase() ?? null,
+        depositId,
+      ]);
+    } catch (error) {
+      logger.error('Error recording L2 confirmation:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async incrementRetryCount(depositId: string, failureReason: string, sourceChain: BridgeChain = 'L1'): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE bridge_deposits
+        SET retry_count = retry_count + 1,
+            failure_reason = $1,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE deposit_id = $2 AND source_chain = $3
+      `;
+      await client.query(query, [failureReason, depositId, sourceChain]);
+    } catch (error) {
+      logger.error('Error incrementing retry count:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Stores an L2 withdrawal in bridge_deposits with source_chain L2, so it shares
+   * the deposit lifecycle. The L1 token to release goes in token_address and the
+   * burned L2 token in l2_token. A withdrawal seen again in a different block
+   * (L2 reorg) is moved there as long as it has not been released.
+   */
+  static async saveWithdrawal(withdrawal: {
+    withdrawalId: string;
+    userAddress: string;
+    l1TokenAddress: string;
+    l2TokenAddress: string | null;
+    amount: string;
+    nonce: string;
+    txHash: string;
+    blockNumber: string;
+    blockHash: string;
+    logIndex: number;
+    timestamp: Date;
+  }): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        WITH previous AS (
+          SELECT status FROM bridge_deposits WHERE source_chain = 'L2' AND deposit_id = $1
+        ), upserted AS (
+          INSERT INTO bridge_deposits (
+            deposit_id, user_address, token_address, l2_token, amount, nonce,
+            source_chain, target_chain, tx_hash, block_number, block_hash, log_index, created_at
+          ) VALUES ($1, $2, $3, $4, $5, $6, 'L2', 'L1', $7, $8, $9, $10, $11)
+          ON CONFLICT (source_chain, deposit_id) DO UPDATE
+          SET tx_hash = EXCLUDED.tx_hash,
+              block_number = EXCLUDED.block_number,
+              block_hash = EXCLUDED.block_hash,
+              log_index = EXCLUDED.log_index,
+              status = 'PENDING',
+              failure_reason = NULL,
+              updated_at = CURRENT_TIMESTAMP
+          WHERE bridge_deposits.status IN ('PENDING', 'CONFIRMING', 'REORGED')
+            AND bridge_deposits.l1_release_tx_hash IS NULL
+            AND bridge_deposits.block_hash IS DISTINCT FROM EXCLUDED.block_hash
+          RETURNING source_chain, deposit_id, status
+        )
+        INSERT INTO deposit_events (source_chain, deposit_id, from_status, to_status, actor, reason)
+        SELECT source_chain, deposit_id, (SELECT status FROM previous), status, 'system:withdrawal-listener',
+               CASE WHEN (SELECT status FROM previous) IS NULL
+                 THEN 'Withdrawal observed on L2'
+                 ELSE 'Withdrawal re-observed in a different L2 block' END
+        FROM upserted
+      `;
+
+      const result = await client.query(query, [
+        withdrawal.withdrawalId,
+        withdrawal.userAddress.toLowerCase(),
+        withdrawal.l1TokenAddress.toLowerCase(),
+        withdrawal.l2TokenAddress?.toLowerCase() ?? null,
+        withdrawal.amount,
+        withdrawal.nonce,
+        withdrawal.txHash,
+        withdrawal.blockNumber,
+        withdrawal.blockHash,
+        withdrawal.logIndex,
+        withdrawal.timestamp,
+      ]);
+
+      const inserted = (result.rowCount ?? 0) > 0;
+      if (inserted) {
+        logger.info(`Withdrawal saved to database: ${withdrawal.withdrawalId}`);
+      } else {
+        logger.debug(`Withdrawal ${withdrawal.withdrawalId} already stored, skipping`);
+      }
+      return inserted;
+    } catch (error) {
+      logger.error('Error saving withdrawal to database:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async recordL1ReleaseSubmission(withdrawalId: string, l1TxHash: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE bridge_deposits
+        SET l1_release_tx_hash = $1,
+            submitted_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE deposit_id = $2 AND source_chain = 'L2'
+      `;
+      await client.query(query, [l1TxHash, withdrawalId]);
+    } catch (error) {
+      logger.error('Error recording L1 release submission:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async recordL1ReleaseConfirmation(withdrawalId: string, confirmation: {
+    txHash: string;
+    blockNumber: number;
+    gasUsed: string;
+    effectiveGasPrice: string;
+  }): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE bridge_deposits
+        SET l1_release_tx_hash = $1,
+            l1_release_block_number = $2,
+            l1_release_gas_used = $3,
+            l1_release_effective_gas_price = $4,
+            submitted_at = COALESCE(submitted_at, CURRENT_TIMESTAMP),
+            confirmed_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE deposit_id = $5 AND source_chain = 'L2'
+      `;
+      await client.query(query, [
+        confirmation.txHash,
+        confirmation.blockNumber,
+        confirmation.gasUsed,
+        confirmation.effectiveGasPrice,
+        withdrawalId,
+      ]);
+    } catch (error) {
+      logger.error('Error recording L1 release confirmation:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDepositById(depositId: string, sourceChain: BridgeChain = 'L1'): Promise<BridgeDepositRecord | null> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM bridge_deposits WHERE deposit_id = $1 AND source_chain = $2';
+      const result = await client.query(query, [depositId, sourceChain]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting deposit by id:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Keyset-paginated deposit history for a user, newest first. The cursor is the
+   * (created_at, id) of the last row on the previous page, so pages stay stable
+   * while new deposits are inserted. created_at is carried as text with its
+   * microseconds, which a JavaScript Date would truncate to milliseconds.
+   */
+  static async getUserDeposits(filters: DepositHistoryFilters): Promise<{
+    rows: DepositHistoryRow[];
+    total: number;
+    position: number;
+  }> {
+    const client = await pool.connect();
+    try {
+      const conditions = ['user_address = $1'];
+      const params: unknown[] = [filters.userAddress.toLowerCase()];
+
+      if (filters.status) {
+        params.push(filters.status);
+        conditions.push(`status = $${params.length}`);
+      }
+      if (filters.tokenAddress) {
+        params.push(filters.tokenAddress.toLowerCase());
+        conditions.push(`token_address = $${params.length}`);
+      }
+      if (filters.sourceChain) {
+        params.push(filters.sourceChain);
+        conditions.push(`source_chain = $${params.length}`);
+      }
+      if (filters.fromDate) {
+        params.push(filters.fromDate);
+        conditions.push(`created_at >= $${params.length}`);
+      }
+      if (filters.toDate) {
+        params.push(filters.toDate);
+        conditions.push(`created_at <= $${params.length}`);
+      }
+
+      const where = conditions.join(' AND ');
+      const countResult = await client.query(`SELECT COUNT(*) AS total FROM bridge_deposits WHERE ${where}`, params);
+
+      let pageWhere = where;
+      const pageParams = [...params];
+      let position = 0;
+      if (filters.cursor) {
+        pageParams.push(filters.cursor.createdAt, filters.cursor.id);
+        const cursorCondition = `(created_at, id) < ($${pageParams.length - 1}::timestamp, $${pageParams.length})`;
+        pageWhere = `${where} AND ${cursorCondition}`;
+
+        const positionResult = await client.query(
+          `SELECT COUNT(*) AS ahead FROM bridge_deposits WHERE ${where} AND NOT ${cursorCondition}`,
+          pageParams
+        );
+        position = Number(positionResult.rows[0].ahead);
+      }
+
+      pageParams.push(filters.limit);
+      const result = await client.query(
+        `SELECT *, to_char(created_at, 'YYYY-MM-DD HH24:MI:SS.US') AS created_at_key
+         FROM bridge_deposits WHERE ${pageWhere} ORDER BY created_at DESC, id DESC LIMIT $${pageParams.length}`,
+        pageParams
+      );
+
+      return {
+        rows: result.rows,
+        total: Number(countResult.rows[0].total),
+        position,
+      };
+    } catch (error) {
+      logger.error('Error getting user deposits:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDepositByUserNonce(userAddress: string, nonce: string): Promise<BridgeDepositRecord | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM bridge_deposits
+        WHERE user_address = $1 AND nonce = $2 AND source_chain = 'L1'
+        ORDER BY created_at DESC
+        LIMIT 1
+      `;
+      const result = await client.query(query, [userAddress.toLowerCase(), nonce]);
+      return result.rows[0] || null;
     } catch (error) {
-      logger.error('Error updating deposit status:', error);
+      logger.error('Error getting deposit by user nonce:', error);
       throw error;
     } finally {
       client.release();
     }
   }
 
-  static async getDepositByTxHash(txHash: string): Promise<any> {
+  static async getDepositByTxHash(txHash: string): Promise<BridgeDepositRecord | null> {
     const client = await pool.connect();
     try {
-      const query = 'SELECT * FROM bridge_deposits WHERE tx_hash = $1';
+      const query = "SELECT * FROM bridge_deposits WHERE tx_hash = $1 AND source_chain = 'L1'";
       const result = await client.query(query, [txHash]);
       return result.rows[0] || null;
     } catch (error) {
@@ -164,4 +556,1135 @@ export class SimpleBridgeDB {
       client.release();
     }
   }
-}
\ No newline at end of file
+
+  // maxBlockNumber is on the source chain, so L1 deposits and L2 withdrawals are queried separately
+  static async getDepositsByStatusUpToBlock(
+    status: BridgeStatus,
+    maxBlockNumber: number,
+    limit: number = 100,
+    sourceChain: BridgeChain = 'L1'
+  ): Promise<BridgeDepositRecord[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM bridge_deposits
+        WHERE status = $1 AND source_chain = $2 AND CAST(block_number AS BIGINT) <= $3
+        ORDER BY CAST(block_number AS BIGINT) ASC, log_index ASC
+        LIMIT $4
+      `;
+      const result = await client.query(query, [status, sourceChain, maxBlockNumber, limit]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting deposits by status:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDepositsFromBlock(fromBlock: number): Promise<BridgeDepositRecord[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT * FROM bridge_deposits
+        WHERE source_chain = 'L1' AND CAST(block_number AS BIGINT) >= $1 AND status <> $2
+        ORDER BY CAST(block_number AS BIGINT) ASC
+      `;
+      const result = await client.query(query, [fromBlock, BridgeStatus.REORGED]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting deposits from block:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Rollup reads for bridge stats; the tables are kept current by a trigger on bridge_deposits
+  static async getStatusRollup(sourceChain: BridgeChain): Promise<StatusRollupRow[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT token_address, status, transfer_count::TEXT, volume::TEXT
+        FROM bridge_stats_status
+        WHERE source_chain = $1 AND transfer_count > 0
+      `;
+      const result = await client.query(query, [sourceChain]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting status rollup:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getDailyRollup(sourceChain: BridgeChain, fromDate: Date, toDate: Date): Promise<DailyRollupRow[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT to_char(day, 'YYYY-MM-DD') AS day, token_address, transfer_count::TEXT, volume::TEXT
+        FROM bridge_stats_daily
+        WHERE source_chain = $1 AND day >= $2::DATE AND day <= $3::DATE AND transfer_count > 0
+        ORDER BY day ASC
+      `;
+      const result = await client.query(query, [sourceChain, fromDate, toDate]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting daily rollup:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getProcessingTimeRollup(sourceChain: BridgeChain): Promise<ProcessingTimeBucket[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT token_address, bucket_upper_seconds, transfer_count::TEXT, total_seconds::TEXT
+        FROM bridge_stats_processing_time
+        WHERE source_chain = $1 AND transfer_count > 0
+        ORDER BY bucket_upper_seconds ASC
+      `;
+      const result = await client.query(query, [sourceChain]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting processing time rollup:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Per chain/token/status totals for transfers created since the given time (admin dashboard windows)
+  static async getTransferSummarySince(since: Date): Promise<Array<StatusRollupRow & { source_chain: BridgeChain }>> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT source_chain, token_address, status,
+               COUNT(*)::TEXT AS transfer_count,
+               COALESCE(SUM(amount::NUMERIC), 0)::TEXT AS volume
+        FROM bridge_deposits
+        WHERE created_at >= $1
+        GROUP BY source_chain, token_address, status
+      `;
+      const result = await client.query(query, [since]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting transfer summary:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getRecentTransfers(limit: number): Promise<BridgeDepositRecord[]> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT * FROM bridge_deposits ORDER BY created_at DESC, id DESC LIMIT $1';
+      const result = await client.query(query, [limit]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting recent transfers:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async saveBlockHash(blockNumber: number, blockHash: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO l1_block_hashes (block_number, block_hash)
+        VALUES ($1, $2)
+        ON CONFLICT (block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash
+      `;
+      await client.query(query, [blockNumber, blockHash]);
+    } catch (error) {
+      logger.error('Error saving block hash:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getBlockHashesFrom(fromBlock: number): Promise<Array<{ blockNumber: number; blockHash: string }>> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT block_number, block_hash FROM l1_block_hashes
+        WHERE block_number >= $1
+        ORDER BY block_number ASC
+      `;
+      const result = await client.query(query, [fromBlock]);
+      return result.rows.map(row => ({
+        blockNumber: Number(row.block_number),
+        blockHash: row.block_hash,
+      }));
+    } catch (error) {
+      logger.error('Error getting block hashes:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async deleteBlockHashesFrom(fromBlock: number): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('DELETE FROM l1_block_hashes WHERE block_number >= $1', [fromBlock]);
+    } catch (error) {
+      logger.error('Error deleting block hashes:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getLastProcessedBlock(syncKey: string): Promise<number | null> {
+    const client = await pool.connect();
+    try {
+      const query = 'SELECT last_processed_block FROM bridge_sync_state WHERE sync_key = $1';
+      const result = await client.query(query, [syncKey]);
+      const row = result.rows[0];
+      return row ? Number(row.last_processed_block) : null;
+    } catch (error) {
+      logger.error('Error getting last processed block:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async saveLastProcessedBlock(syncKey: string, blockNumber: number): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO bridge_sync_state (sync_key, last_processed_block, updated_at)
+        VALUES ($1, $2, CURRENT_TIMESTAMP)
+        ON CONFLICT (sync_key) DO UPDATE
+        SET last_processed_block = EXCLUDED.last_processed_block,
+            updated_at = CURRENT_TIMESTAMP
+      `;
+      await client.query(query, [syncKey, blockNumber]);
+    } catch (error) {
+      logger.error('Error saving last processed block:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async createAdminUser(user: {
+    username: string;
+    passwordHash: string | null;
+    walletAddress?: string | null;
+    role: AdminRole;
+  }): Promise<AdminUserRecord> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO admin_users (username, password_hash, wallet_address, role)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      `;
+      const result = await client.query(query, [user.username, user.passwordHash, user.walletAddress ?? null, user.role]);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Error creating admin user:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getAdminUserByUsername(username: string): Promise<AdminUserRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM admin_users WHERE username = $1', [username]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting admin user by username:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The SIWE allowlist: admins with a linked wallet
+  static async getAdminUserByWallet(walletAddress: string): Promise<AdminUserRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM admin_users WHERE LOWER(wallet_address) = LOWER($1)', [walletAddress]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting admin user by wallet:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getAdminUserById(id: string): Promise<AdminUserRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM admin_users WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting admin user by id:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async listAdminUsers(): Promise<AdminUserRecord[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM admin_users ORDER BY id ASC');
+      return result.rows;
+    } catch (error) {
+      logger.error('Error listing admin users:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Only the given fields are changed; returns null if the user does not exist
+  static async updateAdminUser(
+    id: string,
+    changes: { role?: AdminRole; passwordHash?: string; walletAddress?: string; disabled?: boolean }
+  ): Promise<AdminUserRecord | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE admin_users
+        SET role = COALESCE($2, role),
+            password_hash = COALESCE($3, password_hash),
+            wallet_address = COALESCE($4, wallet_address),
+            disabled = COALESCE($5, disabled),
+            updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        id,
+        changes.role ?? null,
+        changes.passwordHash ?? null,
+        changes.walletAddress ?? null,
+        changes.disabled ?? null,
+      ]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error updating admin user:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async recordAdminLogin(id: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query('UPDATE admin_users SET last_login_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+    } catch (error) {
+      logger.error('Error recording admin login:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async saveRefreshToken(token: {
+    id: string;
+    userId: string;
+    sessionId: string;
+    tokenHash: string;
+    expiresAt: Date;
+    createdIp: string | null;
+  }): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO admin_refresh_tokens (id, user_id, session_id, token_hash, expires_at, created_ip)
+        VALUES ($1, $2, $3, $4, $5, $6)
+      `;
+      await client.query(query, [token.id, token.userId, token.sessionId, token.tokenHash, token.expiresAt, token.createdIp]);
+    } catch (error) {
+      logger.error('Error saving refresh token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getRefreshToken(id: string): Promise<RefreshTokenRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM admin_refresh_tokens WHERE id = $1', [id]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting refresh token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Revokes `currentId` in favour of `next` in one transaction. Returns false,
+   * storing nothing, if `currentId` was already revoked, i.e. the same refresh
+   * token was presented twice.
+   */
+  static async rotateRefreshToken(currentId: string, next: {
+    id: string;
+    userId: string;
+    sessionId: string;
+    tokenHash: string;
+    expiresAt: Date;
+    createdIp: string | null;
+  }): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const revoked = await client.query(
+        `UPDATE admin_refresh_tokens
+         SET revoked_at = CURRENT_TIMESTAMP, replaced_by = $2
+         WHERE id = $1 AND revoked_at IS NULL`,
+        [currentId, next.id]
+      );
+      if ((revoked.rowCount ?? 0) === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await client.query(
+        `INSERT INTO admin_refresh_tokens (id, user_id, session_id, token_hash, expires_at, created_ip)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [next.id, next.userId, next.sessionId, next.tokenHash, next.expiresAt, next.createdIp]
+      );
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error rotating refresh token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async revokeRefreshSession(sessionId: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query(
+        'UPDATE admin_refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE session_id = $1 AND revoked_at IS NULL',
+        [sessionId]
+      );
+    } catch (error) {
+      logger.error('Error revoking refresh session:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async revokeUserRefreshTokens(userId: string): Promise<void> {
+    const client = await pool.connect();
+    try {
+      await client.query(
+        'UPDATE admin_refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL',
+        [userId]
+      );
+    } catch (error) {
+      logger.error('Error revoking user refresh tokens:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Appends an entry to the audit log, chained to the current last entry. An
+   * advisory lock serialises appends so two entries never share a prev_hash.
+   */
+  static async appendAuditEntry(entry: {
+    actor: string;
+    action: string;
+    target: string | null;
+    diff: AuditDiff;
+    ip: string | null;
+    requestId: string | null;
+  }): Promise<AuditLogRecord> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('admin_audit_log'))`);
+
+      const last = await client.query('SELECT hash FROM admin_audit_log ORDER BY id DESC LIMIT 1');
+      const prevHash: string = last.rows[0]?.hash ?? GENESIS_HASH;
+      const next = await client.query(`SELECT nextval(pg_get_serial_sequence('admin_audit_log', 'id')) AS id`);
+      const id = String(next.rows[0].id);
+      const createdAt = new Date();
+
+      const hash = hashAuditEntry({ id, ...entry, createdAt, prevHash });
+      const result = await client.query(
+        `INSERT INTO admin_audit_log (id, actor, action, target, diff, ip, request_id, created_at, prev_hash, hash)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [id, entry.actor, entry.action, entry.target, JSON.stringify(entry.diff), entry.ip, entry.requestId, createdAt, prevHash, hash]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error appending audit entry:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Newest first; page backwards with beforeId
+  static async getAuditEntries(filters: AuditLogFilters): Promise<AuditLogRecord[]> {
+    const client = await pool.connect();
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (filters.actor) {
+        params.push(filters.actor);
+        conditions.push(`actor = $${params.length}`);
+      }
+      if (filters.action) {
+        params.push(filters.action);
+        conditions.push(`action = $${params.length}`);
+      }
+      if (filters.target) {
+        params.push(filters.target);
+        conditions.push(`target = $${params.length}`);
+      }
+      if (filters.fromDate) {
+        params.push(filters.fromDate);
+        conditions.push(`created_at >= $${params.length}`);
+      }
+      if (filters.toDate) {
+        params.push(filters.toDate);
+        conditions.push(`created_at <= $${params.length}`);
+      }
+      if (filters.beforeId) {
+        params.push(filters.beforeId);
+        conditions.push(`id < $${params.length}`);
+      }
+
+      params.push(filters.limit);
+      const query = `
+        SELECT * FROM admin_audit_log
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY id DESC
+        LIMIT $${params.length}
+      `;
+      const result = await client.query(query, params);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting audit entries:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Oldest first, for walking the hash chain in batches
+  static async getAuditEntriesAfter(afterId: string, limit: number): Promise<AuditLogRecord[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT * FROM admin_audit_log WHERE id > $1 ORDER BY id ASC LIMIT $2',
+        [afterId, limit]
+      );
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting audit entries for verification:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getLatestBridgeConfig(): Promise<BridgeConfigVersionRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM bridge_config_versions ORDER BY version DESC LIMIT 1');
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting latest bridge config:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getBridgeConfigVersion(version: number): Promise<BridgeConfigVersionRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM bridge_config_versions WHERE version = $1', [version]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting bridge config version:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async listBridgeConfigVersions(limit: number): Promise<BridgeConfigVersionRecord[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM bridge_config_versions ORDER BY version DESC LIMIT $1', [limit]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error listing bridge config versions:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Stores `config` as the next version, but only if `expectedVersion` is still
+   * the latest one (0 for an empty table). Returns null if another update got
+   * there first.
+   */
+  static async saveBridgeConfigVersion(entry: {
+    config: StoredBridgeConfig;
+    createdBy: string;
+    reason: string | null;
+    restoredFrom: number | null;
+    expectedVersion: number;
+  }): Promise<BridgeConfigVersionRecord | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('bridge_config_versions'))`);
+
+      const latest = await client.query('SELECT COALESCE(MAX(version), 0) AS version FROM bridge_config_versions');
+      if (Number(latest.rows[0].version) !== entry.expectedVersion) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const result = await client.query(
+        `INSERT INTO bridge_config_versions (version, config, created_by, reason, restored_from)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [entry.expectedVersion + 1, JSON.stringify(entry.config), entry.createdBy, entry.reason, entry.restoredFrom]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error saving bridge config version:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async listBridgeTokens(): Promise<BridgeTokenRecord[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM bridge_tokens ORDER BY is_native DESC, symbol ASC');
+      return result.rows;
+    } catch (error) {
+      logger.error('Error listing bridge tokens:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getBridgeToken(l1Address: string): Promise<BridgeTokenRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM bridge_tokens WHERE l1_address = $1', [l1Address.toLowerCase()]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting bridge token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Returns null if the token is already listed
+  static async createBridgeToken(token: {
+    l1Address: string;
+    l2Address: string | null;
+    symbol: string;
+    name: string;
+    decimals: number;
+    minAmount: string;
+    maxAmount: string;
+    isNative: boolean;
+    enabled: boolean;
+    paused: boolean;
+    approvalThreshold?: string | null;
+    outflowLimit?: string | null;
+    referencePrice?: string | null;
+  }): Promise<BridgeTokenRecord | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO bridge_tokens (
+          l1_address, l2_address, symbol, name, decimals, min_amount, max_amount, is_native, enabled, paused,
+          approval_threshold, outflow_limit, reference_price
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        ON CONFLICT (l1_address) DO NOTHING
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        token.l1Address.toLowerCase(),
+        token.l2Address?.toLowerCase() ?? null,
+        token.symbol,
+        token.name,
+        token.decimals,
+        token.minAmount,
+        token.maxAmount,
+        token.isNative,
+        token.enabled,
+        token.paused,
+        token.approvalThreshold ?? null,
+        token.outflowLimit ?? null,
+        token.referencePrice ?? null,
+      ]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error creating bridge token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async updateBridgeToken(
+    l1Address: string,
+    changes: {
+      l2Address?: string;
+      symbol?: string;
+      name?: string;
+      decimals?: number;
+      minAmount?: string;
+      maxAmount?: string;
+      enabled?: boolean;
+      paused?: boolean;
+      // null removes the threshold, limit or price
+      approvalThreshold?: string | null;
+      outflowLimit?: string | null;
+      referencePrice?: string | null;
+    }
+  ): Promise<BridgeTokenRecord | null> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE bridge_tokens
+        SET l2_address = COALESCE($2, l2_address),
+            symbol = COALESCE($3, symbol),
+            name = COALESCE($4, name),
+            decimals = COALESCE($5, decimals),
+            min_amount = COALESCE($6, min_amount),
+            max_amount = COALESCE($7, max_amount),
+            enabled = COALESCE($8, enabled),
+            paused = COALESCE($9, paused),
+            approval_threshold = CASE WHEN $10::boolean THEN $11::numeric ELSE approval_threshold END,
+            outflow_limit = CASE WHEN $12::boolean THEN $13::numeric ELSE outflow_limit END,
+            reference_price = CASE WHEN $14::boolean THEN $15::numeric ELSE reference_price END,
+            updated_at = CURRENT_TIMESTAMP
+        WHERE l1_address = $1
+        RETURNING *
+      `;
+      const result = await client.query(query, [
+        l1Address.toLowerCase(),
+        changes.l2Address?.toLowerCase() ?? null,
+        changes.symbol ?? null,
+        changes.name ?? null,
+        changes.decimals ?? null,
+        changes.minAmount ?? null,
+        changes.maxAmount ?? null,
+        changes.enabled ?? null,
+        changes.paused ?? null,
+        changes.approvalThreshold !== undefined,
+        changes.approvalThreshold ?? null,
+        changes.outflowLimit !== undefined,
+        changes.outflowLimit ?? null,
+        changes.referencePrice !== undefined,
+        changes.referencePrice ?? null,
+      ]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error updating bridge token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async deleteBridgeToken(l1Address: string): Promise<BridgeTokenRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('DELETE FROM bridge_tokens WHERE l1_address = $1 RETURNING *', [l1Address.toLowerCase()]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error deleting bridge token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Fills in the L2 address from a TokenCreated event; false if the token is unlisted or already had it
+  static async setBridgeTokenL2Address(l1Address: string, l2Address: string): Promise<boolean> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `UPDATE bridge_tokens
+         SET l2_address = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE l1_address = $1 AND l2_address IS DISTINCT FROM $2`,
+        [l1Address.toLowerCase(), l2Address.toLowerCase()]
+      );
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      logger.error('Error setting bridge token L2 address:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async getTokenMetadata(address: string): Promise<TokenMetadataRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query('SELECT * FROM token_metadata WHERE address = $1', [address.toLowerCase()]);
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting token metadata:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The first stored metadata for a token wins, so every instance mints with the same name
+  static async saveTokenMetadata(metadata: TokenMetadata): Promise<TokenMetadataRecord> {
+    const client = await pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO token_metadata (address, name, symbol, decimals)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (address) DO NOTHING`,
+        [metadata.address.toLowerCase(), metadata.name, metadata.symbol, metadata.decimals]
+      );
+      const result = await client.query('SELECT * FROM token_metadata WHERE address = $1', [metadata.address.toLowerCase()]);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Error saving token metadata:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Reserves the lowest nonce at or above `chainNonce` (the signer's pending
+   * nonce on chain) that no in-flight transaction holds, and records the
+   * transaction under it. Serialised per signer, so concurrent senders get
+   * different nonces and a nonce given back by a FAILED send is reused.
+   */
+  static async reserveSignerTransaction(entry: {
+    chain: BridgeChain;
+    signer: string;
+    chainNonce: number;
+    reference: string;
+    to: string;
+    data: string;
+    value: string;
+    gasLimit: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string | null;
+  }): Promise<SignerTransactionRecord> {
+    const client = await pool.connect();
+    const signer = entry.signer.toLowerCase();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`signer:${entry.chain}:${signer}`]);
+
+      const inFlight = await client.query(
+        `SELECT nonce FROM signer_transactions
+         WHERE chain = $1 AND signer = $2 AND status = 'PENDING' AND nonce >= $3
+         ORDER BY nonce ASC`,
+        [entry.chain, signer, entry.chainNonce]
+      );
+      let nonce = entry.chainNonce;
+      for (const row of inFlight.rows) {
+        if (Number(row.nonce) !== nonce) {
+          break;
+        }
+        nonce++;
+      }
+
+      const result = await client.query(
+        `INSERT INTO signer_transactions
+           (chain, signer, nonce, reference, to_address, data, value, gas_limit, max_fee_per_gas, max_priority_fee_per_gas)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+         RETURNING *`,
+        [
+          entry.chain,
+          signer,
+          nonce,
+          entry.reference,
+          entry.to.toLowerCase(),
+          entry.data,
+          entry.value,
+          entry.gasLimit,
+          entry.maxFeePerGas,
+          entry.maxPriorityFeePerGas,
+        ]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      logger.error('Error reserving signer nonce:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // The unresolved transaction sent for `reference`, if a previous attempt left one
+  static async getPendingSignerTransaction(reference: string): Promise<SignerTransactionRecord | null> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT * FROM signer_transactions WHERE reference = $1 AND status = 'PENDING' ORDER BY id DESC LIMIT 1`,
+        [reference]
+      );
+      return result.rows[0] || null;
+    } catch (error) {
+      logger.error('Error getting pending signer transaction:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Every hash ever broadcast for `reference`, replaced ones included, oldest first
+  static async getSignerTransactionHashes(reference: string): Promise<string[]> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT hash
+         FROM signer_transactions t,
+              unnest(array_append(t.previous_hashes, t.tx_hash)) WITH ORDINALITY AS h(hash, position)
+         WHERE t.reference = $1 AND hash IS NOT NULL
+         ORDER BY t.id ASC, position ASC`,
+        [reference]
+      );
+      return result.rows.map(row => row.hash);
+    } catch (error) {
+      logger.error('Error getting signer transaction hashes:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Records a (re)broadcast; a replacement moves the previous hash into previous_hashes
+  static async recordSignerTransactionSent(id: string, sent: {
+    txHash: string;
+    maxFeePerGas: string;
+    maxPriorityFeePerGas: string | null;
+    replacement: boolean;
+  }): Promise<SignerTransactionRecord> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE signer_transactions
+        SET previous_hashes = CASE
+              WHEN tx_hash IS NOT NULL AND tx_hash <> $2 THEN array_append(previous_hashes, tx_hash)
+              ELSE previous_hashes
+            END,
+            tx_hash = $2,
+            max_fee_per_gas = $3,
+            max_priority_fee_per_gas = $4,
+            replacements = replacements + CASE WHEN $5::boolean THEN 1 ELSE 0 END,
+            last_sent_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+        RETURNING *
+      `;
+      const result = await client.query(query, [id, sent.txHash, sent.maxFeePerGas, sent.maxPriorityFeePerGas, sent.replacement]);
+      return result.rows[0];
+    } catch (error) {
+      logger.error('Error recording signer transaction broadcast:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async resolveSignerTransaction(id: string, resolution: {
+    status: Exclude<SignerTransactionStatus, 'PENDING'>;
+    txHash?: string;
+    blockNumber?: number;
+    gasUsed?: string;
+    effectiveGasPrice?: string;
+    error?: string;
+  }): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        UPDATE signer_transactions
+        SET status = $2,
+            tx_hash = COALESCE($3, tx_hash),
+            block_number = $4,
+            gas_used = $5,
+            effective_gas_price = $6,
+            error = $7,
+            resolved_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'PENDING'
+      `;
+      await client.query(query, [
+        id,
+        resolution.status,
+        resolution.txHash ?? null,
+        resolution.blockNumber ?? null,
+        resolution.gasUsed ?? null,
+        resolution.effectiveGasPrice ?? null,
+        resolution.error ?? null,
+      ]);
+    } catch (error) {
+      logger.error('Error resolving signer transaction:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Release gas per token for transactions resolved since `since`, joined to their deposit by reference
+  static async getGasCostByToken(since: Date): Promise<GasCostRow[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT d.token_address,
+               COUNT(DISTINCT d.deposit_id)::TEXT AS deposit_count,
+               COUNT(*)::TEXT AS transaction_count,
+               COUNT(*) FILTER (WHERE t.status = 'REVERTED')::TEXT AS reverted_count,
+               COALESCE(SUM(t.gas_used), 0)::TEXT AS gas_used,
+               COALESCE(SUM(t.gas_used * t.effective_gas_price), 0)::TEXT AS cost_wei
+        FROM signer_transactions t
+        JOIN bridge_deposits d
+          ON d.source_chain = 'L1' AND t.reference = 'deposit:L1:' || d.deposit_id
+        WHERE t.chain = 'L2'
+          AND t.status IN ('MINED', 'REVERTED')
+          AND t.gas_used IS NOT NULL
+          AND t.resolved_at >= $1
+        GROUP BY d.token_address
+        ORDER BY SUM(t.gas_used * t.effective_gas_price) DESC
+      `;
+      const result = await client.query(query, [since]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting gas cost by token:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Approving again replaces the operator's earlier approval, e.g. one that expired
+  static async saveReleaseApproval(approval: {
+    sourceChain: BridgeChain;
+    depositId: string;
+    operatorId: string;
+    signer: string;
+    signature: string;
+    deadline: Date;
+  }): Promise<void> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        INSERT INTO release_approvals (source_chain, deposit_id, operator_id, signer, signature, deadline)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        ON CONFLICT (source_chain, deposit_id, operator_id) DO UPDATE
+        SET signer = EXCLUDED.signer,
+            signature = EXCLUDED.signature,
+            deadline = EXCLUDED.deadline,
+            created_at = CURRENT_TIMESTAMP
+      `;
+      await client.query(query, [
+        approval.sourceChain,
+        approval.depositId,
+        approval.operatorId,
+        approval.signer.toLowerCase(),
+        approval.signature,
+        approval.deadline,
+      ]);
+    } catch (error) {
+      logger.error('Error saving release approval:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Approvals of a deposit with the approving operator's account as it is now, oldest first
+  static async getReleaseApprovals(depositId: string, sourceChain: BridgeChain = 'L1'): Promise<ReleaseApprovalRecord[]> {
+    const client = await pool.connect();
+    try {
+      const query = `
+        SELECT a.*,
+               u.username AS operator_username,
+               u.wallet_address AS operator_wallet,
+               u.role AS operator_role,
+               u.disabled AS operator_disabled
+        FROM release_approvals a
+        JOIN admin_users u ON u.id = a.operator_id
+        WHERE a.source_chain = $1 AND a.deposit_id = $2
+        ORDER BY a.created_at ASC, a.id ASC
+      `;
+      const result = await client.query(query, [sourceChain, depositId]);
+      return result.rows;
+    } catch (error) {
+      logger.error('Error getting release approvals:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Enabled admin users with a linked wallet in one of `roles`: the operators who can approve releases
+  static async countApprovalOperators(roles: readonly AdminRole[]): Promise<number> {
+    const client = await pool.connect();
+    try {
+      const result = await client.query(
+        `SELECT COUNT(*) AS count FROM admin_users
+         WHERE NOT disabled AND wallet_address IS NOT NULL AND role = ANY($1)`,
+        [roles]
+      );
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      logger.error('Error counting approval operators:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import pg from 'pg';
+import { logger } from '@/utils/logger';
+
+// Arbitrary constant shared by every instance; pg_advisory_lock serialises migration runs on it
+const MIGRATION_LOCK_KEY = 727274001;
+
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  upSql: string;
+  downSql: string;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied: boolean;
+  appliedAt: Date | null;
+  checksumMismatch: boolean;
+}
+
+export function getMigrationsDir(): string {
+  return process.env.MIGRATIONS_DIR || path.join(process.cwd(), 'migrations');
+}
+
+export function checksumOf(sql: string): string {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+/**
+ * Reads NNN_name.up.sql / NNN_name.down.sql pairs from the migrations directory,
+ * ordered by version. Every migration must have both files and a unique version.
+ */
+export function loadMigrations(dir: string = getMigrationsDir()): Migration[] {
+  const files = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const fileName of fs.readdirSync(dir)) {
+    const match = MIGRATION_FILE_PATTERN.exec(fileName);
+    if (!match) {
+      continue;
+    }
+
+    const version = parseInt(match[1]!);
+    const name = match[2]!;
+    const direction = match[3] as 'up' | 'down';
+
+    const entry = files.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Duplicate migration version ${version}: ${entry.name} and ${name}`);
+    }
+
+    entry[direction] = fs.readFileSync(path.join(dir, fileName), 'utf8');
+    files.set(version, entry);
+  }
+
+  return [...files.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (entry.up === undefined || entry.down === undefined) {
+        throw new Error(`Migration ${version}_${entry.name} is missing its ${entry.up === undefined ? 'up' : 'down'} file`);
+      }
+      return {
+        version,
+        name: entry.name,
+        upSql: entry.up,
+        downSql: entry.down,
+        checksum: checksumOf(entry.up),
+      };
+    });
+}
+
+async function ensureMigrationsTable(client: pg.PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+async function getAppliedMigrations(client: pg.PoolClient): Promise<Map<number, { checksum: string; appliedAt: Date }>> {
+  const result = await client.query('SELECT version, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(result.rows.map(row => [row.version, { checksum: row.checksum, appliedAt: row.applied_at }]));
+}
+
+// Runs fn while holding the migration advisory lock so concurrent instances wait their turn
+async function withMigrationLock<T>(pool: pg.Pool, fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+    try {
+      await ensureMigrationsTable(client);
+      return await fn(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Applies every pending migration in order, each in its own transaction.
+ * Refuses to run if an already-applied migration file was edited afterwards.
+ */
+export async function migrateUp(pool: pg.Pool, migrations: Migration[] = loadMigrations()): Promise<Migration[]> {
+  return withMigrationLock(pool, async client => {
+    const applied = await getAppliedMigrations(client);
+
+    for (const migration of migrations) {
+      const record = applied.get(migration.version);
+      if (record && record.checksum !== migration.checksum) {
+        throw new Error(`Checksum mismatch for applied migration ${migration.version}_${migration.name}`);
+      }
+    }
+
+    const pending = migrations.filter(migration => !applied.has(migration.version));
+    for (const migration of pending) {
+      logger.info(`Applying migration ${migration.version}_${migration.name}`);
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.upSql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error(`Migration ${migration.version}_${migration.name} failed:`, error);
+        throw error;
+      }
+    }
+
+    return pending;
+  });
+}
+
+// Reverts the most recently applied migrations, newest first
+export async function migrateDown(pool: pg.Pool, steps: number = 1, migrations: Migration[] = loadMigrations()): Promise<Migration[]> {
+  return withMigrationLock(pool, async client => {
+    const applied = await getAppliedMigrations(client);
+    const byVersion = new Map(migrations.map(migration => [migration.version, migration]));
+
+    const toRevert = [...applied.keys()].sort((a, b) => b - a).slice(0, steps);
+    const reverted: Migration[] = [];
+
+    for (const version of toRevert) {
+      const migration = byVersion.get(version);
+      if (!migration) {
+        throw new Error(`Cannot roll back migration ${version}: migration file not found`);
+      }
+
+      logger.info(`Rolling back migration ${migration.version}_${migration.name}`);
+      await client.query('BEGIN');
+      try {
+        await client.query(migration.downSql);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [version]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        logger.error(`Rollback of migration ${migration.version}_${migration.name} failed:`, error);
+        throw error;
+      }
+      reverted.push(migration);
+    }
+
+    return reverted;
+  });
+}
+
+export async function getMigrationStatus(pool: pg.Pool, migrations: Migration[] = loadMigrations()): Promise<MigrationStatus[]> {
+  return withMigrationLock(pool, async client => {
+    const applied = await getAppliedMigrations(client);
+
+    return migrations.map(migration => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        applied: !!record,
+        appliedAt: record?.appliedAt ?? null,
+        checksumMismatch: !!record && record.checksum !== migration.checksum,
+      };
+    });
+  });
+}
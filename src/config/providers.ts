@@ -0,0 +1,25 @@
+import { ethers } from 'ethers';
+
+// Shared read-only providers for code paths that don't own one (controllers, utils)
+let l1Provider: ethers.JsonRpcProvider | undefined;
+let l2Provider: ethers.JsonRpcProvider | undefined;
+
+export function getL1Provider(): ethers.JsonRpcProvider {
+  if (!l1Provider) {
+    if (!process.env.L1_RPC_URL) {
+      throw new Error('L1_RPC_URL not configured');
+    }
+    l1Provider = new ethers.JsonRpcProvider(process.env.L1_RPC_URL);
+  }
+  return l1Provider;
+}
+
+export function getL2Provider(): ethers.JsonRpcProvider {
+  if (!l2Provider) {
+    if (!process.env.L2_RPC_URL) {
+      throw new Error('L2_RPC_URL not configured');
+    }
+    l2Provider = new ethers.JsonRpcProvider(process.env.L2_RPC_URL);
+  }
+  return l2Provider;
+}
@@ -0,0 +1,60 @@
+import fs from 'fs/promises';
+import { ethers } from 'ethers';
+import { logger } from '@/utils/logger';
+import { RemoteSigner } from '@/services/RemoteSigner';
+
+export type SignerKind = 'keystore' | 'remote' | 'private-key';
+
+const SIGNER_KINDS: SignerKind[] = ['keystore', 'remote', 'private-key'];
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} not configured`);
+  }
+  return value;
+}
+
+// Secrets mounted as files usually end with a newline that is not part of the password
+async function readSecretFile(path: string): Promise<string> {
+  const content = await fs.readFile(path, 'utf8');
+  return content.replace(/\r?\n$/, '');
+}
+
+/**
+ * Loads the signer configured under `prefix` (BRIDGE for L2 releases,
+ * L1_RELEASE for withdrawals). `<prefix>_SIGNER` picks the kind:
+ *
+ * - keystore: encrypted JSON keystore at `<prefix>_KEYSTORE_PATH`, password
+ *   read from `<prefix>_KEYSTORE_PASSWORD_FILE`
+ * - remote: signing service at `<prefix>_REMOTE_SIGNER_URL` holding the key
+ *   for `<prefix>_SIGNER_ADDRESS`; checked to be reachable before returning
+ * - private-key: raw `<prefix>_PRIVATE_KEY`, refused when NODE_ENV=production
+ *
+ * The signer is returned unconnected; callers connect it to their provider.
+ */
+export async function loadSigner(prefix: string): Promise<ethers.Signer> {
+  const kind = (process.env[`${prefix}_SIGNER`] || 'private-key') as SignerKind;
+  if (!SIGNER_KINDS.includes(kind)) {
+    throw new Error(`${prefix}_SIGNER must be one of ${SIGNER_KINDS.join(', ')}`);
+  }
+
+  let signer: ethers.Signer;
+  if (kind === 'keystore') {
+    const keystore = await fs.readFile(requireEnv(`${prefix}_KEYSTORE_PATH`), 'utf8');
+    const password = await readSecretFile(requireEnv(`${prefix}_KEYSTORE_PASSWORD_FILE`));
+    signer = await ethers.Wallet.fromEncryptedJson(keystore, password);
+  } else if (kind === 'remote') {
+    const remote = new RemoteSigner(requireEnv(`${prefix}_REMOTE_SIGNER_URL`), requireEnv(`${prefix}_SIGNER_ADDRESS`));
+    await remote.assertAvailable();
+    signer = remote;
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error(`${prefix}_SIGNER=private-key is for development only; use keystore or remote in production`);
+    }
+    signer = new ethers.Wallet(requireEnv(`${prefix}_PRIVATE_KEY`));
+  }
+
+  logger.info(`${prefix} signer: ${kind} (${await signer.getAddress()})`);
+  return signer;
+}
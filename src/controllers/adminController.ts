@@ -1,47 +1,352 @@
 import { Request, Response } from 'express';
+import Joi from 'joi';
+import { ethers } from 'ethers';
 import { logger } from '@/utils/logger';
-import { BridgeProcessor } from '@/services/BridgeProcessor';
+import { getServices } from '@/services/registry';
+import { SimpleBridgeDB, getDatabaseSimple } from '@/config/database-simple';
+import { getRedisClient, getBridgeQueue } from '@/config/redis';
+import { getL1Provider, getL2Provider } from '@/config/providers';
+import { toDepositView } from '@/utils/depositView';
+import { formatTokenAmount } from '@/utils/tokens';
+import { transitionDeposit, InvalidTransitionError } from '@/services/DepositStateMachine';
+import { AuthRequest } from '@/middleware/auth';
+import { hashPassword, revokeUserSessions, toAdminUserView } from '@/services/AdminAuth';
+import { adminActor, auditAdminAction } from '@/services/AuditLog';
+import { toTokenView } from '@/services/TokenRegistry';
+import { getOutflowUsage, getReleasePause } from '@/services/OutflowLimiter';
+import { getReleaseApprovalStatus, recordReleaseApproval, ReleaseApprovalError } from '@/services/ReleaseApprovals';
+import { pauseReleases, resumeReleases } from '@/services/ReleaseChecks';
+import { BridgeConfigError, restoreBridgeConfig, updateBridgeConfig } from '@/config/bridgeConfig';
+import { ADMIN_ROLES, AdminUserRecord } from '@/types/auth';
+import { BridgeChain, BridgeConfigVersionRecord, BridgeStatus, BridgeTokenRecord } from '@/types/bridge';
+
+const dashboardQuerySchema = Joi.object({
+  windows: Joi.string().max(100).default(() => process.env.DASHBOARD_WINDOWS || '24h,7d,30d'),
+  recent: Joi.number().integer().min(1).max(100).default(10),
+});
+
+const gasCostQuerySchema = Joi.object({
+  days: Joi.number().integer().min(1).max(365).default(30),
+});
+
+const depositActionSchema = Joi.object({
+  direction: Joi.string().valid('deposit', 'withdrawal').default('deposit'),
+  reason: Joi.string().trim().max(500),
+});
+
+const createUserSchema = Joi.object({
+  username: Joi.string().trim().pattern(/^[a-zA-Z0-9_.-]{3,64}$/).required(),
+  password: Joi.string().min(12).max(200),
+  walletAddress: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/),
+  role: Joi.string().valid(...ADMIN_ROLES).required(),
+}).or('password', 'walletAddress');
+
+const updateUserSchema = Joi.object({
+  password: Joi.string().min(12).max(200),
+  walletAddress: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/),
+  role: Joi.string().valid(...ADMIN_ROLES),
+  disabled: Joi.boolean(),
+}).min(1);
+
+const cleanQueueSchema = Joi.object({
+  status: Joi.string().valid('completed', 'failed').default('completed'),
+  graceMs: Joi.number().integer().min(0).default(60 * 60 * 1000),
+});
+
+const auditLogQuerySchema = Joi.object({
+  actor: Joi.string().max(255),
+  action: Joi.string().max(100),
+  target: Joi.string().max(255),
+  from: Joi.date().iso(),
+  to: Joi.date().iso(),
+  before: Joi.string().pattern(/^\d+$/),
+  limit: Joi.number().integer().min(1).max(500).default(100),
+});
+
+// The config body itself is checked by validateBridgeConfig
+const updateConfigSchema = Joi.object({
+  config: Joi.object().required(),
+  expectedVersion: Joi.number().integer().min(0).required(),
+  reason: Joi.string().trim().max(500),
+});
+
+const restoreConfigSchema = Joi.object({
+  expectedVersion: Joi.number().integer().min(0).required(),
+  reason: Joi.string().trim().max(500),
+});
+
+const configHistoryQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+const tokenAmount = Joi.string().pattern(/^\d+$/).max(78);
+// Decimal value of one whole token, e.g. "1.0003"
+const referencePrice = Joi.string().pattern(/^\d{1,20}(\.\d{1,18})?$/);
+
+const createTokenSchema = Joi.object({
+  l1Address: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/).required(),
+  l2Address: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/),
+  symbol: Joi.string().trim().max(32).required(),
+  name: Joi.string().trim().max(100).required(),
+  decimals: Joi.number().integer().min(0).max(36).required(),
+  minAmount: tokenAmount.required(),
+  maxAmount: tokenAmount.required(),
+  isNative: Joi.boolean().default(false),
+  enabled: Joi.boolean().default(true),
+  paused: Joi.boolean().default(false),
+  approvalThreshold: tokenAmount.allow(null).default(null),
+  outflowLimit: tokenAmount.allow(null).default(null),
+  referencePrice: referencePrice.allow(null).default(null),
+});
+
+const updateTokenSchema = Joi.object({
+  l2Address: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/),
+  symbol: Joi.string().trim().max(32),
+  name: Joi.string().trim().max(100),
+  decimals: Joi.number().integer().min(0).max(36),
+  minAmount: tokenAmount,
+  maxAmount: tokenAmount,
+  enabled: Joi.boolean(),
+  paused: Joi.boolean(),
+  approvalThreshold: tokenAmount.allow(null),
+  outflowLimit: tokenAmount.allow(null),
+  referencePrice: referencePrice.allow(null),
+}).min(1);
+
+const pauseReleasesSchema = Joi.object({
+  reason: Joi.string().trim().max(500).required(),
+});
+
+const resumeReleasesSchema = Joi.object({
+  reason: Joi.string().trim().max(500),
+});
+
+const approveDepositSchema = Joi.object({
+  direction: Joi.string().valid('deposit', 'withdrawal').default('deposit'),
+  signature: Joi.string().pattern(/^0x[0-9a-fA-F]{130}$/).required(),
+  deadline: Joi.number().integer().positive().required(),
+});
+
+function toConfigVersionView(record: BridgeConfigVersionRecord) {
+  return {
+    version: record.version,
+    createdBy: record.created_by,
+    createdAt: record.created_at,
+    reason: record.reason,
+    restoredFrom: record.restored_from,
+    config: record.config,
+  };
+}
+
+// What the audit log records about a user; never the password hash
+function auditedUser(user: AdminUserRecord): Record<string, unknown> {
+  return {
+    username: user.username,
+    role: user.role,
+    walletAddress: user.wallet_address,
+    disabled: user.disabled,
+  };
+}
+
+// What the audit log records about a registry token
+function auditedToken(token: BridgeTokenRecord): Record<string, unknown> {
+  const { createdAt: _createdAt, updatedAt: _updatedAt, ...fields } = toTokenView(token);
+  return fields;
+}
+
+interface DashboardWindow {
+  label: string;
+  hours: number;
+}
+
+// Parses "1h,24h,7d" into windows; returns null if any entry is malformed
+function parseWindows(value: string): DashboardWindow[] | null {
+  const windows: DashboardWindow[] = [];
+  for (const label of value.split(',').map(part => part.trim())) {
+    const match = /^(\d+)([hd])$/.exec(label);
+    if (!match || Number(match[1]) === 0) {
+      return null;
+    }
+    windows.push({ label, hours: Number(match[1]) * (match[2] === 'd' ? 24 : 1) });
+  }
+  return windows;
+}
+
+async function checkHealth(check: () => Promise<void>): Promise<{ status: 'healthy' | 'unhealthy'; latencyMs: number; error?: string }> {
+  const timeoutMs = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '3000');
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      check(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+      }),
+    ]);
+    return { status: 'healthy', latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'unhealthy',
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
 export class AdminController {
-  // Dashboard overview data
+  // Dashboard overview: windowed transfer stats, recent transfers, live service health and queue state
   static async getDashboard(req: Request, res: Response) {
     try {
-      // Mock data for now - will be replaced with real data from database
+      const { error, value: query } = dashboardQuerySchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      const windows = parseWindows(query.windows);
+      if (!windows) {
+        return res.status(400).json({
+          success: false,
+          error: 'windows must be a comma separated list like 1h,24h,7d',
+        });
+      }
+
+      const { bridgeProcessor, eventListener, withdrawalListener } = getServices();
+
+      const [stats, recentRows, systemHealth, queueStats, listener, signer, releases] = await Promise.all([
+        Promise.all(windows.map(window => AdminController.getWindowStats(window))),
+        SimpleBridgeDB.getRecentTransfers(query.recent),
+        AdminController.getSystemHealth(),
+        bridgeProcessor ? bridgeProcessor.getQueueStats() : null,
+        AdminController.getListenerLag(),
+        bridgeProcessor ? bridgeProcessor.getSignerStatus().catch(error => ({ error: error.message })) : null,
+        AdminController.getReleaseState(),
+      ]);
+
       const dashboardData = {
-        stats: {
-          totalDeposits: 0,
-          totalWithdrawals: 0,
-          totalVolume: '0',
-          successRate: 100,
-        },
-        recentTransactions: [],
-        systemHealth: {
-          database: 'healthy',
-          redis: 'healthy',
-          l1Connection: 'healthy',
-          l2Connection: 'healthy',
-        },
-        queueStats: {
-          waiting: 0,
-          active: 0,
-          completed: 0,
-          failed: 0,
+        stats,
+        recentTransactions: await Promise.all(recentRows.map(toDepositView)),
+        systemHealth,
+        queueStats,
+        listeners: {
+          l1: { ...eventListener?.getStatus(), ...listener },
+          l2: withdrawalListener?.getStatus() ?? null,
         },
+        l2Signer: signer,
+        releases,
       };
 
-      res.json({
+      return res.json({
         success: true,
         data: dashboardData,
+        timestamp: new Date().toISOString(),
       });
     } catch (error) {
       logger.error('Error fetching dashboard data:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to fetch dashboard data',
       });
     }
   }
 
+  // Whether releases are paused and how much of each outflow limit the current window has used
+  private static async getReleaseState() {
+    const [pause, tokens] = await Promise.all([getReleasePause(), SimpleBridgeDB.listBridgeTokens()]);
+    return {
+      paused: pause !== null,
+      pause,
+      outflow: await getOutflowUsage(tokens),
+    };
+  }
+
+  private static async getWindowStats(window: DashboardWindow) {
+    const since = new Date(Date.now() - window.hours * 60 * 60 * 1000);
+    const rows = await SimpleBridgeDB.getTransferSummarySince(since);
+
+    const volume: Record<string, string> = {};
+    const completedVolume = new Map<string, bigint>();
+    let totalDeposits = 0;
+    let totalWithdrawals = 0;
+    let completed = 0;
+    let failed = 0;
+
+    for (const row of rows) {
+      if (row.status === BridgeStatus.REORGED) {
+        continue;
+      }
+
+      const count = Number(row.transfer_count);
+      if (row.source_chain === 'L2') {
+        totalWithdrawals += count;
+      } else {
+        totalDeposits += count;
+      }
+
+      if (row.status === BridgeStatus.COMPLETED) {
+        completed += count;
+        completedVolume.set(row.token_address, (completedVolume.get(row.token_address) ?? 0n) + BigInt(row.volume));
+      } else if (row.status === BridgeStatus.FAILED) {
+        failed += count;
+      }
+    }
+
+    for (const [token, amount] of completedVolume) {
+      volume[token] = (await formatTokenAmount(amount.toString(), token)).formatted;
+    }
+
+    return {
+      window: window.label,
+      since: since.toISOString(),
+      totalDeposits,
+      totalWithdrawals,
+      totalVolume: volume,
+      successRate: completed + failed > 0 ? Math.round((completed / (completed + failed)) * 10000) / 100 : null,
+    };
+  }
+
+  private static async getSystemHealth() {
+    const { eventListener, withdrawalListener } = getServices();
+
+    const [database, redis, l1Connection, l2Connection] = await Promise.all([
+      checkHealth(async () => { await getDatabaseSimple().query('SELECT 1'); }),
+      checkHealth(async () => { await getRedisClient().ping(); }),
+      checkHealth(async () => { await getL1Provider().getBlockNumber(); }),
+      checkHealth(async () => { await getL2Provider().getBlockNumber(); }),
+    ]);
+
+    return {
+      database,
+      redis,
+      l1Connection,
+      l2Connection,
+      l1Listener: { status: eventListener?.getStatus().isListening ? 'healthy' : 'unhealthy' },
+      l2Listener: withdrawalListener
+        ? { status: withdrawalListener.getStatus().isListening ? 'healthy' : 'unhealthy' }
+        : { status: 'disabled' },
+    };
+  }
+
+  // How far the L1 listener's checkpoint trails the chain head
+  private static async getListenerLag(): Promise<{ headBlock: number | null; lagBlocks: number | null }> {
+    const { eventListener } = getServices();
+    try {
+      const headBlock = await getL1Provider().getBlockNumber();
+      const checkpoint = eventListener?.getStatus().lastProcessedBlock;
+      return {
+        headBlock,
+        lagBlocks: checkpoint === undefined ? null : Math.max(0, headBlock - checkpoint),
+      };
+    } catch (error) {
+      logger.warn('Could not compute L1 listener lag:', error);
+      return { headBlock: null, lagBlocks: null };
+    }
+  }
+
   // Get all deposits with pagination
   static async getDeposits(req: Request, res: Response) {
     try {
@@ -74,111 +379,374 @@ export class AdminController {
   }
 
   // Retry failed deposit
-  static async retryDeposit(req: Request, res: Response) {
+  static async retryDeposit(req: AuthRequest, res: Response) {
     try {
-      const { depositId } = req.params;
+      const { value, error } = depositActionSchema.validate({ ...req.query, ...req.body });
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
 
-      // TODO: Implement retry logic
-      logger.info(`Retrying deposit ${depositId}`);
+      const sourceChain: BridgeChain = value.direction === 'withdrawal' ? 'L2' : 'L1';
+      const { bridgeProcessor, withdrawalProcessor } = getServices();
+      const processor = sourceChain === 'L1' ? bridgeProcessor : withdrawalProcessor;
+      if (!processor) {
+        return res.status(503).json({
+          success: false,
+          error: `${value.direction === 'withdrawal' ? 'Withdrawal' : 'Bridge'} processor not running`,
+        });
+      }
 
-      res.json({
+      const deposit = await SimpleBridgeDB.getDepositById(req.params.depositId!, sourceChain);
+      if (!deposit) {
+        return res.status(404).json({ success: false, error: 'Deposit not found' });
+      }
+
+      const actor = adminActor(req);
+      const moved = await processor.retryFailed(deposit, actor, value.reason);
+      if (!moved) {
+        return res.status(409).json({ success: false, error: 'Deposit status changed, reload and try again' });
+      }
+
+      logger.info(`Deposit ${deposit.deposit_id} re-queued by ${actor}`);
+      await auditAdminAction(
+        req,
+        'deposit.retry',
+        `${sourceChain}:${deposit.deposit_id}`,
+        { status: deposit.status },
+        { status: BridgeStatus.PROCESSING, reason: value.reason ?? null }
+      );
+
+      return res.json({
         success: true,
         message: 'Deposit retry initiated',
       });
     } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       logger.error('Error retrying deposit:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to retry deposit',
       });
     }
   }
 
-  // Cancel pending deposit
-  static async cancelDeposit(req: Request, res: Response) {
+  // Cancel a deposit that has not been submitted to the target chain yet
+  static async cancelDeposit(req: AuthRequest, res: Response) {
     try {
-      const { depositId } = req.params;
+      const { value, error } = depositActionSchema.validate({ ...req.query, ...req.body });
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
 
-      // TODO: Implement cancel logic
-      logger.info(`Cancelling deposit ${depositId}`);
+      const sourceChain: BridgeChain = value.direction === 'withdrawal' ? 'L2' : 'L1';
+      const deposit = await SimpleBridgeDB.getDepositById(req.params.depositId!, sourceChain);
+      if (!deposit) {
+        return res.status(404).json({ success: false, error: 'Deposit not found' });
+      }
 
-      res.json({
+      const actor = adminActor(req);
+      const cancelled = await transitionDeposit(deposit, BridgeStatus.CANCELLED, {
+        actor,
+        reason: value.reason ?? 'Cancelled by operator',
+      });
+      if (!cancelled) {
+        return res.status(409).json({ success: false, error: 'Deposit status changed, reload and try again' });
+      }
+
+      logger.info(`Deposit ${deposit.deposit_id} cancelled by ${actor}`);
+      await auditAdminAction(
+        req,
+        'deposit.cancel',
+        `${sourceChain}:${deposit.deposit_id}`,
+        { status: deposit.status },
+        { status: BridgeStatus.CANCELLED, reason: value.reason ?? null }
+      );
+
+      return res.json({
         success: true,
         message: 'Deposit cancelled',
       });
     } catch (error) {
+      if (error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       logger.error('Error cancelling deposit:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to cancel deposit',
       });
     }
   }
 
+  // A deposit with the operator approvals of its release
+  static async getDeposit(req: Request, res: Response) {
+    try {
+      const { value, error } = depositActionSchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const sourceChain: BridgeChain = value.direction === 'withdrawal' ? 'L2' : 'L1';
+      const deposit = await SimpleBridgeDB.getDepositById(req.params.depositId!, sourceChain);
+      if (!deposit) {
+        return res.status(404).json({ success: false, error: 'Deposit not found' });
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          ...(await toDepositView(deposit)),
+          approvals: await getReleaseApprovalStatus(deposit),
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching deposit:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch deposit',
+      });
+    }
+  }
+
+  /**
+   * Records the caller's EIP-712 approval of an AWAITING_APPROVAL deposit's or
+   * withdrawal's release. The approval that completes the quorum re-queues it.
+   */
+  static async approveDeposit(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = approveDepositSchema.validate({ ...req.query, ...req.body });
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const sourceChain: BridgeChain = value.direction === 'withdrawal' ? 'L2' : 'L1';
+      const deposit = await SimpleBridgeDB.getDepositById(req.params.depositId!, sourceChain);
+      if (!deposit) {
+        return res.status(404).json({ success: false, error: 'Deposit not found' });
+      }
+      if (deposit.status !== BridgeStatus.AWAITING_APPROVAL) {
+        return res.status(409).json({ success: false, error: `Deposit is ${deposit.status}, not awaiting approval` });
+      }
+
+      const operator = await SimpleBridgeDB.getAdminUserById(req.user!.id);
+      if (!operator) {
+        return res.status(403).json({ success: false, error: 'Operator account not found' });
+      }
+
+      const approval = await recordReleaseApproval(deposit, operator, value.signature, value.deadline);
+      const actor = adminActor(req);
+      logger.info(`Deposit ${deposit.deposit_id} approved by ${actor} (${approval.approved}/${approval.required})`);
+      await auditAdminAction(
+        req,
+        'deposit.approve',
+        `${sourceChain}:${deposit.deposit_id}`,
+        null,
+        { deadline: new Date(value.deadline * 1000).toISOString(), approved: approval.approved, required: approval.required }
+      );
+
+      let released = false;
+      if (approval.approved >= approval.required) {
+        const { bridgeProcessor, withdrawalProcessor } = getServices();
+        const processor = sourceChain === 'L1' ? bridgeProcessor : withdrawalProcessor;
+        if (processor) {
+          released = await processor.retryFailed(
+            deposit,
+            actor,
+            `Approved by ${approval.approved} of ${approval.required} required operators`
+          );
+        } else {
+          logger.warn(`Deposit ${deposit.deposit_id} has its approvals but its processor is not running`);
+        }
+      }
+
+      return res.json({
+        success: true,
+        data: { ...approval, released },
+        message: released ? 'Approval recorded, deposit queued for release' : 'Approval recorded',
+      });
+    } catch (error) {
+      if (error instanceof ReleaseApprovalError || error instanceof InvalidTransitionError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      logger.error('Error approving deposit:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to approve deposit',
+      });
+    }
+  }
+
+  // Status transition history of a deposit
+  static async getDepositEvents(req: Request, res: Response) {
+    try {
+      const { value, error } = depositActionSchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const sourceChain: BridgeChain = value.direction === 'withdrawal' ? 'L2' : 'L1';
+      const deposit = await SimpleBridgeDB.getDepositById(req.params.depositId!, sourceChain);
+      if (!deposit) {
+        return res.status(404).json({ success: false, error: 'Deposit not found' });
+      }
+
+      const events = await SimpleBridgeDB.getDepositEvents(deposit.deposit_id, sourceChain);
+
+      return res.json({
+        success: true,
+        data: {
+          depositId: deposit.deposit_id,
+          status: deposit.status,
+          events: events.map(event => ({
+            from: event.from_status,
+            to: event.to_status,
+            actor: event.actor,
+            reason: event.reason,
+            at: event.created_at,
+          })),
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching deposit events:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch deposit events',
+      });
+    }
+  }
+
+  // Stop all releases, e.g. while investigating suspicious outflow; deposits keep being ingested and queued
+  static async pauseReleases(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = pauseReleasesSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const { pause, created } = await pauseReleases(value.reason, adminActor(req));
+      if (created) {
+        await auditAdminAction(req, 'releases.pause', 'releases', { paused: false }, { paused: true, reason: value.reason });
+      }
+
+      return res.json({
+        success: true,
+        data: pause,
+        message: created ? 'Releases paused' : 'Releases were already paused',
+      });
+    } catch (error) {
+      logger.error('Error pausing releases:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to pause releases',
+      });
+    }
+  }
+
+  // Resume releases after a manual pause or a tripped outflow limit
+  static async resumeReleases(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = resumeReleasesSchema.validate(req.body ?? {});
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const pause = await resumeReleases();
+      if (!pause) {
+        return res.status(409).json({ success: false, error: 'Releases are not paused' });
+      }
+
+      logger.info(`Releases resumed by ${adminActor(req)} after pause by ${pause.pausedBy}: ${pause.reason}`);
+      await auditAdminAction(
+        req,
+        'releases.resume',
+        'releases',
+        { paused: true, reason: pause.reason, pausedBy: pause.pausedBy },
+        { paused: false, reason: value.reason ?? null }
+      );
+
+      return res.json({
+        success: true,
+        message: 'Releases resumed',
+      });
+    } catch (error) {
+      logger.error('Error resuming releases:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to resume releases',
+      });
+    }
+  }
+
   // Get queue statistics
   static async getQueueStats(req: Request, res: Response) {
     try {
-      // Mock queue stats
-      const queueStats = {
-        waiting: 0,
-        active: 0,
-        completed: 0,
-        failed: 0,
-        delayed: 0,
-      };
+      const { bridgeProcessor } = getServices();
+      if (!bridgeProcessor) {
+        return res.status(503).json({
+          success: false,
+          error: 'Bridge processor not running',
+        });
+      }
 
-      res.json({
+      return res.json({
         success: true,
-        data: queueStats,
+        data: await bridgeProcessor.getQueueStats(),
       });
     } catch (error) {
       logger.error('Error fetching queue stats:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to fetch queue statistics',
       });
     }
   }
 
-  // Clean completed jobs from queue
-  static async cleanQueue(req: Request, res: Response) {
+  // Clean completed or failed jobs from queue
+  static async cleanQueue(req: AuthRequest, res: Response) {
     try {
-      // TODO: Implement queue cleaning logic
-      logger.info('Cleaning completed jobs from queue');
+      const { value, error } = cleanQueueSchema.validate(req.body ?? {});
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
 
-      res.json({
+      const queue = getBridgeQueue();
+      const before = await queue.getJobCounts();
+      const removed = await queue.clean(value.graceMs, value.status);
+      const after = await queue.getJobCounts();
+
+      logger.info(`Removed ${removed.length} ${value.status} jobs older than ${value.graceMs}ms from queue`);
+      await auditAdminAction(req, 'queue.clean', `queue:${queue.name}`, { ...before }, { ...after });
+
+      return res.json({
         success: true,
         message: 'Queue cleaned successfully',
+        data: { removed: removed.length, counts: after },
       });
     } catch (error) {
       logger.error('Error cleaning queue:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to clean queue',
       });
     }
   }
 
-  // Get system configuration
+  // Get the active bridge configuration version
   static async getConfig(req: Request, res: Response) {
     try {
-      const config = {
-        bridgeSettings: {
-          minBridgeAmount: process.env.MIN_BRIDGE_AMOUNT || '0.001',
-          maxBridgeAmount: process.env.MAX_BRIDGE_AMOUNT || '1000',
-          confirmationBlocks: parseInt(process.env.CONFIRMATION_BLOCKS || '12'),
-        },
-        networkSettings: {
-          l1Network: 'Sepolia',
-          l2Network: 'GoodNet Testnet',
-          l1RpcUrl: process.env.L1_RPC_URL ? 'Connected' : 'Not configured',
-          l2RpcUrl: process.env.L2_RPC_URL ? 'Connected' : 'Not configured',
-        },
-      };
+      const latest = await SimpleBridgeDB.getLatestBridgeConfig();
 
       res.json({
         success: true,
-        data: config,
+        data: {
+          ...(latest ? toConfigVersionView(latest) : { version: 0, config: null }),
+          networkSettings: {
+            l1RpcUrl: process.env.L1_RPC_URL ? 'Connected' : 'Not configured',
+            l2RpcUrl: process.env.L2_RPC_URL ? 'Connected' : 'Not configured',
+          },
+        },
       });
     } catch (error) {
       logger.error('Error fetching config:', error);
@@ -189,26 +757,461 @@ export class AdminController {
     }
   }
 
-  // Update system configuration
-  static async updateConfig(req: Request, res: Response) {
+  // Store a new bridge configuration version and apply it on every instance
+  static async updateConfig(req: AuthRequest, res: Response) {
     try {
-      const { bridgeSettings } = req.body;
+      const { value, error } = updateConfigSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
 
-      // TODO: Implement config update logic
-      logger.info('Updating system configuration:', bridgeSettings);
+      const before = await SimpleBridgeDB.getLatestBridgeConfig();
+      const saved = await updateBridgeConfig(value.config, value.expectedVersion, adminActor(req), value.reason ?? null);
+      logger.info(`Bridge config version ${saved.version} saved by ${req.user?.username}`);
+      await auditAdminAction(
+        req,
+        'config.update',
+        `config:v${saved.version}`,
+        before ? { ...before.config } : null,
+        { ...saved.config }
+      );
 
-      res.json({
+      return res.json({
         success: true,
         message: 'Configuration updated successfully',
+        data: toConfigVersionView(saved),
       });
     } catch (error) {
+      if (error instanceof BridgeConfigError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       logger.error('Error updating config:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to update configuration',
       });
     }
   }
 
+  // List stored bridge configuration versions, newest first
+  static async getConfigHistory(req: Request, res: Response) {
+    try {
+      const { value, error } = configHistoryQuerySchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const versions = await SimpleBridgeDB.listBridgeConfigVersions(value.limit);
+      return res.json({
+        success: true,
+        data: versions.map(toConfigVersionView),
+      });
+    } catch (error) {
+      logger.error('Error fetching config history:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch configuration history',
+      });
+    }
+  }
+
+  // Make an earlier bridge configuration version current again
+  static async restoreConfig(req: AuthRequest, res: Response) {
+    try {
+      const version = Number(req.params.version);
+      if (!Number.isInteger(version) || version < 1) {
+        return res.status(400).json({ success: false, error: 'version must be a positive integer' });
+      }
+
+      const { value, error } = restoreConfigSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const before = await SimpleBridgeDB.getLatestBridgeConfig();
+      const saved = await restoreBridgeConfig(version, value.expectedVersion, adminActor(req), value.reason ?? null);
+      logger.info(`Bridge config version ${version} restored as ${saved.version} by ${req.user?.username}`);
+      await auditAdminAction(
+        req,
+        'config.restore',
+        `config:v${saved.version}`,
+        before ? { ...before.config } : null,
+        { ...saved.config }
+      );
+
+      return res.json({
+        success: true,
+        message: `Configuration version ${version} restored`,
+        data: toConfigVersionView(saved),
+      });
+    } catch (error) {
+      if (error instanceof BridgeConfigError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      logger.error('Error restoring config:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to restore configuration',
+      });
+    }
+  }
+
+  // L2 gas paid for deposit releases per token, reverted attempts included; costs are in L2 wei and ETH
+  static async getGasCosts(req: Request, res: Response) {
+    try {
+      const { error, value: query } = gasCostQuerySchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
+
+      const since = new Date(Date.now() - query.days * 24 * 60 * 60 * 1000);
+      const rows = await SimpleBridgeDB.getGasCostByToken(since);
+
+      const tokens = rows.map(row => {
+        const deposits = Number(row.deposit_count);
+        const costWei = BigInt(row.cost_wei);
+        return {
+          token: row.token_address,
+          deposits,
+          transactions: Number(row.transaction_count),
+          reverted: Number(row.reverted_count),
+          gasUsed: row.gas_used,
+          costWei: costWei.toString(),
+          cost: ethers.formatEther(costWei),
+          averageCostPerDeposit: deposits > 0 ? ethers.formatEther(costWei / BigInt(deposits)) : null,
+        };
+      });
+      const totalWei = rows.reduce((total, row) => total + BigInt(row.cost_wei), 0n);
+
+      return res.json({
+        success: true,
+        data: {
+          since: since.toISOString(),
+          tokens,
+          totalCostWei: totalWei.toString(),
+          totalCost: ethers.formatEther(totalWei),
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching gas costs:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch gas costs',
+      });
+    }
+  }
+
+  // List every token in the registry, including disabled and paused ones
+  static async listTokens(req: Request, res: Response) {
+    try {
+      const tokens = await SimpleBridgeDB.listBridgeTokens();
+      res.json({
+        success: true,
+        data: tokens.map(toTokenView),
+      });
+    } catch (error) {
+      logger.error('Error listing tokens:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to list tokens',
+      });
+    }
+  }
+
+  // Add a token to the registry so its deposits are released automatically
+  static async createToken(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = createTokenSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+      if (BigInt(value.minAmount) > BigInt(value.maxAmount)) {
+        return res.status(400).json({ success: false, error: 'minAmount must not exceed maxAmount' });
+      }
+
+      const token = await SimpleBridgeDB.createBridgeToken({
+        l1Address: value.l1Address,
+        l2Address: value.l2Address ?? null,
+        symbol: value.symbol,
+        name: value.name,
+        decimals: value.decimals,
+        minAmount: value.minAmount,
+        maxAmount: value.maxAmount,
+        isNative: value.isNative,
+        enabled: value.enabled,
+        paused: value.paused,
+        approvalThreshold: value.approvalThreshold,
+        outflowLimit: value.outflowLimit,
+        referencePrice: value.referencePrice,
+      });
+      if (!token) {
+        return res.status(409).json({ success: false, error: 'Token is already listed' });
+      }
+
+      logger.info(`Token ${token.symbol} (${token.l1_address}) listed by ${req.user?.username}`);
+      await auditAdminAction(req, 'token.create', `token:${token.l1_address}`, null, auditedToken(token));
+
+      return res.status(201).json({
+        success: true,
+        data: toTokenView(token),
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({ success: false, error: 'L2 address already belongs to another token' });
+      }
+      logger.error('Error creating token:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create token',
+      });
+    }
+  }
+
+  // Change a token's limits or metadata, or pause/disable it
+  static async updateToken(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = updateTokenSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const existing = await SimpleBridgeDB.getBridgeToken(req.params.address!);
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Token not found' });
+      }
+      if (BigInt(value.minAmount ?? existing.min_amount) > BigInt(value.maxAmount ?? existing.max_amount)) {
+        return res.status(400).json({ success: false, error: 'minAmount must not exceed maxAmount' });
+      }
+
+      const token = await SimpleBridgeDB.updateBridgeToken(existing.l1_address, value);
+      if (!token) {
+        return res.status(404).json({ success: false, error: 'Token not found' });
+      }
+
+      logger.info(`Token ${token.symbol} (${token.l1_address}) updated by ${req.user?.username}`);
+      await auditAdminAction(req, 'token.update', `token:${token.l1_address}`, auditedToken(existing), auditedToken(token));
+
+      return res.json({
+        success: true,
+        data: toTokenView(token),
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({ success: false, error: 'L2 address already belongs to another token' });
+      }
+      logger.error('Error updating token:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update token',
+      });
+    }
+  }
+
+  // Remove a token; later deposits of it are held for review
+  static async deleteToken(req: AuthRequest, res: Response) {
+    try {
+      const token = await SimpleBridgeDB.deleteBridgeToken(req.params.address!);
+      if (!token) {
+        return res.status(404).json({ success: false, error: 'Token not found' });
+      }
+
+      logger.info(`Token ${token.symbol} (${token.l1_address}) delisted by ${req.user?.username}`);
+      await auditAdminAction(req, 'token.delete', `token:${token.l1_address}`, auditedToken(token), null);
+
+      return res.json({
+        success: true,
+        message: 'Token removed from registry',
+      });
+    } catch (error) {
+      logger.error('Error deleting token:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to delete token',
+      });
+    }
+  }
+
+  // Query the audit log, newest first
+  static async getAuditLog(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = auditLogQuerySchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const entries = await SimpleBridgeDB.getAuditEntries({
+        ...(value.actor && { actor: value.actor }),
+        ...(value.action && { action: value.action }),
+        ...(value.target && { target: value.target }),
+        ...(value.from && { fromDate: value.from }),
+        ...(value.to && { toDate: value.to }),
+        ...(value.before && { beforeId: value.before }),
+        limit: value.limit,
+      });
+
+      return res.json({
+        success: true,
+        data: entries.map(entry => ({
+          id: String(entry.id),
+          actor: entry.actor,
+          action: entry.action,
+          target: entry.target,
+          diff: entry.diff,
+          ip: entry.ip,
+          requestId: entry.request_id,
+          createdAt: entry.created_at,
+          prevHash: entry.prev_hash,
+          hash: entry.hash,
+        })),
+        pagination: {
+          limit: value.limit,
+          nextCursor: entries.length === value.limit ? String(entries[entries.length - 1]!.id) : null,
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching audit log:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch audit log',
+      });
+    }
+  }
+
+  // List admin users
+  static async listUsers(req: AuthRequest, res: Response) {
+    try {
+      const users = await SimpleBridgeDB.listAdminUsers();
+      return res.json({
+        success: true,
+        data: users.map(toAdminUserView),
+      });
+    } catch (error) {
+      logger.error('Error listing admin users:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list users',
+      });
+    }
+  }
+
+  // Create an admin user
+  static async createUser(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = createUserSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
 
+      const user = await SimpleBridgeDB.createAdminUser({
+        username: value.username,
+        passwordHash: value.password ? await hashPassword(value.password) : null,
+        walletAddress: value.walletAddress ? ethers.getAddress(value.walletAddress) : null,
+        role: value.role,
+      });
+      logger.info(`Admin user ${user.username} (${user.role}) created by ${req.user?.username}`);
+      await auditAdminAction(req, 'user.create', `user:${user.id}`, null, auditedUser(user));
+
+      return res.status(201).json({
+        success: true,
+        data: toAdminUserView(user),
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({ success: false, error: 'Username or wallet address already in use' });
+      }
+      logger.error('Error creating admin user:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to create user',
+      });
+    }
+  }
+
+  // Change a user's role, password or disabled flag; their existing sessions are revoked
+  static async updateUser(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = updateUserSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const userId = req.params.userId!;
+      const isSelf = userId === req.user?.id;
+      if (isSelf && ((value.role && value.role !== 'admin') || value.disabled === true)) {
+        return res.status(400).json({ success: false, error: 'Admins cannot demote or disable themselves' });
+      }
+
+      const existing = await SimpleBridgeDB.getAdminUserById(userId);
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      const user = await SimpleBridgeDB.updateAdminUser(userId, {
+        ...(value.role !== undefined && { role: value.role }),
+        ...(value.disabled !== undefined && { disabled: value.disabled }),
+        ...(value.password !== undefined && { passwordHash: await hashPassword(value.password) }),
+        ...(value.walletAddress !== undefined && { walletAddress: ethers.getAddress(value.walletAddress) }),
+      });
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      await revokeUserSessions(userId);
+      logger.info(`Admin user ${user.username} updated by ${req.user?.username}`, {
+        role: value.role,
+        disabled: value.disabled,
+        walletAddress: value.walletAddress,
+        passwordChanged: value.password !== undefined,
+      });
+      await auditAdminAction(
+        req,
+        'user.update',
+        `user:${user.id}`,
+        auditedUser(existing),
+        { ...auditedUser(user), ...(value.password !== undefined && { password: 'changed' }) }
+      );
+
+      return res.json({
+        success: true,
+        data: toAdminUserView(user),
+      });
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        return res.status(409).json({ success: false, error: 'Wallet address already in use' });
+      }
+      logger.error('Error updating admin user:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update user',
+      });
+    }
+  }
+
+  // Log a user out everywhere
+  static async revokeUserSessions(req: AuthRequest, res: Response) {
+    try {
+      const user = await SimpleBridgeDB.getAdminUserById(req.params.userId!);
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      await revokeUserSessions(String(user.id));
+      logger.info(`Sessions of ${user.username} revoked by ${req.user?.username}`);
+      await auditAdminAction(req, 'user.revoke_sessions', `user:${user.id}`, null, null);
+
+      return res.json({
+        success: true,
+        message: 'Sessions revoked',
+      });
+    } catch (error) {
+      logger.error('Error revoking user sessions:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to revoke sessions',
+      });
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { Response } from 'express';
+import Joi from 'joi';
+import { logger } from '@/utils/logger';
+import { AuthRequest } from '@/middleware/auth';
+import { AuthError, login, refreshSession, revokeSession } from '@/services/AdminAuth';
+import { issueSiweNonce, loginWithEthereum } from '@/services/SiweAuth';
+
+const loginSchema = Joi.object({
+  username: Joi.string().trim().min(3).max(64).required(),
+  password: Joi.string().max(200).required(),
+});
+
+const siweVerifySchema = Joi.object({
+  message: Joi.string().max(4000).required(),
+  signature: Joi.string().pattern(/^0x[0-9a-fA-F]+$/).max(300).required(),
+});
+
+const refreshSchema = Joi.object({
+  refreshToken: Joi.string().max(200).required(),
+});
+
+export class AuthController {
+  // Exchange username and password for an access and refresh token
+  static async login(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = loginSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const { user, tokens } = await login(value.username, value.password, req.ip ?? null);
+
+      return res.json({
+        success: true,
+        data: {
+          ...tokens,
+          user: { id: String(user.id), username: user.username, role: user.role },
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      logger.error('Error logging in:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to log in',
+      });
+    }
+  }
+
+  // Nonce to embed in a Sign-In with Ethereum message
+  static async siweNonce(req: AuthRequest, res: Response) {
+    try {
+      return res.json({
+        success: true,
+        data: await issueSiweNonce(),
+      });
+    } catch (error) {
+      logger.error('Error issuing SIWE nonce:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to issue nonce',
+      });
+    }
+  }
+
+  // Exchange a signed SIWE message from an allowlisted wallet for the same tokens as login
+  static async siweVerify(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = siweVerifySchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      const { user, tokens } = await loginWithEthereum(value.message, value.signature, req.ip ?? null);
+
+      return res.json({
+        success: true,
+        data: {
+          ...tokens,
+          user: { id: String(user.id), username: user.username, role: user.role, walletAddress: user.wallet_address },
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      logger.error('Error verifying SIWE message:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to verify sign-in',
+      });
+    }
+  }
+
+  // Rotate a refresh token into a new token pair
+  static async refresh(req: AuthRequest, res: Response) {
+    try {
+      const { value, error } = refreshSchema.validate(req.body);
+      if (error) {
+        return res.status(400).json({ success: false, error: error.details[0]?.message });
+      }
+
+      return res.json({
+        success: true,
+        data: await refreshSession(value.refreshToken, req.ip ?? null),
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      logger.error('Error refreshing token:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to refresh token',
+      });
+    }
+  }
+
+  // Revoke the caller's session, including its refresh token
+  static async logout(req: AuthRequest, res: Response) {
+    try {
+      await revokeSession(req.user!.sessionId);
+      logger.info(`Admin ${req.user!.username} logged out`);
+
+      return res.json({
+        success: true,
+        message: 'Logged out',
+      });
+    } catch (error) {
+      logger.error('Error logging out:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to log out',
+      });
+    }
+  }
+
+  static async me(req: AuthRequest, res: Response) {
+    return res.json({
+      success: true,
+      data: req.user,
+    });
+  }
+}
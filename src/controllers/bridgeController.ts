@@ -1,9 +1,31 @@
 import { Request, Response } from 'express';
 import { getDatabaseSimple } from '@/config/database-simple';
 import { logger } from '@/utils/logger';
-import { ApiResponse, PaginatedResponse, BridgeStats } from '@/types/bridge';
+import { ApiResponse, PaginatedResponse, BridgeStats, BridgeStatus, DepositHistoryFilters, DepositView, UnindexedDeposit } from '@/types/bridge';
 import { AppError } from '@/middleware/errorHandler';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { toDepositView, toDepositLifecycle, encodeCursor, decodeCursor, findUnindexedDeposit } from '@/utils/depositView';
+import { getL1Provider, getL2Provider } from '@/config/providers';
+import { getBridgeConfig, requiredDepositConfirmations } from '@/config/bridgeConfig';
+import { toTokenView } from '@/services/TokenRegistry';
+import { buildBridgeStats } from '@/utils/bridgeStats';
 import { ethers } from 'ethers';
+import Joi from 'joi';
+
+const depositHistoryQuerySchema = Joi.object({
+  status: Joi.string().valid(...Object.values(BridgeStatus)),
+  token: Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/),
+  direction: Joi.string().valid('deposit', 'withdrawal'),
+  from: Joi.date().iso(),
+  to: Joi.date().iso().min(Joi.ref('from')),
+  cursor: Joi.string().max(200),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+const bridgeStatsQuerySchema = Joi.object({
+  days: Joi.number().integer().min(1).max(365).default(30),
+  direction: Joi.string().valid('deposit', 'withdrawal').default('deposit'),
+});
 
 export class BridgeController {
   // Process new deposit from L1
@@ -57,178 +79,311 @@ export class BridgeController {
   static async getDeposits(req: Request, res: Response) {
     try {
       const { address } = req.params;
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 20;
+      if (!address || !ethers.isAddress(address)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid address',
+        });
+      }
 
-      // TODO: Implement database query
-      logger.info('Fetching deposits for address:', address);
+      const { error: validationError, value: query } = depositHistoryQuerySchema.validate(req.query);
+      if (validationError) {
+        return res.status(400).json({
+          success: false,
+          error: validationError.message,
+        });
+      }
 
-      const deposits = {
-        data: [],
-        pagination: { page, limit, total: 0, totalPages: 0 },
+      const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+      if (query.cursor && !cursor) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid cursor',
+        });
+      }
+
+      const filters: DepositHistoryFilters = {
+        userAddress: address,
+        limit: query.limit,
+        ...(query.status && { status: query.status }),
+        ...(query.token && { tokenAddress: query.token }),
+        ...(query.direction && { sourceChain: query.direction === 'withdrawal' ? 'L2' : 'L1' }),
+        ...(query.from && { fromDate: query.from }),
+        ...(query.to && { toDate: query.to }),
+        ...(cursor && { cursor }),
       };
 
-      res.json({
+      const { rows, total, position } = await SimpleBridgeDB.getUserDeposits(filters);
+      const data = await Promise.all(rows.map(toDepositView));
+
+      const lastRow = rows[rows.length - 1];
+      const hasNext = !!lastRow && position + rows.length < total;
+
+      const response: PaginatedResponse<DepositView> = {
         success: true,
-        data: deposits,
-      });
+        data,
+        pagination: {
+          page: Math.floor(position / query.limit) + 1,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+          hasNext,
+          hasPrev: position > 0,
+          nextCursor: hasNext ? encodeCursor(lastRow) : null,
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      return res.json(response);
     } catch (error) {
       logger.error('Error fetching deposits:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to fetch deposits',
       });
     }
   }
 
-  // Get deposit status by transaction hash
+  // Get deposit lifecycle by L1 transaction hash, falling back to the chain for not yet indexed deposits
   static async getDepositStatus(req: Request, res: Response) {
     try {
       const { txHash } = req.params;
 
-      // TODO: Implement status check
-      logger.info('Checking deposit status:', txHash);
+      if (!txHash || !/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid transaction hash',
+        });
+      }
+
+      const deposit = await SimpleBridgeDB.getDepositByTxHash(txHash);
+      const provider = getL1Provider();
+      const currentBlock = await provider.getBlockNumber();
 
-      res.json({
+      if (deposit) {
+        return res.json({
+          success: true,
+          data: await toDepositLifecycle(deposit, currentBlock),
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const receipt = await provider.getTransactionReceipt(txHash);
+      const unindexed = receipt ? findUnindexedDeposit(receipt, currentBlock) : null;
+      if (!unindexed) {
+        return res.status(404).json({
+          success: false,
+          error: 'Deposit not found',
+        });
+      }
+
+      return res.json({
         success: true,
-        data: {
-          txHash,
-          status: 'pending',
-          confirmations: 0,
-        },
+        data: unindexed,
+        message: 'Deposit seen on chain, not yet indexed',
+        timestamp: new Date().toISOString(),
       });
     } catch (error) {
       logger.error('Error checking deposit status:', error);
-      res.status(500).json({
+      return res.status(500).json({
         success: false,
         error: 'Failed to check deposit status',
       });
     }
   }
 
-  async getUserDeposits(req: Request, res: Response): Promise<void> {
-    const { userAddress } = req.params;
-    
-    // TODO: Implement with SimpleBridgeDB when needed
-    const response: ApiResponse = {
-      success: true,
-      data: [],
-      message: 'Feature temporarily disabled - database migration in progress',
-      timestamp: new Date().toISOString(),
-    };
+  // Get deposit lifecycle by bridge deposit id
+  static async getDepositById(req: Request, res: Response) {
+    try {
+      const { depositId } = req.params;
 
-    res.json(response);
+      if (!depositId || !/^\d+$/.test(depositId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid deposit id',
+        });
+      }
+
+      const deposit = await SimpleBridgeDB.getDepositById(depositId);
+      if (!deposit) {
+        return res.status(404).json({
+          success: false,
+          error: 'Deposit not found',
+        });
+      }
+
+      const currentBlock = await getL1Provider().getBlockNumber();
+      return res.json({
+        success: true,
+        data: await toDepositLifecycle(deposit, currentBlock),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting deposit by id:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get deposit',
+      });
+    }
   }
 
-  async getDepositById(req: Request, res: Response): Promise<void> {
-    const { depositId } = req.params;
+  // Get deposit lifecycle by user address and bridge nonce
+  static async getDepositByNonce(req: Request, res: Response) {
+    try {
+      const { address, nonce } = req.params;
 
-    // TODO: Implement with SimpleBridgeDB when needed
-    const response: ApiResponse = {
-      success: true,
-      data: null,
-      message: 'Feature temporarily disabled - database migration in progress',
-      timestamp: new Date().toISOString(),
-    };
+      if (!address || !ethers.isAddress(address) || !nonce || !/^\d+$/.test(nonce)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid address or nonce',
+        });
+      }
 
-    res.json(response);
+      const deposit = await SimpleBridgeDB.getDepositByUserNonce(address, nonce);
+      if (!deposit) {
+        return res.status(404).json({
+          success: false,
+          error: 'Deposit not found',
+        });
+      }
+
+      const currentBlock = await getL1Provider().getBlockNumber();
+      return res.json({
+        success: true,
+        data: await toDepositLifecycle(deposit, currentBlock),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting deposit by nonce:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get deposit',
+      });
+    }
   }
 
-  async getBridgeStats(req: Request, res: Response): Promise<void> {
-    // TODO: Implement with SimpleBridgeDB when needed
-    const stats: BridgeStats = {
-      totalDeposits: 0,
-      totalVolume: '0',
-      completedBridges: 0,
-      pendingBridges: 0,
-      failedBridges: 0,
-      averageProcessingTime: 0,
-      dailyVolume: {},
-      tokenStats: {},
-    };
+  // Get withdrawal lifecycle by L2 withdrawal id
+  static async getWithdrawalById(req: Request, res: Response) {
+    try {
+      const { withdrawalId } = req.params;
 
-    const response: ApiResponse<BridgeStats> = {
-      success: true,
-      data: stats,
-      message: 'Stats temporarily disabled - database migration in progress',
-      timestamp: new Date().toISOString(),
-    };
+      if (!withdrawalId || !/^\d+$/.test(withdrawalId)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid withdrawal id',
+        });
+      }
 
-    res.json(response);
+      const withdrawal = await SimpleBridgeDB.getDepositById(withdrawalId, 'L2');
+      if (!withdrawal) {
+        return res.status(404).json({
+          success: false,
+          error: 'Withdrawal not found',
+        });
+      }
+
+      const currentBlock = await getL2Provider().getBlockNumber();
+      return res.json({
+        success: true,
+        data: await toDepositLifecycle(withdrawal, currentBlock),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting withdrawal by id:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get withdrawal',
+      });
+    }
   }
 
-  async getSupportedTokens(req: Request, res: Response): Promise<void> {
-    const supportedTokens = [
-      {
-        symbol: 'ETH',
-        name: 'Ethereum',
-        decimals: 18,
-        isNative: true,
-        l1Address: ethers.ZeroAddress,
-        l2Address: ethers.ZeroAddress,
-        minBridgeAmount: ethers.parseEther('0.001').toString(),
-        maxBridgeAmount: ethers.parseEther('1000').toString(),
-        hasNonce: true, // Menunjukkan dukungan nonce system
-      },
-      {
-        symbol: 'USDT',
-        name: 'Tether USD',
-        decimals: 6,
-        isNative: false,
-        l1Address: '0x7169D38820dfd117C3FA1f22a697dba58d90BA06', // Sepolia USDT
-        l2Address: '0x...', // Will be created dynamically
-        minBridgeAmount: '1000000', // 1 USDT
-        maxBridgeAmount: '1000000000000', // 1M USDT
-        hasNonce: true,
-      },
-      {
-        symbol: 'USDC',
-        name: 'USD Coin',
-        decimals: 6,
-        isNative: false,
-        l1Address: '0x94a9D9AC8a22534E3FaCa9F4e7F2E2cf85d5E4C8', // Sepolia USDC  
-        l2Address: '0x...', // Will be created dynamically
-        minBridgeAmount: '1000000', // 1 USDC
-        maxBridgeAmount: '1000000000000', // 1M USDC
-        hasNonce: true,
-      },
-    ];
+  // Aggregates served from the rollup tables maintained by the bridge_deposits trigger
+  static async getBridgeStats(req: Request, res: Response) {
+    try {
+      const { error, value: query } = bridgeStatsQuerySchema.validate(req.query);
+      if (error) {
+        return res.status(400).json({
+          success: false,
+          error: error.message,
+        });
+      }
 
-    const response: ApiResponse = {
-      success: true,
-      data: supportedTokens,
-      timestamp: new Date().toISOString(),
-    };
+      const sourceChain = query.direction === 'withdrawal' ? 'L2' : 'L1';
+      const to = new Date();
+      const from = new Date(to.getTime() - (query.days - 1) * 24 * 60 * 60 * 1000);
 
-    res.json(response);
+      const [statusRows, dailyRows, processingBuckets] = await Promise.all([
+        SimpleBridgeDB.getStatusRollup(sourceChain),
+        SimpleBridgeDB.getDailyRollup(sourceChain, from, to),
+        SimpleBridgeDB.getProcessingTimeRollup(sourceChain),
+      ]);
+
+      const response: ApiResponse<BridgeStats> = {
+        success: true,
+        data: await buildBridgeStats(statusRows, dailyRows, processingBuckets, { from, to, days: query.days }),
+        timestamp: new Date().toISOString(),
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('Error getting bridge stats:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get bridge stats',
+      });
+    }
+  }
+
+  // Tokens the bridge currently accepts; paused ones are listed but their deposits are held
+  static async getSupportedTokens(req: Request, res: Response) {
+    try {
+      const tokens = await SimpleBridgeDB.listBridgeTokens();
+
+      const response: ApiResponse = {
+        success: true,
+        data: tokens.filter(token => token.enabled).map(token => {
+          const { createdAt: _createdAt, updatedAt: _updatedAt, enabled: _enabled, ...view } = toTokenView(token);
+          return { ...view, hasNonce: true };
+        }),
+        timestamp: new Date().toISOString(),
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('Error listing supported tokens:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list supported tokens',
+      });
+    }
   }
 
   async getBridgeConfig(req: Request, res: Response): Promise<void> {
+    const bridgeConfig = getBridgeConfig();
     const config = {
       chains: {
         l1: {
-          chainId: 11155111, // Sepolia
-          name: 'Sepolia',
+          chainId: bridgeConfig.l1.chainId,
+          name: bridgeConfig.l1.name,
           rpc: process.env.L1_RPC_URL,
-          bridgeContract: process.env.L1_BRIDGE_CONTRACT,
-          confirmationBlocks: parseInt(process.env.CONFIRMATION_BLOCKS || '12'),
+          bridgeContract: bridgeConfig.l1.bridgeContract,
+          confirmationBlocks: requiredDepositConfirmations(bridgeConfig),
         },
         l2: {
-          chainId: 98765432103, // GoodNet Testnet
-          name: 'GoodNet Testnet',
+          chainId: bridgeConfig.l2.chainId,
+          name: bridgeConfig.l2.name,
           rpc: process.env.L2_RPC_URL,
-          bridgeContract: process.env.L2_BRIDGE_CONTRACT,
-          confirmationBlocks: 1,
+          bridgeContract: bridgeConfig.l2.bridgeContract,
+          confirmationBlocks: bridgeConfig.l2.confirmationBlocks,
         },
       },
+      // Per-token limits are served by GET /api/bridge/tokens
       limits: {
-        minBridgeAmount: process.env.MIN_BRIDGE_AMOUNT || '0.001',
-        maxBridgeAmount: process.env.MAX_BRIDGE_AMOUNT || '1000',
-        feePercentage: parseFloat(process.env.BRIDGE_FEE_PERCENTAGE || '0.1'),
+        feePercentage: bridgeConfig.feePercentage,
       },
       processing: {
         averageTime: '5-10 minutes',
-        confirmationBlocks: parseInt(process.env.CONFIRMATION_BLOCKS || '12'),
+        confirmationBlocks: requiredDepositConfirmations(bridgeConfig),
       },
     };
 
@@ -11,12 +11,20 @@ import { requestLogger } from '@/middleware/requestLogger';
 import healthRoutes from '@/routes/health';
 import bridgeRoutes from '@/routes/bridge';
 import adminRoutes from '@/routes/admin';
+import authRoutes from '@/routes/auth';
 
 // Import bridge services
 import { BridgeEventListener } from '@/services/BridgeEventListener';
 import { BridgeProcessor } from '@/services/BridgeProcessor';
+import { DepositConfirmationScheduler } from '@/services/DepositConfirmationScheduler';
+import { WithdrawalProcessor } from '@/services/WithdrawalProcessor';
+import { WithdrawalEventListener } from '@/services/WithdrawalEventListener';
+import { registerServices } from '@/services/registry';
 import { initializeRedis } from '@/config/redis';
 import { initializeDatabaseSimple } from '@/config/database-simple';
+import { initializeBridgeConfig } from '@/config/bridgeConfig';
+import { seedTokenRegistry } from '@/services/TokenRegistry';
+import { loadSigner } from '@/config/signers';
 
 // Load environment variables
 dotenv.config({ path: '.env.development' });
@@ -51,6 +59,7 @@ app.use(requestLogger);
 // Routes
 app.use('/health', healthRoutes);
 app.use('/api/bridge', bridgeRoutes);
+app.use('/api/auth', authRoutes);
 app.use('/api/admin', adminRoutes);
 
 // Root endpoint
@@ -71,6 +80,9 @@ app.use(errorHandler);
 
 // Initialize bridge services
 let eventListener: BridgeEventListener;
+let confirmationScheduler: DepositConfirmationScheduler;
+let withdrawalListener: WithdrawalEventListener | undefined;
+let withdrawalScheduler: DepositConfirmationScheduler | undefined;
 
 // Start server
 app.listen(PORT, async () => {
@@ -87,14 +99,41 @@ app.listen(PORT, async () => {
     console.log('🔧 Initializing Redis...');
     await initializeRedis();
     console.log('✅ Redis initialized successfully!');
+
+    console.log('🔧 Loading Bridge Config...');
+    await initializeBridgeConfig();
+    await seedTokenRegistry();
+    console.log('✅ Bridge Config loaded successfully!');
     
     console.log('🔧 Initializing Bridge Services...');
-    const bridgeProcessor = new BridgeProcessor();
+    const bridgeProcessor = new BridgeProcessor(await loadSigner('BRIDGE'));
     eventListener = new BridgeEventListener(bridgeProcessor);
+    registerServices({ bridgeProcessor, eventListener });
     
     console.log('🚀 Starting Bridge Event Listener...');
     await eventListener.start();
-    console.log('✅ Bridge Event Listener started successfully!\n');
+    console.log('✅ Bridge Event Listener started successfully!');
+
+    console.log('🚀 Starting Deposit Confirmation Scheduler...');
+    confirmationScheduler = new DepositConfirmationScheduler(bridgeProcessor);
+    confirmationScheduler.start();
+    registerServices({ confirmationScheduler });
+    console.log('✅ Deposit Confirmation Scheduler started successfully!\n');
+
+    // The L2 -> L1 path needs its own L1 signer, so it only runs when explicitly enabled
+    if (process.env.WITHDRAWALS_ENABLED === 'true') {
+      console.log('🚀 Starting Withdrawal Listener...');
+      const withdrawalProcessor = new WithdrawalProcessor(await loadSigner('L1_RELEASE'));
+      withdrawalListener = new WithdrawalEventListener(withdrawalProcessor);
+      await withdrawalListener.start();
+
+      withdrawalScheduler = new DepositConfirmationScheduler(withdrawalProcessor);
+      withdrawalScheduler.start();
+      registerServices({ withdrawalProcessor, withdrawalListener, withdrawalScheduler });
+      console.log('✅ Withdrawal Listener started successfully!\n');
+    } else {
+      logger.info('Withdrawal flow disabled (set WITHDRAWALS_ENABLED=true to enable)');
+    }
   } catch (error) {
     console.error('❌ Failed to start Bridge services:', error);
     logger.error('Failed to start Bridge services:', error);
@@ -103,51 +142,13 @@ app.listen(PORT, async () => {
 
 // Global error handlers
 process.on('uncaughtException', (error) => {
-  // Suppress filter not found errors as they're not critical for bridge operation
-  if (error.message?.includes('filter not found') || 
-      (error as any).error?.message?.includes('filter not found')) {
-    logger.debug('Filter expired, this is normal RPC behavior');
-    return;
-  }
   logger.error('Uncaught Exception:', error);
 });
 
 process.on('unhandledRejection', (reason, promise) => {
-  // Suppress filter not found errors
-  if (typeof reason === 'object' && reason !== null) {
-    const errorObj = reason as any;
-    if (errorObj.error?.message?.includes('filter not found') ||
-        errorObj.message?.includes('filter not found')) {
-      logger.debug('Filter expired, this is normal RPC behavior');
-      return;
-    }
-  }
   logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
 });
 
-// Global error handlers
-process.on('uncaughtException', (error) => {
-  // Suppress filter not found errors
-  if (error.message?.includes('filter not found') || 
-      error.message?.includes('could not coalesce error')) {
-    logger.debug('Suppressed filter error (normal RPC behavior)');
-    return;
-  }
-  logger.error('Uncaught exception:', error);
-});
-
-process.on('unhandledRejection', (reason, promise) => {
-  // Suppress filter not found errors
-  if (reason && typeof reason === 'object' && 
-      'message' in reason && 
-      (reason.message?.includes('filter not found') || 
-       reason.message?.includes('could not coalesce error'))) {
-    logger.debug('Suppressed filter rejection (normal RPC behavior)');
-    return;
-  }
-  logger.error('Unhandled rejection at:', promise, 'reason:', reason);
-});
-
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
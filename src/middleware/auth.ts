@@ -1,15 +1,28 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { logger } from '@/utils/logger';
+import { AuthError, verifyAccessToken } from '@/services/AdminAuth';
+import { AdminRole, AuthUser, Permission } from '@/types/auth';
 
-interface AuthRequest extends Request {
-  user?: {
-    id: string;
-    role: string;
-  };
+export interface AuthRequest extends Request {
+  user?: AuthUser;
 }
 
-export const authMiddleware = (
+const VIEWER_PERMISSIONS: Permission[] = ['dashboard:read', 'deposits:read', 'queue:read', 'config:read'];
+const OPERATOR_PERMISSIONS: Permission[] = [...VIEWER_PERMISSIONS, 'deposits:retry', 'deposits:cancel', 'deposits:approve', 'queue:manage', 'releases:pause'];
+
+// Each role includes everything the role below it can do
+export const ROLE_PERMISSIONS: Readonly<Record<AdminRole, readonly Permission[]>> = {
+  viewer: VIEWER_PERMISSIONS,
+  operator: OPERATOR_PERMISSIONS,
+  // Resuming after the outflow breaker tripped is for admins only
+  admin: [...OPERATOR_PERMISSIONS, 'releases:resume', 'config:write', 'users:manage', 'audit:read'],
+};
+
+export function hasPermission(role: AdminRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export const authMiddleware = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
@@ -24,38 +37,36 @@ export const authMiddleware = (
       });
     }
 
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      logger.error('JWT_SECRET not configured');
-      return res.status(500).json({
+    req.user = await verifyAccessToken(token);
+    return next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.status).json({
         success: false,
-        error: 'Server configuration error',
+        error: error.message,
       });
     }
 
-    const decoded = jwt.verify(token, jwtSecret) as any;
-    req.user = decoded;
-    next();
-  } catch (error) {
     logger.error('Auth middleware error:', error);
-    res.status(400).json({
+    return res.status(500).json({
       success: false,
-      error: 'Invalid token',
+      error: 'Server configuration error',
     });
   }
 };
 
-// Admin role check middleware
-export const adminOnly = (
+// Must run after authMiddleware
+export const requirePermission = (permission: Permission) => (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ) => {
-  if (!req.user || req.user.role !== 'admin') {
+  if (!req.user || !hasPermission(req.user.role, permission)) {
+    logger.warn(`Denied ${permission} to ${req.user?.username ?? 'anonymous'} (${req.user?.role ?? 'no role'})`);
     return res.status(403).json({
       success: false,
-      error: 'Access denied. Admin role required.',
+      error: `Access denied. Missing permission ${permission}.`,
     });
   }
-  next();
-};
\ No newline at end of file
+  return next();
+};
@@ -1,6 +1,18 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '@/utils/logger';
 
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Ids from a proxy are kept if they look sane, so one request can be traced across services
+const REQUEST_ID_PATTERN = /^[a-zA-Z0-9._-]{1,64}$/;
+
 export const requestLogger = (
   req: Request,
   res: Response,
@@ -8,8 +20,13 @@ export const requestLogger = (
 ) => {
   const start = Date.now();
 
+  const incomingId = req.get('X-Request-Id');
+  req.requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+
   // Log request
   logger.info('Incoming request', {
+    requestId: req.requestId,
     method: req.method,
     url: req.url,
     ip: req.ip,
@@ -20,6 +37,7 @@ export const requestLogger = (
   res.on('finish', () => {
     const duration = Date.now() - start;
     logger.info('Request completed', {
+      requestId: req.requestId,
       method: req.method,
       url: req.url,
       statusCode: res.statusCode,
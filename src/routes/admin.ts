@@ -1,26 +1,51 @@
 import { Router } from 'express';
 import { AdminController } from '@/controllers/adminController';
-import { authMiddleware } from '@/middleware/auth';
+import { authMiddleware, requirePermission } from '@/middleware/auth';
 
 const router = Router();
 
-// Apply authentication middleware to all admin routes
+// Apply authentication middleware to all admin routes; each route then checks its permission
 router.use(authMiddleware);
 
 // Dashboard
-router.get('/dashboard', AdminController.getDashboard);
+router.get('/dashboard', requirePermission('dashboard:read'), AdminController.getDashboard);
+router.get('/gas/costs', requirePermission('dashboard:read'), AdminController.getGasCosts);
 
 // Deposits management
-router.get('/deposits', AdminController.getDeposits);
-router.post('/deposits/:depositId/retry', AdminController.retryDeposit);
-router.post('/deposits/:depositId/cancel', AdminController.cancelDeposit);
+router.get('/deposits', requirePermission('deposits:read'), AdminController.getDeposits);
+router.get('/deposits/:depositId', requirePermission('deposits:read'), AdminController.getDeposit);
+router.post('/deposits/:depositId/retry', requirePermission('deposits:retry'), AdminController.retryDeposit);
+router.post('/deposits/:depositId/cancel', requirePermission('deposits:cancel'), AdminController.cancelDeposit);
+router.post('/deposits/:depositId/approve', requirePermission('deposits:approve'), AdminController.approveDeposit);
+router.get('/deposits/:depositId/events', requirePermission('deposits:read'), AdminController.getDepositEvents);
 
 // Queue management
-router.get('/queue/stats', AdminController.getQueueStats);
-router.post('/queue/clean', AdminController.cleanQueue);
+router.get('/queue/stats', requirePermission('queue:read'), AdminController.getQueueStats);
+router.post('/queue/clean', requirePermission('queue:manage'), AdminController.cleanQueue);
+
+// Release pause (manual, or tripped by an outflow limit)
+router.post('/releases/pause', requirePermission('releases:pause'), AdminController.pauseReleases);
+router.post('/releases/resume', requirePermission('releases:resume'), AdminController.resumeReleases);
 
 // Configuration
-router.get('/config', AdminController.getConfig);
-router.put('/config', AdminController.updateConfig);
+router.get('/config', requirePermission('config:read'), AdminController.getConfig);
+router.put('/config', requirePermission('config:write'), AdminController.updateConfig);
+router.get('/config/history', requirePermission('config:read'), AdminController.getConfigHistory);
+router.post('/config/restore/:version', requirePermission('config:write'), AdminController.restoreConfig);
+
+// Token registry
+router.get('/tokens', requirePermission('config:read'), AdminController.listTokens);
+router.post('/tokens', requirePermission('config:write'), AdminController.createToken);
+router.patch('/tokens/:address', requirePermission('config:write'), AdminController.updateToken);
+router.delete('/tokens/:address', requirePermission('config:write'), AdminController.deleteToken);
+
+// Admin users
+router.get('/users', requirePermission('users:manage'), AdminController.listUsers);
+router.post('/users', requirePermission('users:manage'), AdminController.createUser);
+router.patch('/users/:userId', requirePermission('users:manage'), AdminController.updateUser);
+router.post('/users/:userId/revoke-sessions', requirePermission('users:manage'), AdminController.revokeUserSessions);
+
+// Audit log
+router.get('/audit', requirePermission('audit:read'), AdminController.getAuditLog);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthController } from '@/controllers/authController';
+import { authMiddleware } from '@/middleware/auth';
+
+const router = Router();
+
+// Tighter than the global API limit to slow down password guessing
+const credentialLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: () => parseInt(process.env.AUTH_RATE_LIMIT_MAX || '10'),
+  message: 'Too many login attempts from this IP, please try again later.',
+});
+
+router.post('/login', credentialLimiter, AuthController.login);
+router.post('/refresh', credentialLimiter, AuthController.refresh);
+router.get('/siwe/nonce', credentialLimiter, AuthController.siweNonce);
+router.post('/siwe/verify', credentialLimiter, AuthController.siweVerify);
+router.post('/logout', authMiddleware, AuthController.logout);
+router.get('/me', authMiddleware, AuthController.me);
+
+export default router;
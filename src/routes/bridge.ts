@@ -7,6 +7,11 @@ const router = Router();
 router.post('/deposit', BridgeController.processDeposit);
 router.get('/deposits/:address', BridgeController.getDeposits);
 router.get('/deposit/:txHash', BridgeController.getDepositStatus);
+router.get('/deposit/id/:depositId', BridgeController.getDepositById);
+router.get('/deposit/user/:address/nonce/:nonce', BridgeController.getDepositByNonce);
+router.get('/withdrawal/:withdrawalId', BridgeController.getWithdrawalById);
+router.get('/stats', BridgeController.getBridgeStats);
+router.get('/tokens', BridgeController.getSupportedTokens);
 
 // Debug endpoints
 router.post('/debug/scan-events', BridgeController.scanHistoricalEvents);
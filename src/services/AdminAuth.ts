@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+import { AdminUserRecord, AdminUserView, AuthTokens, AuthUser, RefreshTokenRecord } from '@/types/auth';
+
+// Read on use rather than at import, which happens before index.ts loads the env file
+const accessTokenTtlSeconds = () => parseInt(process.env.ADMIN_ACCESS_TOKEN_TTL_SECONDS || '900');
+const refreshTokenTtlSeconds = () => parseInt(process.env.ADMIN_REFRESH_TOKEN_TTL_SECONDS || '604800');
+const bcryptRounds = () => parseInt(process.env.BCRYPT_ROUNDS || '12');
+
+// Access tokens cannot be recalled, so revocations are kept in Redis for as long as one stays valid
+const revokedSessionKey = (sessionId: string) => `auth:revoked-session:${sessionId}`;
+const revokedUserKey = (userId: string) => `auth:revoked-user:${userId}`;
+
+export class AuthError extends Error {
+  readonly status = 401;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+  return secret;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Compared against when the username is unknown so both cases take as long
+let dummyHash: string | undefined;
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, bcryptRounds());
+}
+
+export function toAdminUserView(user: AdminUserRecord): AdminUserView {
+  return {
+    id: String(user.id),
+    username: user.username,
+    role: user.role,
+    walletAddress: user.wallet_address,
+    hasPassword: user.password_hash !== null,
+    disabled: user.disabled,
+    lastLoginAt: user.last_login_at,
+    createdAt: user.created_at,
+  };
+}
+
+export async function login(username: string, password: string, ip: string | null): Promise<{ user: AdminUserRecord; tokens: AuthTokens }> {
+  const user = await SimpleBridgeDB.getAdminUserByUsername(username);
+
+  dummyHash ??= await bcrypt.hash('not-a-real-password', bcryptRounds());
+  const passwordMatches = await bcrypt.compare(password, user?.password_hash ?? dummyHash);
+
+  if (!user || !passwordMatches || user.disabled) {
+    logger.warn(`Failed admin login for ${username} from ${ip ?? 'unknown'}`);
+    throw new AuthError('Invalid username or password');
+  }
+
+  await SimpleBridgeDB.recordAdminLogin(String(user.id));
+  const tokens = await startSession(user, ip);
+  logger.info(`Admin ${user.username} logged in from ${ip ?? 'unknown'}`);
+
+  return { user, tokens };
+}
+
+/**
+ * Opens a new session for an already authenticated user: an access JWT for
+ * authMiddleware plus a refresh token that is rotated on every use.
+ */
+export async function startSession(user: AdminUserRecord, ip: string | null): Promise<AuthTokens> {
+  const sessionId = crypto.randomUUID();
+  const refresh = newRefreshToken();
+
+  await SimpleBridgeDB.saveRefreshToken({
+    id: refresh.id,
+    userId: String(user.id),
+    sessionId,
+    tokenHash: refresh.hash,
+    expiresAt: refresh.expiresAt,
+    createdIp: ip,
+  });
+
+  return buildTokens(user, sessionId, refresh.token);
+}
+
+/**
+ * Exchanges a refresh token for a new token pair. Presenting a token that was
+ * already rotated means it leaked or was replayed, so the whole session is
+ * revoked.
+ */
+export async function refreshSession(refreshToken: string, ip: string | null): Promise<AuthTokens> {
+  const record = await findRefreshToken(refreshToken);
+  if (!record) {
+    throw new AuthError('Invalid refresh token');
+  }
+
+  if (record.revoked_at) {
+    logger.warn(`Refresh token reuse detected for session ${record.session_id}, revoking it`);
+    await revokeSession(record.session_id);
+    throw new AuthError('Refresh token has been revoked');
+  }
+
+  if (record.expires_at.getTime() <= Date.now()) {
+    throw new AuthError('Refresh token has expired');
+  }
+
+  const user = await SimpleBridgeDB.getAdminUserById(record.user_id);
+  if (!user || user.disabled) {
+    await revokeSession(record.session_id);
+    throw new AuthError('Account is disabled');
+  }
+
+  const next = newRefreshToken();
+  const rotated = await SimpleBridgeDB.rotateRefreshToken(record.id, {
+    id: next.id,
+    userId: String(user.id),
+    sessionId: record.session_id,
+    tokenHash: next.hash,
+    expiresAt: next.expiresAt,
+    createdIp: ip,
+  });
+
+  // Lost a race with another request presenting the same token
+  if (!rotated) {
+    logger.warn(`Concurrent refresh token use for session ${record.session_id}, revoking it`);
+    await revokeSession(record.session_id);
+    throw new AuthError('Refresh token has been revoked');
+  }
+
+  return buildTokens(user, record.session_id, next.token);
+}
+
+// Logs out one session: its refresh tokens stop working and its access tokens are rejected
+export async function revokeSession(sessionId: string): Promise<void> {
+  await SimpleBridgeDB.revokeRefreshSession(sessionId);
+  await getRedisClient().set(revokedSessionKey(sessionId), '1', { EX: accessTokenTtlSeconds() });
+}
+
+// Used when a user is disabled or their role changes, so no token carries the old role
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await SimpleBridgeDB.revokeUserRefreshTokens(userId);
+  const now = Math.floor(Date.now() / 1000);
+  await getRedisClient().set(revokedUserKey(userId), String(now), { EX: accessTokenTtlSeconds() });
+}
+
+/**
+ * Verifies an access JWT and checks it was not revoked since it was issued.
+ * Throws AuthError for anything a client could fix by logging in again.
+ */
+export async function verifyAccessToken(token: string): Promise<AuthUser> {
+  let claims: jwt.JwtPayload;
+  try {
+    claims = jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'] }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new AuthError(error instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token');
+  }
+
+  if (!claims.sub || !claims.sid || !claims.role) {
+    throw new AuthError('Invalid token');
+  }
+
+  const [sessionRevoked, userRevokedAt] = await getRedisClient().mGet([
+    revokedSessionKey(claims.sid),
+    revokedUserKey(claims.sub),
+  ]);
+  if (sessionRevoked || (userRevokedAt && (claims.iat ?? 0) <= Number(userRevokedAt))) {
+    throw new AuthError('Token has been revoked');
+  }
+
+  return {
+    id: claims.sub,
+    username: claims.username,
+    role: claims.role,
+    sessionId: claims.sid,
+  };
+}
+
+// Refresh tokens are "<id>.<secret>"; only a hash of the secret is stored
+async function findRefreshToken(refreshToken: string): Promise<RefreshTokenRecord | null> {
+  const [id, secret] = refreshToken.split('.', 2);
+  if (!id || !secret) {
+    return null;
+  }
+
+  const record = await SimpleBridgeDB.getRefreshToken(id);
+  if (!record || !crypto.timingSafeEqual(Buffer.from(record.token_hash), Buffer.from(sha256(secret)))) {
+    return null;
+  }
+  return record;
+}
+
+function newRefreshToken(): { id: string; token: string; hash: string; expiresAt: Date } {
+  const id = crypto.randomUUID();
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return {
+    id,
+    token: `${id}.${secret}`,
+    hash: sha256(secret),
+    expiresAt: new Date(Date.now() + refreshTokenTtlSeconds() * 1000),
+  };
+}
+
+function buildTokens(user: AdminUserRecord, sessionId: string, refreshToken: string): AuthTokens {
+  const accessToken = jwt.sign(
+    { username: user.username, role: user.role, sid: sessionId },
+    getJwtSecret(),
+    { algorithm: 'HS256', subject: String(user.id), expiresIn: accessTokenTtlSeconds(), jwtid: crypto.randomUUID() }
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+    tokenType: 'Bearer',
+    expiresIn: accessTokenTtlSeconds(),
+    refreshExpiresIn: refreshTokenTtlSeconds(),
+  };
+}
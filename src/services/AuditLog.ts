@@ -0,0 +1,84 @@
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { AuthRequest } from '@/middleware/auth';
+import { logger } from '@/utils/logger';
+import { raiseAlert } from '@/utils/alerts';
+import { diffSnapshots, GENESIS_HASH, verifyChainSegment } from '@/utils/auditChain';
+
+export type AuditVerification =
+  | { ok: true; entries: number; headId: string | null; headHash: string }
+  | { ok: false; entries: number; brokenAt: string; reason: string };
+
+// How admins appear as the actor in the audit log and in deposit_events
+export function adminActor(req: AuthRequest): string {
+  return `admin:${req.user?.id ?? 'unknown'}`;
+}
+
+/**
+ * Records an admin action with the fields it changed. Called after the action
+ * succeeded, so a failed write cannot fail a request whose effect has already
+ * happened; it raises a critical alert instead, since the audit log is now
+ * missing an action.
+ */
+export async function auditAdminAction(
+  req: AuthRequest,
+  action: string,
+  target: string | null,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Promise<void> {
+  try {
+    await SimpleBridgeDB.appendAuditEntry({
+      actor: adminActor(req),
+      action,
+      target,
+      diff: diffSnapshots(before, after),
+      ip: req.ip ?? null,
+      requestId: req.requestId ?? null,
+    });
+  } catch (error) {
+    logger.error(`Failed to write audit entry for ${action} on ${target ?? '-'} by ${adminActor(req)}:`, error);
+    await raiseAlert('critical', 'Admin action missing from audit log', {
+      actor: adminActor(req),
+      action,
+      target,
+      requestId: req.requestId ?? null,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Walks the whole chain from the first entry. The head hash is worth keeping
+ * somewhere outside the database: truncating the newest entries leaves a valid
+ * but shorter chain, which only a known earlier head reveals. Pass that hash as
+ * knownHash to require it to still be in the chain.
+ */
+export async function verifyAuditLog(knownHash?: string, batchSize: number = 1000): Promise<AuditVerification> {
+  let previousHash = GENESIS_HASH;
+  let lastId = '0';
+  let entries = 0;
+  let knownHashSeen = knownHash === undefined;
+
+  for (;;) {
+    const batch = await SimpleBridgeDB.getAuditEntriesAfter(lastId, batchSize);
+    if (batch.length === 0) {
+      break;
+    }
+
+    const result = verifyChainSegment(batch, previousHash);
+    if (!result.ok) {
+      return { ok: false, entries, brokenAt: result.brokenAt, reason: result.reason };
+    }
+
+    entries += batch.length;
+    knownHashSeen ||= batch.some(entry => entry.hash === knownHash);
+    previousHash = result.lastHash;
+    lastId = String(batch[batch.length - 1]!.id);
+  }
+
+  if (!knownHashSeen) {
+    return { ok: false, entries, brokenAt: lastId, reason: `known hash ${knownHash} is no longer in the chain` };
+  }
+
+  return { ok: true, entries, headId: entries > 0 ? lastId : null, headHash: previousHash };
+}
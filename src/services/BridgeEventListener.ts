@@ -1,22 +1,31 @@
 import { ethers } from 'ethers';
 import { logger } from '@/utils/logger';
 import { BridgeProcessor } from './BridgeProcessor';
+import { ReorgDetector } from './ReorgDetector';
+import { SimpleBridgeDB } from '@/config/database-simple';
 import { L1DepositEvent } from '@/types/bridge';
+import { BRIDGE_L1_ABI } from '@/config/abis';
 
-// ABI for L1 Bridge Contract - Transfer ownership hanya via MetaMask/wallet signing untuk keamanan
-// Updated ABI with nonce parameter to match new contract
-const BRIDGE_L1_ABI = [
-  "event DepositERC20(uint256 indexed depositId, address indexed user, address indexed token, uint256 amount, uint256 nonce, uint256 timestamp)",
-  "event DepositETH(uint256 indexed depositId, address indexed user, uint256 amount, uint256 nonce, uint256 timestamp)",
-  "event OwnershipTransferred(address indexed previousAdmin, address indexed newAdmin)",
-];
+// Key under which the L1 deposit checkpoint is stored in bridge_sync_state
+const CHECKPOINT_KEY = 'l1_deposits';
+
+// polling: eth_getLogs over block ranges on a timer (default, survives filter expiry)
+// subscription: eth_newFilter based contract.on() listeners plus a periodic sweep
+type IngestionMode = 'polling' | 'subscription';
 
 export class BridgeEventListener {
   private l1Provider: ethers.JsonRpcProvider;
   private l1Contract: ethers.Contract;
   private bridgeProcessor: BridgeProcessor;
+  private reorgDetector: ReorgDetector;
   private isListening: boolean = false;
+  private isSyncing: boolean = false;
   private lastProcessedBlock: number = 0;
+  private logChunkSize: number;
+  private ingestionMode: IngestionMode;
+  private pollIntervalMs: number;
+  private healthCheckTimer: NodeJS.Timeout | undefined;
+  private pollTimer: NodeJS.Timeout | undefined;
 
   constructor(bridgeProcessor: BridgeProcessor) {
     this.bridgeProcessor = bridgeProcessor;
@@ -46,6 +55,16 @@ export class BridgeEventListener {
       BRIDGE_L1_ABI,
       this.l1Provider
     );
+
+    this.reorgDetector = new ReorgDetector(this.l1Provider);
+    this.logChunkSize = parseInt(process.env.L1_LOG_CHUNK_SIZE || '2000');
+    this.pollIntervalMs = parseInt(process.env.L1_POLL_INTERVAL_MS || '12000');
+
+    const ingestionMode = process.env.L1_INGESTION_MODE || 'polling';
+    if (ingestionMode !== 'polling' && ingestionMode !== 'subscription') {
+      throw new Error(`Invalid L1_INGESTION_MODE: ${ingestionMode} (expected 'polling' or 'subscription')`);
+    }
+    this.ingestionMode = ingestionMode;
   }
 
   async start(): Promise<void> {
@@ -56,32 +75,41 @@ export class BridgeEventListener {
       }
 
       const currentBlock = await this.l1Provider.getBlockNumber();
-      this.lastProcessedBlock = currentBlock;
-      
-      logger.info(`Starting event listener from block ${currentBlock}`);
+      this.lastProcessedBlock = await this.loadCheckpoint(currentBlock);
 
-      console.log('🎧 Setting up DepositETH event listener...');
-      this.l1Contract.on('DepositETH', this.handleDepositETH.bind(this));
+      logger.info(`Resuming event listener from block ${this.lastProcessedBlock + 1} (head: ${currentBlock})`);
 
-      console.log('🎧 Setting up DepositERC20 event listener...');
-      this.l1Contract.on('DepositERC20', this.handleDepositERC20.bind(this));
-
-      // Add error handling for provider errors
-      this.l1Provider.on('error', (error) => {
-        this.handleProviderError(error);
-      });
+      // Replay everything missed while the service was down before going live
+      console.log(`⏪ Catching up from block ${this.lastProcessedBlock + 1} to ${currentBlock}...`);
+      await this.catchUp(currentBlock);
 
       this.isListening = true;
-      logger.info('Bridge event listener started successfully');
+
+      if (this.ingestionMode === 'polling') {
+        console.log(`🔁 Polling eth_getLogs every ${this.pollIntervalMs}ms (max ${this.logChunkSize} blocks per request)...`);
+        this.schedulePoll();
+      } else {
+        console.log('🎧 Setting up DepositETH event listener...');
+        this.l1Contract.on('DepositETH', this.handleDepositETH.bind(this));
+
+        console.log('🎧 Setting up DepositERC20 event listener...');
+        this.l1Contract.on('DepositERC20', this.handleDepositERC20.bind(this));
+
+        // Add error handling for provider errors
+        this.l1Provider.on('error', (error) => {
+          this.handleProviderError(error);
+        });
+
+        this.startHealthCheck();
+      }
+
+      logger.info(`Bridge event listener started successfully (${this.ingestionMode} mode)`);
       console.log('🎯 BRIDGE EVENT LISTENER STARTED');
-      console.log('📡 Listening for L1 Bridge Events...');
+      console.log(`📡 Listening for L1 Bridge Events (${this.ingestionMode} mode)...`);
       console.log(`🔗 L1 Contract: ${process.env.L1_BRIDGE_CONTRACT}`);
-      console.log(`⛓️  Starting from block: ${currentBlock}`);
+      console.log(`⛓️  Checkpoint block: ${this.lastProcessedBlock}`);
       console.log('=' .repeat(60));
 
-      this.startHealthCheck();
-      await this.checkRecentEvents(currentBlock);
-
     } catch (error) {
       console.log('❌ Failed to start event listener:', error);
       logger.error('Failed to start event listener:', error);
@@ -95,8 +123,18 @@ export class BridgeEventListener {
         return;
       }
 
-      this.l1Contract.removeAllListeners();
-      this.l1Provider.removeAllListeners();
+      if (this.healthCheckTimer) {
+        clearInterval(this.healthCheckTimer);
+        this.healthCheckTimer = undefined;
+      }
+
+      if (this.pollTimer) {
+        clearTimeout(this.pollTimer);
+        this.pollTimer = undefined;
+      }
+
+      await this.l1Contract.removeAllListeners();
+      await this.l1Provider.removeAllListeners();
       this.isListening = false;
 
       logger.info('Bridge event listener stopped');
@@ -105,7 +143,7 @@ export class BridgeEventListener {
     }
   }
 
-  private async handleDepositETH(depositId: bigint, user: string, amount: bigint, nonce: bigint, timestamp: bigint, event: ethers.EventLog): Promise<void> {
+  private async handleDepositETH(depositId: bigint, user: string, amount: bigint, nonce: bigint, timestamp: bigint, event: ethers.ContractEventPayload): Promise<void> {
     try {
       console.log('\n🔥 NEW ETH DEPOSIT EVENT DETECTED!');
       console.log('=' .repeat(50));
@@ -114,8 +152,8 @@ export class BridgeEventListener {
       console.log(`💎 Amount: ${ethers.formatEther(amount)} ETH`);
       console.log(`🔢 User Nonce: ${nonce.toString()}`);
       console.log(`⏰ Timestamp: ${new Date(Number(timestamp) * 1000).toISOString()}`);
-      console.log(`📦 Block: ${event.blockNumber || 'pending'}`);
-      console.log(`🔗 TX Hash: ${event.transactionHash || 'pending'}`);
+      console.log(`📦 Block: ${event.log.blockNumber || 'pending'}`);
+      console.log(`🔗 TX Hash: ${event.log.transactionHash || 'pending'}`);
       console.log('=' .repeat(50));
       
       logger.info('DepositETH event received:', {
@@ -133,8 +171,10 @@ export class BridgeEventListener {
         amount,
         nonce,
         timestamp,
-        transactionHash: event.transactionHash || 'unknown',
-        blockNumber: BigInt(event.blockNumber || 0),
+        transactionHash: event.log.transactionHash || 'unknown',
+        blockNumber: BigInt(event.log.blockNumber || 0),
+        blockHash: event.log.blockHash,
+        logIndex: event.log.index,
       };
 
       console.log('⚡ Processing ETH deposit...');
@@ -146,7 +186,7 @@ export class BridgeEventListener {
     }
   }
 
-  private async handleDepositERC20(depositId: bigint, user: string, token: string, amount: bigint, nonce: bigint, timestamp: bigint, event: ethers.EventLog): Promise<void> {
+  private async handleDepositERC20(depositId: bigint, user: string, token: string, amount: bigint, nonce: bigint, timestamp: bigint, event: ethers.ContractEventPayload): Promise<void> {
     try {
       console.log('\n🪙 NEW ERC20 DEPOSIT EVENT DETECTED!');
       console.log('=' .repeat(50));
@@ -172,8 +212,10 @@ export class BridgeEventListener {
         amount,
         nonce,
         timestamp,
-        transactionHash: event.transactionHash || 'unknown',
-        blockNumber: BigInt(event.blockNumber || 0),
+        transactionHash: event.log.transactionHash || 'unknown',
+        blockNumber: BigInt(event.log.blockNumber || 0),
+        blockHash: event.log.blockHash,
+        logIndex: event.log.index,
       };
 
       console.log('⚡ Processing ERC20 deposit...');
@@ -186,14 +228,14 @@ export class BridgeEventListener {
   }
 
   private startHealthCheck(): void {
-    setInterval(async () => {
+    this.healthCheckTimer = setInterval(async () => {
       try {
         const blockNumber = await this.l1Provider.getBlockNumber();
-        if (blockNumber > this.lastProcessedBlock) {
-          this.lastProcessedBlock = blockNumber;
-          console.log(`💗 Health Check - L1 Block: ${blockNumber} (${new Date().toLocaleTimeString()})`);
-          logger.debug(`Health check passed. Current block: ${blockNumber}`);
-        }
+        console.log(`💗 Health Check - L1 Block: ${blockNumber}, checkpoint: ${this.lastProcessedBlock} (${new Date().toLocaleTimeString()})`);
+        logger.debug(`Health check passed. Current block: ${blockNumber}`);
+
+        // Sweep anything the live subscription missed and advance the checkpoint
+        await this.catchUp(blockNumber);
       } catch (error) {
         console.log('💔 Health check failed:', error);
         logger.error('Health check failed:', error);
@@ -201,36 +243,144 @@ export class BridgeEventListener {
     }, 30000);
   }
 
-  private async checkRecentEvents(currentBlock: number): Promise<void> {
+  // Each poll is scheduled after the previous one finishes so slow RPC calls never overlap
+  private schedulePoll(): void {
+    this.pollTimer = setTimeout(async () => {
+      try {
+        const blockNumber = await this.l1Provider.getBlockNumber();
+        await this.catchUp(blockNumber);
+      } catch (error) {
+        console.log('❌ L1 poll failed:', error);
+        logger.error('L1 poll failed:', error);
+      } finally {
+        if (this.isListening) {
+          this.schedulePoll();
+        }
+      }
+    }, this.pollIntervalMs);
+  }
+
+  private async loadCheckpoint(currentBlock: number): Promise<number> {
+    const checkpoint = await SimpleBridgeDB.getLastProcessedBlock(CHECKPOINT_KEY);
+    if (checkpoint !== null) {
+      return checkpoint;
+    }
+
+    // First run: start from the configured deployment block, or from head if none is set
+    const startBlock = process.env.L1_START_BLOCK;
+    const initialCheckpoint = startBlock ? parseInt(startBlock) - 1 : currentBlock;
+    if (!startBlock) {
+      logger.warn(`No L1 checkpoint found and L1_START_BLOCK not set, starting from head ${currentBlock}`);
+    }
+
+    await SimpleBridgeDB.saveLastProcessedBlock(CHECKPOINT_KEY, initialCheckpoint);
+    return initialCheckpoint;
+  }
+
+  /**
+   * Replays deposit logs from the checkpoint up to toBlock in bounded chunks.
+   * The checkpoint only advances after every deposit in a chunk has been saved,
+   * so a failure leaves the chunk to be retried on the next run.
+   */
+  private async catchUp(toBlock: number): Promise<void> {
+    if (this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
     try {
-      const fromBlock = Math.max(0, currentBlock - 1000);
-      console.log(`🔎 Querying events from block ${fromBlock} to ${currentBlock}...`);
-      
-      const ethEvents = await this.l1Contract.queryFilter('DepositETH', fromBlock, currentBlock);
-      console.log(`📊 Found ${ethEvents.length} DepositETH events in recent blocks`);
-      
-      const erc20Events = await this.l1Contract.queryFilter('DepositERC20', fromBlock, currentBlock);
-      console.log(`📊 Found ${erc20Events.length} DepositERC20 events in recent blocks`);
-      
-      if (ethEvents.length > 0 || erc20Events.length > 0) {
-        console.log('✅ Events found! Event listener should be working.');
-      } else {
-        console.log('ℹ️  No recent events found. Waiting for new transactions...');
+      // Rewind past any reorged blocks so the new canonical logs are ingested
+      const forkBlock = await this.reorgDetector.detectReorg(toBlock);
+      if (forkBlock !== null && forkBlock <= this.lastProcessedBlock) {
+        this.lastProcessedBlock = forkBlock - 1;
+        await SimpleBridgeDB.saveLastProcessedBlock(CHECKPOINT_KEY, this.lastProcessedBlock);
+        logger.warn(`L1 checkpoint rewound to block ${this.lastProcessedBlock} after reorg`);
+      }
+
+      while (this.lastProcessedBlock < toBlock) {
+        const fromBlock = this.lastProcessedBlock + 1;
+        const chunkEnd = Math.min(fromBlock + this.logChunkSize - 1, toBlock);
+
+        const processed = await this.processBlockRange(fromBlock, chunkEnd);
+
+        await SimpleBridgeDB.saveLastProcessedBlock(CHECKPOINT_KEY, chunkEnd);
+        this.lastProcessedBlock = chunkEnd;
+
+        if (processed > 0) {
+          console.log(`📊 Processed ${processed} deposit(s) in blocks ${fromBlock}-${chunkEnd}`);
+        }
+        logger.debug(`L1 checkpoint advanced to block ${chunkEnd}`);
       }
     } catch (error) {
-      console.log('❌ Error checking recent events:', error);
+      console.log('❌ Error catching up on L1 events:', error);
+      logger.error(`Catch-up stopped at checkpoint ${this.lastProcessedBlock}:`, error);
+    } finally {
+      this.isSyncing = false;
     }
   }
 
+  private async processBlockRange(fromBlock: number, toBlock: number): Promise<number> {
+    const depositETHTopic = this.l1Contract.interface.getEvent('DepositETH')!.topicHash;
+    const depositERC20Topic = this.l1Contract.interface.getEvent('DepositERC20')!.topicHash;
+
+    const logs = await this.l1Provider.getLogs({
+      address: await this.l1Contract.getAddress(),
+      topics: [[depositETHTopic, depositERC20Topic]],
+      fromBlock,
+      toBlock,
+    });
+
+    // Deposits are processed in chain order; any save failure aborts the range
+    const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of sortedLogs) {
+      const depositEvent = this.parseDepositLog(log);
+      if (depositEvent) {
+        await this.bridgeProcessor.processL1Deposit(depositEvent);
+        await this.reorgDetector.recordBlock(log.blockNumber, log.blockHash);
+      }
+    }
+
+    // Also track the range end so reorgs that add deposits to already-scanned blocks are caught
+    const endBlock = await this.l1Provider.getBlock(toBlock);
+    if (endBlock?.hash) {
+      await this.reorgDetector.recordBlock(toBlock, endBlock.hash);
+    }
+
+    return sortedLogs.length;
+  }
+
+  private parseDepositLog(log: ethers.Log): L1DepositEvent | null {
+    const parsed = this.l1Contract.interface.parseLog(log);
+    if (!parsed) {
+      return null;
+    }
+
+    const isETH = parsed.name === 'DepositETH';
+    return {
+      depositId: parsed.args.depositId,
+      user: parsed.args.user,
+      token: isETH ? ethers.ZeroAddress : parsed.args.token,
+      amount: parsed.args.amount,
+      nonce: parsed.args.nonce,
+      timestamp: parsed.args.timestamp,
+      transactionHash: log.transactionHash,
+      blockNumber: BigInt(log.blockNumber),
+      blockHash: log.blockHash,
+      logIndex: log.index,
+    };
+  }
+
   private handleProviderError(error: any): void {
-    // Suppress filter not found errors as they're not critical and normal
-    if (error.code === 'UNKNOWN_ERROR' && 
-        error.error?.message?.includes('filter not found')) {
-      logger.debug('Filter expired, this is normal RPC behavior - filters auto-expire');
+    // Expired filters surface here in subscription mode. The periodic sweep recovers any
+    // missed events, but the error is still reported so real failures stay visible.
+    if (error.error?.message?.includes('filter not found')) {
+      logger.warn('L1 event filter expired; consider L1_INGESTION_MODE=polling', {
+        code: error.code,
+        message: error.message,
+      });
       return;
     }
-    
-    // Log other provider errors
+
     logger.error('Provider error:', {
       code: error.code,
       message: error.message,
@@ -241,6 +391,7 @@ export class BridgeEventListener {
   public getStatus() {
     return {
       isListening: this.isListening,
+      ingestionMode: this.ingestionMode,
       lastProcessedBlock: this.lastProcessedBlock,
       provider: process.env.L1_RPC_URL || 'Unknown',
     };
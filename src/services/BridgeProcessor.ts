@@ -1,33 +1,42 @@
 import { ethers } from 'ethers';
+import Queue from 'bull';
 import { getBridgeQueue } from '@/config/redis';
+import { requiredDepositConfirmations } from '@/config/bridgeConfig';
 import { SimpleBridgeDB } from '@/config/database-simple';
 import { logger } from '@/utils/logger';
-import { L1DepositEvent, BridgeJob, BridgeStatus } from '@/types/bridge';
-
-// ABI for L2 Bridge Contract (Library-based) - Updated dengan function signature terbaru
-const BRIDGE_L2_ABI = [
-  "function depositERC20(uint256 l1DepositId, address l1Token, address to, uint256 amount, string memory name, string memory symbol) external",
-  "function depositETH(uint256 l1DepositId, address to, uint256 amount) external",
-  "event DepositERC20(uint256 indexed depositId, uint256 indexed l1DepositId, address indexed to, address l1Token, address l2Token, uint256 amount, uint256 timestamp)",
-  "event DepositETH(uint256 indexed depositId, address indexed to, uint256 amount, uint256 timestamp)",
-  "event TokenCreated(address indexed l1Token, address indexed l2Token, string name, string symbol)",
-  "event OwnershipTransferred(address indexed previousAdmin, address indexed newAdmin)"
-];
-
-// ABI for ERC20 tokens to get name and symbol
-const ERC20_ABI = [
-  "function name() view returns (string)",
-  "function symbol() view returns (string)",
-  "function decimals() view returns (uint8)"
-];
-
-export class BridgeProcessor {
+import { L1DepositEvent, BridgeJob, BridgeStatus, BridgeDepositRecord, BridgeTokenRecord } from '@/types/bridge';
+import { BRIDGE_L1_ABI, BRIDGE_L2_ABI } from '@/config/abis';
+import { depositReleaseReference, L2ReleaseLookup } from './L2ReleaseLookup';
+import { ConfirmationTarget } from './DepositConfirmationScheduler';
+import { canTransition, transitionDeposit } from './DepositStateMachine';
+import { recordTokenCreated } from './TokenRegistry';
+import { getTokenMetadata, TokenMetadataError } from './TokenMetadata';
+import { TransactionManager } from './TransactionManager';
+import { isUrgentRelease, releaseDeferral } from './GasPolicy';
+import { releaseOutflow, reserveOutflow } from './OutflowLimiter';
+import { checkRelease, parkRelease, releaseReference, releaseUnsentOutflow } from './ReleaseChecks';
+
+export class BridgeProcessor implements ConfirmationTarget {
+  private l1Provider: ethers.JsonRpcProvider;
+  private l1Interface: ethers.Interface;
   private l2Provider: ethers.JsonRpcProvider;
   private l2Contract!: ethers.Contract; // Definite assignment assertion - initialized in constructor
-  private bridgeSigner: ethers.Wallet;
-  private queue: any;
+  private bridgeSigner: ethers.Signer;
+  private queue!: Queue.Queue<BridgeJob>;
+  private l2ReleaseLookup: L2ReleaseLookup;
+  private l2Transactions: TransactionManager;
+  public readonly sourceChain = 'L1';
+
+  constructor(bridgeSigner: ethers.Signer) {
+    // Initialize L1 provider, used to verify deposits before release
+    const l1RpcUrl = process.env.L1_RPC_URL;
+    if (!l1RpcUrl) {
+      throw new Error('L1_RPC_URL not configured');
+    }
+
+    this.l1Provider = new ethers.JsonRpcProvider(l1RpcUrl);
+    this.l1Interface = new ethers.Interface(BRIDGE_L1_ABI);
 
-  constructor() {
     // Initialize L2 provider
     const l2RpcUrl = process.env.L2_RPC_URL;
     if (!l2RpcUrl) {
@@ -36,13 +45,8 @@ export class BridgeProcessor {
     
     this.l2Provider = new ethers.JsonRpcProvider(l2RpcUrl);
     
-    // Initialize bridge signer
-    const bridgePrivateKey = process.env.BRIDGE_PRIVATE_KEY;
-    if (!bridgePrivateKey) {
-      throw new Error('BRIDGE_PRIVATE_KEY not configured');
-    }
-    
-    this.bridgeSigner = new ethers.Wallet(bridgePrivateKey, this.l2Provider);
+    // Signs L2 releases; a keystore, remote signer or dev key as configured (see loadSigner)
+    this.bridgeSigner = bridgeSigner.connect(this.l2Provider);
     
     // Initialize L2 contract
     const l2BridgeContract = process.env.L2_BRIDGE_CONTRACT;
@@ -56,13 +60,21 @@ export class BridgeProcessor {
       this.bridgeSigner
     );
 
+    this.l2ReleaseLookup = new L2ReleaseLookup(this.l2Contract, this.l2Provider);
+    this.l2Transactions = new TransactionManager('L2', this.bridgeSigner, this.l2Provider);
+
     // Initialize queue processor
     this.initializeQueueProcessor();
   }
 
+  // Read from the runtime bridge config so updates apply without a restart
+  get requiredConfirmations(): number {
+    return requiredDepositConfirmations();
+  }
+
   async processL1Deposit(event: L1DepositEvent): Promise<void> {
     try {
-      console.log('🔄 Processing L1 deposit for L2 release...');
+      console.log('🔄 Recording L1 deposit...');
       logger.info('Processing L1 deposit event:', {
         depositId: event.depositId.toString(),
         user: event.user,
@@ -71,25 +83,17 @@ export class BridgeProcessor {
         nonce: event.nonce.toString(),
       });
 
-      // Save deposit to database
-      await this.saveBridgeDeposit(event);
-
-      // Create bridge job
-      const bridgeJob: BridgeJob = {
-        depositId: event.depositId.toString(),
-        user: event.user,
-        token: event.token,
-        amount: event.amount.toString(),
-        sourceChain: 'L1',
-        targetChain: 'L2',
-        txHash: event.transactionHash,
-        blockNumber: event.blockNumber.toString(),
-      };
-
-      // Process release to L2 immediately
-      await this.releaseToL2(event, bridgeJob);
+      // Save deposit to database. Errors here propagate so the listener does not
+      // advance its checkpoint past a deposit that was never stored.
+      const isNewDeposit = await this.saveBridgeDeposit(event);
+      if (!isNewDeposit) {
+        logger.info(`Deposit ${event.depositId.toString()} already recorded, skipping`);
+        return;
+      }
 
-      logger.info('L1 deposit event processed successfully');
+      // The deposit stays PENDING until the confirmation scheduler queues it for release
+      console.log(`⏳ Deposit ${event.depositId.toString()} pending ${this.requiredConfirmations} confirmations`);
+      logger.info('L1 deposit event recorded, awaiting confirmations');
     } catch (error) {
       console.log('❌ Error processing L1 deposit:', error);
       logger.error('Error processing L1 deposit event:', error);
@@ -97,19 +101,149 @@ export class BridgeProcessor {
     }
   }
 
-  private async releaseToL2(event: L1DepositEvent, job: BridgeJob): Promise<void> {
+  /**
+   * Hands a CONFIRMING deposit that has reached the required confirmation depth
+   * to the bridge queue. The deposit id doubles as the Bull job id so the same
+   * deposit can never be queued twice.
+   */
+  async enqueueConfirmed(deposit: BridgeDepositRecord): Promise<void> {
+    // Releases that can wait stay CONFIRMING while L2 gas costs more than the configured cap
+    const deferral = await releaseDeferral('L2', this.l2Provider, new Date(deposit.created_at));
+    if (deferral) {
+      logger.debug(`Deferring release of deposit ${deposit.deposit_id}: ${deferral}`);
+      return;
+    }
+
+    const claimed = await transitionDeposit(deposit, BridgeStatus.PROCESSING, {
+      actor: 'system:scheduler',
+      reason: `Reached ${this.requiredConfirmations} confirmations`,
+    });
+    if (!claimed) {
+      logger.debug(`Deposit ${deposit.deposit_id} already claimed by another worker`);
+      return;
+    }
+
+    try {
+      await this.addJob(deposit);
+      logger.info(`Deposit ${deposit.deposit_id} queued for L2 release`);
+    } catch (error) {
+      // Put the deposit back so the next scheduler tick can retry the enqueue
+      await transitionDeposit({ ...deposit, status: BridgeStatus.PROCESSING }, BridgeStatus.CONFIRMING, {
+        actor: 'system:scheduler',
+        reason: 'Failed to queue release job',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Operator retry of a FAILED or HELD_FOR_REVIEW deposit, or release of an
+   * AWAITING_APPROVAL one: back to PROCESSING and onto the queue. The job checks
+   * the approvals again, so this never skips them.
+   */
+  async retryFailed(deposit: BridgeDepositRecord, actor: string, reason?: string): Promise<boolean> {
+    const moved = await transitionDeposit(deposit, BridgeStatus.PROCESSING, {
+      actor,
+      reason: reason ?? 'Retry requested',
+    });
+    if (!moved) {
+      return false;
+    }
+
+    try {
+      await this.addJob(deposit);
+    } catch (error) {
+      // Hand the deposit to the scheduler rather than leave it PROCESSING with no job
+      await transitionDeposit({ ...deposit, status: BridgeStatus.PROCESSING }, BridgeStatus.CONFIRMING, {
+        actor,
+        reason: 'Failed to queue retry job',
+      });
+      throw error;
+    }
+    return true;
+  }
+
+  private async addJob(deposit: BridgeDepositRecord): Promise<void> {
+    const bridgeJob: BridgeJob = {
+      depositId: deposit.deposit_id,
+      user: deposit.user_address,
+      token: deposit.token_address,
+      amount: deposit.amount,
+      sourceChain: 'L1',
+      targetChain: 'L2',
+      txHash: deposit.tx_hash,
+      blockNumber: deposit.block_number,
+    };
+
+    // Bull ignores add() for a job id it still holds, e.g. the failed job of a retried deposit
+    const staleJob = await this.queue.getJob(deposit.deposit_id);
+    if (staleJob) {
+      await staleJob.remove();
+    }
+
+    await this.queue.add('process-bridge', bridgeJob, {
+      jobId: deposit.deposit_id,
+      priority: this.calculateJobPriority(BigInt(deposit.amount)),
+    });
+  }
+
+  // Confirms the deposit log is still in the same transaction and block on L1
+  private async verifyDepositOnChain(event: L1DepositEvent): Promise<boolean> {
+    const receipt = await this.l1Provider.getTransactionReceipt(event.transactionHash);
+    if (!receipt || receipt.status !== 1) {
+      return false;
+    }
+
+    // Rows ingested before block hashes were stored can only be matched by number
+    const blockMatches = event.blockHash
+      ? receipt.blockHash === event.blockHash
+      : BigInt(receipt.blockNumber) === event.blockNumber;
+    if (!blockMatches) {
+      return false;
+    }
+
+    const l1BridgeAddress = process.env.L1_BRIDGE_CONTRACT!.toLowerCase();
+    return receipt.logs.some(log => {
+      if (log.address.toLowerCase() !== l1BridgeAddress) {
+        return false;
+      }
+      const parsed = this.l1Interface.parseLog(log);
+      return (parsed?.name === 'DepositETH' || parsed?.name === 'DepositERC20') &&
+        parsed.args.depositId === event.depositId;
+    });
+  }
+
+  private async getConfirmations(blockNumber: string): Promise<number> {
+    const currentBlock = await this.l1Provider.getBlockNumber();
+    return currentBlock - parseInt(blockNumber);
+  }
+
+  private toDepositEvent(deposit: BridgeDepositRecord): L1DepositEvent {
+    return {
+      depositId: BigInt(deposit.deposit_id),
+      user: deposit.user_address,
+      token: deposit.token_address,
+      amount: BigInt(deposit.amount),
+      nonce: BigInt(deposit.nonce ?? 0),
+      timestamp: BigInt(Math.floor(new Date(deposit.created_at).getTime() / 1000)),
+      transactionHash: deposit.tx_hash,
+      blockNumber: BigInt(deposit.block_number),
+      blockHash: deposit.block_hash ?? '',
+      logIndex: deposit.log_index ?? 0,
+    };
+  }
+
+  // Returns the L2 transaction hash of the release
+  private async releaseToL2(event: L1DepositEvent, job: BridgeJob): Promise<string> {
     try {
       console.log(`🚀 Releasing to L2: ${job.token === ethers.ZeroAddress ? 'ETH' : 'ERC20'}`);
       
-      if (job.token === ethers.ZeroAddress) {
-        // Release ETH to L2
-        await this.releaseETHToL2(event, job);
-      } else {
-        // Release ERC20 to L2
-        await this.releaseERC20ToL2(event, job);
-      }
+      const l2TxHash = job.token === ethers.ZeroAddress
+        ? await this.releaseETHToL2(event, job)
+        : await this.releaseERC20ToL2(event, job);
       
       console.log('✅ L2 release completed successfully!');
+      return l2TxHash;
       
     } catch (error) {
       console.log('❌ L2 release failed:', error);
@@ -117,7 +251,7 @@ export class BridgeProcessor {
     }
   }
 
-  private async releaseETHToL2(event: L1DepositEvent, job: BridgeJob): Promise<void> {
+  private async releaseETHToL2(event: L1DepositEvent, job: BridgeJob): Promise<string> {
     try {
       console.log(`💎 Releasing ${ethers.formatEther(event.amount)} ETH to ${job.user}`);
       
@@ -125,23 +259,22 @@ export class BridgeProcessor {
         throw new Error('L2 contract not initialized');
       }
 
-      const tx = await (this.l2Contract as any).depositETH(
-        event.depositId,
-        job.user,
-        event.amount
+      const receipt = await this.sendL2Release(
+        event,
+        this.l2Contract.interface.encodeFunctionData('depositETH', [event.depositId, job.user, event.amount])
       );
-      
-      console.log(`📤 ETH deposit transaction sent: ${tx.hash}`);
-      const receipt = await tx.wait();
+      await this.recordL2Confirmation(job.depositId, receipt);
       console.log(`✅ ETH deposit confirmed in block: ${receipt.blockNumber}`);
-      console.log(`🌐 L2 Transaction: https://testnet-scan.dexgood.com/tx/${tx.hash}`);
+      console.log(`🌐 L2 Transaction: https://testnet-scan.dexgood.com/tx/${receipt.hash}`);
       
       logger.info('ETH deposited to L2:', {
         user: job.user,
         amount: ethers.formatEther(event.amount),
-        txHash: tx.hash,
+        txHash: receipt.hash,
         blockNumber: receipt.blockNumber
       });
+
+      return receipt.hash;
       
     } catch (error) {
       logger.error('Error releasing ETH to L2:', error);
@@ -149,31 +282,32 @@ export class BridgeProcessor {
     }
   }
 
-  private async releaseERC20ToL2(event: L1DepositEvent, job: BridgeJob): Promise<void> {
+  private async releaseERC20ToL2(event: L1DepositEvent, job: BridgeJob): Promise<string> {
     try {
       console.log(`🪙 Releasing ERC20 token ${job.token} to ${job.user}`);
       
-      // Get token info from L1
-      const tokenInfo = await this.getTokenInfo(job.token);
+      // Name and symbol of the wrapped token the L2 bridge creates on first release
+      const tokenInfo = await getTokenMetadata(job.token);
       console.log(`📋 Token Info: ${tokenInfo.name} (${tokenInfo.symbol})`);
       
       if (!this.l2Contract) {
         throw new Error('L2 contract not initialized');
       }
 
-      const tx = await (this.l2Contract as any).depositERC20(
-        event.depositId,
-        job.token,
-        job.user,
-        event.amount,
-        tokenInfo.name,
-        tokenInfo.symbol
+      const receipt = await this.sendL2Release(
+        event,
+        this.l2Contract.interface.encodeFunctionData('depositERC20', [
+          event.depositId,
+          job.token,
+          job.user,
+          event.amount,
+          tokenInfo.name,
+          tokenInfo.symbol,
+        ])
       );
-      
-      console.log(`📤 ERC20 deposit transaction sent: ${tx.hash}`);
-      const receipt = await tx.wait();
+      await this.recordL2Confirmation(job.depositId, receipt);
       console.log(`✅ ERC20 deposit confirmed in block: ${receipt.blockNumber}`);
-      console.log(`🌐 L2 Transaction: https://testnet-scan.dexgood.com/tx/${tx.hash}`);
+      console.log(`🌐 L2 Transaction: https://testnet-scan.dexgood.com/tx/${receipt.hash}`);
       
       logger.info('ERC20 deposited to L2:', {
         user: job.user,
@@ -181,9 +315,11 @@ export class BridgeProcessor {
         amount: event.amount.toString(),
         name: tokenInfo.name,
         symbol: tokenInfo.symbol,
-        txHash: tx.hash,
+        txHash: receipt.hash,
         blockNumber: receipt.blockNumber
       });
+
+      return receipt.hash;
       
     } catch (error) {
       logger.error('Error releasing ERC20 to L2:', error);
@@ -191,113 +327,196 @@ export class BridgeProcessor {
     }
   }
 
-  private async getTokenInfo(tokenAddress: string): Promise<{name: string, symbol: string, decimals: number}> {
-    try {
-      console.log(`🔍 Getting token info for ${tokenAddress}`);
-      // Create L1 provider to get token info
-      const l1Provider = new ethers.JsonRpcProvider(process.env.L1_RPC_URL);
-      const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, l1Provider);
-
-      const [name, symbol, decimals] = await Promise.all([
-        (tokenContract as any).name(),
-        (tokenContract as any).symbol(),
-        (tokenContract as any).decimals()
-      ]) as [string, string, number];
-      
-      return { name, symbol, decimals };
-    } catch (error) {
-      logger.warn('Could not get token info, using defaults:', error);
-      return { 
-        name: `Bridged Token ${tokenAddress.slice(0, 6)}`,
-        symbol: `BT${tokenAddress.slice(-4)}`,
-        decimals: 18 
-      };
+  /**
+   * Sends a release through the transaction manager, keyed by deposit so a
+   * retried job picks up its pending transaction instead of sending another.
+   * Every broadcast, replacements included, is recorded as the deposit's L2 tx.
+   * Fees stay within the L2 maxGasPrice until the deposit has waited too long.
+   */
+  private async sendL2Release(event: L1DepositEvent, data: string): Promise<ethers.TransactionReceipt> {
+    const depositId = event.depositId.toString();
+    return this.l2Transactions.send(
+      depositReleaseReference(depositId),
+      { to: await this.l2Contract.getAddress(), data },
+      {
+        onBroadcast: async txHash => {
+          console.log(`📤 L2 release transaction sent: ${txHash}`);
+          await SimpleBridgeDB.recordL2Submission(depositId, txHash);
+        },
+        urgent: isUrgentRelease(new Date(Number(event.timestamp) * 1000)),
+      }
+    );
+  }
+
+  // Stores the L2 receipt details, including the L2-assigned deposit id and wrapped token
+  private async recordL2Confirmation(depositId: string, receipt: ethers.TransactionReceipt): Promise<void> {
+    let l2DepositId: string | null = null;
+    let l2Token: string | null = null;
+
+    for (const log of receipt.logs) {
+      const parsed = this.l2Contract.interface.parseLog(log);
+      if (parsed?.name === 'TokenCreated') {
+        // First release of this token: the L2 bridge just deployed its wrapped token
+        await recordTokenCreated(parsed.args.l1Token, parsed.args.l2Token);
+      }
+      if (parsed?.name === 'DepositERC20') {
+        l2DepositId = parsed.args.depositId.toString();
+        l2Token = parsed.args.l2Token;
+      }
+      if (parsed?.name === 'DepositETH') {
+        l2DepositId = parsed.args.depositId.toString();
+      }
     }
+
+    await SimpleBridgeDB.recordL2Confirmation(depositId, {
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+      l2DepositId,
+      l2Token,
+    });
   }
 
   private initializeQueueProcessor(): void {
-    const queue = getBridgeQueue();
+    this.queue = getBridgeQueue();
     
-    queue.process('process-bridge', parseInt(process.env.QUEUE_CONCURRENCY || '5'), async (job: any) => {
-      const bridgeJob: BridgeJob = job.data;
-      return await this.processBridgeJob(bridgeJob);
+    this.queue.process('process-bridge', parseInt(process.env.QUEUE_CONCURRENCY || '5'), async (job: Queue.Job<BridgeJob>) => {
+      return await this.processBridgeJob(job);
     });
   }
 
-  private async processBridgeJob(job: BridgeJob): Promise<any> {
+  private async processBridgeJob(job: Queue.Job<BridgeJob>): Promise<any> {
+    const bridgeJob = job.data;
+
     try {
-      logger.info(`Processing bridge job for deposit ${job.depositId}`);
+      logger.info(`Processing bridge job for deposit ${bridgeJob.depositId} (attempt ${job.attemptsMade + 1})`);
+
+      let deposit = await SimpleBridgeDB.getDepositById(bridgeJob.depositId);
+      if (!deposit || (deposit.status !== BridgeStatus.PROCESSING && deposit.status !== BridgeStatus.SUBMITTED)) {
+        // Cancelled, reorged or already handled while the job was waiting
+        logger.warn(`Skipping bridge job for deposit ${bridgeJob.depositId}: status is ${deposit?.status ?? 'missing'}`);
+        return { success: false, skipped: true };
+      }
+
+      // A SUBMITTED deposit passed this check before its release was sent and must go on to finish it
+      if (deposit.status === BridgeStatus.PROCESSING) {
+        const confirmations = await this.getConfirmations(bridgeJob.blockNumber);
+        if (confirmations < this.requiredConfirmations) {
+          return this.awaitConfirmations(job, deposit, `Insufficient confirmations: ${confirmations}/${this.requiredConfirmations}`);
+        }
+      }
 
-      // Update status to processing
-      await SimpleBridgeDB.updateDepositStatus(job.depositId, 'PROCESSING');
+      // Never mint for a deposit that was reorged out after ingestion
+      const event = this.toDepositEvent(deposit);
+      const isCanonical = await this.verifyDepositOnChain(event);
+      if (!isCanonical) {
+        logger.warn(`Deposit ${bridgeJob.depositId} no longer found on the canonical L1 chain`);
+        await transitionDeposit(deposit, BridgeStatus.REORGED, {
+          actor: 'system:processor',
+          failureReason: 'Deposit log not found on canonical L1 chain',
+        });
+        return { success: false, reorged: true };
+      }
 
-      // Wait for sufficient confirmations
-      await this.waitForConfirmations(job.txHash, job.blockNumber);
+      let token: BridgeTokenRecord | null = null;
+      if (deposit.status === BridgeStatus.PROCESSING) {
+        const check = await checkRelease(deposit);
+        if (check.outcome !== 'release') {
+          return parkRelease(job, deposit, check);
+        }
+        token = check.token;
+
+        // Without real metadata the L2 token would be created under a made-up name for good
+        if (!token.is_native) {
+          try {
+            await getTokenMetadata(bridgeJob.token);
+          } catch (error) {
+            if (!(error instanceof TokenMetadataError)) {
+              throw error;
+            }
+            return parkRelease(job, deposit, { outcome: 'hold', reason: error.message });
+          }
+        }
+      }
 
-      // Validate the deposit
-      await this.validateDeposit(job);
+      // A previous attempt may have released on L2 before crashing; reconcile instead of resending
+      const existingRelease = await this.l2ReleaseLookup.findRelease(event.depositId, event.token, event.user, event.amount);
+      if (existingRelease) {
+        console.log(`♻️  Deposit ${bridgeJob.depositId} already released on L2 in ${existingRelease.txHash}`);
+        const existingReceipt = await this.l2Provider.getTransactionReceipt(existingRelease.txHash);
+        if (existingReceipt) {
+          await this.recordL2Confirmation(bridgeJob.depositId, existingReceipt);
+        }
+        await transitionDeposit(deposit, BridgeStatus.COMPLETED, {
+          actor: 'system:processor',
+          reason: 'Existing L2 release found',
+          completedTxHash: existingRelease.txHash,
+        });
+        return { success: true, reconciled: true, l2TxHash: existingRelease.txHash };
+      }
 
-      // Execute release on L2 (already done in releaseToL2)
-      // No additional mint needed since releaseERC20/releaseETH already handles token creation and minting
+      // Claim SUBMITTED before sending so a concurrent cancel either wins first or is refused
+      if (deposit.status === BridgeStatus.PROCESSING) {
+        // Only a release about to be sent counts against the outflow limits; one over a limit pauses them all
+        const limitReason = await reserveOutflow(releaseReference(deposit), token!, BigInt(deposit.amount));
+        if (limitReason !== null) {
+          return parkRelease(job, deposit, { outcome: 'paused', reason: limitReason });
+        }
+
+        const claimed = await transitionDeposit(deposit, BridgeStatus.SUBMITTED, {
+          actor: 'system:processor',
+          reason: 'Submitting L2 release',
+        });
+        if (!claimed) {
+          await releaseOutflow(releaseReference(deposit), bridgeJob.token);
+          logger.warn(`Deposit ${bridgeJob.depositId} changed status before submission, skipping`);
+          return { success: false, skipped: true };
+        }
+        deposit = { ...deposit, status: BridgeStatus.SUBMITTED };
+      }
+
+      const l2TxHash = await this.releaseToL2(event, bridgeJob);
 
-      // Update status to completed
-      await SimpleBridgeDB.updateDepositStatus(job.depositId, 'COMPLETED', job.txHash);
+      await transitionDeposit(deposit, BridgeStatus.COMPLETED, {
+        actor: 'system:processor',
+        reason: 'L2 release confirmed',
+        completedTxHash: l2TxHash,
+      });
 
-      logger.info(`Bridge job completed for deposit ${job.depositId}`, {
-        originalTxHash: job.txHash,
+      logger.info(`Bridge job completed for deposit ${bridgeJob.depositId}`, {
+        originalTxHash: bridgeJob.txHash,
+        l2TxHash,
       });
 
-      return { success: true, txHash: job.txHash };
+      return { success: true, txHash: bridgeJob.txHash, l2TxHash };
 
     } catch (error) {
-      logger.error(`Bridge job failed for deposit ${job.depositId}:`, error);
+      logger.error(`Bridge job failed for deposit ${bridgeJob.depositId}:`, error);
 
-      // Update status to failed
       const failureReason = error instanceof Error ? error.message : 'Unknown error';
-      await SimpleBridgeDB.updateDepositStatus(job.depositId, 'FAILED', undefined, failureReason);
+      await SimpleBridgeDB.incrementRetryCount(bridgeJob.depositId, failureReason);
+
+      // Only mark the deposit FAILED once Bull has no attempts left
+      const maxAttempts = job.opts.attempts ?? 1;
+      if (job.attemptsMade + 1 >= maxAttempts) {
+        const current = await SimpleBridgeDB.getDepositById(bridgeJob.depositId);
+        if (current && canTransition(current.status, BridgeStatus.FAILED)) {
+          await transitionDeposit(current, BridgeStatus.FAILED, { actor: 'system:processor', failureReason });
+          await releaseUnsentOutflow(current);
+        }
+      }
 
       throw error;
     }
   }
 
-  private async waitForConfirmations(txHash: string, blockNumber: string): Promise<void> {
-    const requiredConfirmations = parseInt(process.env.CONFIRMATION_BLOCKS || '12');
-    const l1Provider = new ethers.JsonRpcProvider(process.env.L1_RPC_URL!);
-    
-    while (true) {
-      const currentBlock = await l1Provider.getBlockNumber();
-      const confirmations = currentBlock - parseInt(blockNumber);
-      
-      if (confirmations >= requiredConfirmations) {
-        logger.info(`Sufficient confirmations received: ${confirmations}/${requiredConfirmations}`);
-        break;
-      }
-      
-      logger.info(`Waiting for confirmations: ${confirmations}/${requiredConfirmations}`);
-      await new Promise(resolve => setTimeout(resolve, 30000)); // Wait 30 seconds
-    }
-  }
-
-  private async validateDeposit(job: BridgeJob): Promise<void> {
-    // TODO: Add additional validation logic
-    // - Verify transaction receipt
-    // - Check if user has sufficient balance
-    // - Validate token contract
-    // - Check for any blacklisted addresses
-    
-    const minAmount = BigInt(ethers.parseEther(process.env.MIN_BRIDGE_AMOUNT || '0.001'));
-    const maxAmount = BigInt(ethers.parseEther(process.env.MAX_BRIDGE_AMOUNT || '1000'));
-    const amount = BigInt(job.amount);
-    
-    if (amount < minAmount) {
-      throw new Error(`Amount ${ethers.formatEther(amount)} is below minimum ${ethers.formatEther(minAmount)}`);
-    }
-    
-    if (amount > maxAmount) {
-      throw new Error(`Amount ${ethers.formatEther(amount)} exceeds maximum ${ethers.formatEther(maxAmount)}`);
-    }
-    
-    logger.info(`Deposit validation passed for ${job.depositId}`);
+  // Not deep enough yet, which is not a failure: back to CONFIRMING without using up an attempt or counting a retry
+  private async awaitConfirmations(job: Queue.Job<BridgeJob>, deposit: BridgeDepositRecord, reason: string) {
+    logger.info(`Deposit ${deposit.deposit_id} returned to the scheduler: ${reason}`);
+    await transitionDeposit(deposit, BridgeStatus.CONFIRMING, { actor: 'system:processor', reason });
+    await job.discard();
+    return { success: false, deferred: true, reason };
   }
 
   private calculateJobPriority(amount: bigint): number {
@@ -309,9 +528,9 @@ export class BridgeProcessor {
     return 10;                        // Normal priority
   }
 
-  private async saveBridgeDeposit(event: L1DepositEvent): Promise<void> {
+  private async saveBridgeDeposit(event: L1DepositEvent): Promise<boolean> {
     try {
-      await SimpleBridgeDB.saveBridgeDeposit({
+      const inserted = await SimpleBridgeDB.saveBridgeDeposit({
         depositId: event.depositId.toString(),
         userAddress: event.user,
         tokenAddress: event.token,
@@ -319,16 +538,28 @@ export class BridgeProcessor {
         nonce: event.nonce?.toString(),
         txHash: event.transactionHash,
         blockNumber: event.blockNumber.toString(),
+        blockHash: event.blockHash,
+        logIndex: event.logIndex,
         timestamp: new Date(Number(event.timestamp) * 1000),
       });
-      
-      logger.info(`Deposit saved to database: ${event.depositId.toString()}`);
+
+      return inserted;
     } catch (error) {
       logger.error('Error saving deposit to database:', error);
       throw error;
     }
   }
 
+  // Address and native balance of the L2 release signer, for operator monitoring
+  public async getSignerStatus(): Promise<{ address: string; balance: string }> {
+    const address = await this.bridgeSigner.getAddress();
+    const balance = await this.l2Provider.getBalance(address);
+    return {
+      address,
+      balance: ethers.formatEther(balance),
+    };
+  }
+
   public async getQueueStats(): Promise<any> {
     const queue = getBridgeQueue();
     
@@ -336,8 +567,10 @@ export class BridgeProcessor {
     const active = await queue.getActive();
     const completed = await queue.getCompleted();
     const failed = await queue.getFailed();
+    const paused = await queue.getPausedCount();
     
     return {
+      paused,
       waiting: waiting.length,
       active: active.length,
       completed: completed.length,
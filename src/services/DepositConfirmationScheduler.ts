@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+import { logger } from '@/utils/logger';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getL1Provider, getL2Provider } from '@/config/providers';
+import { BridgeChain, BridgeDepositRecord, BridgeStatus } from '@/types/bridge';
+import { transitionDeposit } from './DepositStateMachine';
+
+// A processor that releases transfers originating on sourceChain once they are deep enough
+export interface ConfirmationTarget {
+  readonly sourceChain: BridgeChain;
+  readonly requiredConfirmations: number;
+  enqueueConfirmed(record: BridgeDepositRecord): Promise<void>;
+}
+
+/**
+ * Periodically moves PENDING transfers to CONFIRMING and queues CONFIRMING ones
+ * that have reached the required number of source-chain confirmations for
+ * canonical-chain verification and release. One instance runs for L1 deposits and one for L2 withdrawals.
+ */
+export class DepositConfirmationScheduler {
+  private provider: ethers.JsonRpcProvider;
+  private target: ConfirmationTarget;
+  private isRunning: boolean = false;
+  private intervalMs: number;
+  private batchSize: number;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(target: ConfirmationTarget) {
+    this.target = target;
+    this.provider = target.sourceChain === 'L1' ? getL1Provider() : getL2Provider();
+    this.intervalMs = parseInt(process.env.CONFIRMATION_POLL_INTERVAL_MS || '15000');
+    this.batchSize = parseInt(process.env.CONFIRMATION_BATCH_SIZE || '50');
+  }
+
+  start(): void {
+    if (this.isRunning) {
+      logger.warn('Confirmation scheduler is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.scheduleTick();
+
+    logger.info(`${this.target.sourceChain} confirmation scheduler started (${this.target.requiredConfirmations} blocks, every ${this.intervalMs}ms)`);
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    logger.info(`${this.target.sourceChain} confirmation scheduler stopped`);
+  }
+
+  // Ticks never overlap: the next one is only scheduled after the current batch is done
+  private scheduleTick(): void {
+    this.timer = setTimeout(async () => {
+      try {
+        await this.releaseConfirmed();
+      } catch (error) {
+        console.log('❌ Confirmation check failed:', error);
+        logger.error('Confirmation check failed:', error);
+      } finally {
+        if (this.isRunning) {
+          this.scheduleTick();
+        }
+      }
+    }, this.intervalMs);
+  }
+
+  private async releaseConfirmed(): Promise<void> {
+    const currentBlock = await this.provider.getBlockNumber();
+
+    // Transfers included in a block are now counting confirmations
+    const included = await SimpleBridgeDB.getDepositsByStatusUpToBlock(
+      BridgeStatus.PENDING,
+      currentBlock,
+      this.batchSize,
+      this.target.sourceChain
+    );
+    for (const record of included) {
+      await transitionDeposit(record, BridgeStatus.CONFIRMING, {
+        actor: 'system:scheduler',
+        reason: `Included in ${this.target.sourceChain} block ${record.block_number}`,
+      });
+    }
+
+    const maxBlock = currentBlock - this.target.requiredConfirmations;
+    const records = await SimpleBridgeDB.getDepositsByStatusUpToBlock(
+      BridgeStatus.CONFIRMING,
+      maxBlock,
+      this.batchSize,
+      this.target.sourceChain
+    );
+    if (records.length === 0) {
+      return;
+    }
+
+    console.log(`✅ ${records.length} ${this.target.sourceChain} transfer(s) reached ${this.target.requiredConfirmations} confirmations`);
+
+    // One transfer that cannot be queued must not hold up the ones after it
+    for (const record of records) {
+      try {
+        await this.target.enqueueConfirmed(record);
+      } catch (error) {
+        console.log(`❌ Failed to queue ${this.target.sourceChain} transfer ${record.deposit_id}:`, error);
+        logger.error(`Failed to queue ${this.target.sourceChain} transfer ${record.deposit_id}:`, error);
+      }
+    }
+  }
+
+  public getStatus() {
+    return {
+      isRunning: this.isRunning,
+      sourceChain: this.target.sourceChain,
+      requiredConfirmations: this.target.requiredConfirmations,
+      intervalMs: this.intervalMs,
+    };
+  }
+}
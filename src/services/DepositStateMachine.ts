@@ -0,0 +1,92 @@
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { BridgeDepositRecord, BridgeStatus } from '@/types/bridge';
+
+/**
+ * The only place deposit (and withdrawal) statuses are allowed to change.
+ *
+ *   PENDING -> CONFIRMING -> PROCESSING -> SUBMITTED -> COMPLETED
+ *
+ * PROCESSING means queued for release; SUBMITTED means the release transaction is
+ * being or has been sent, so nothing before it has touched the target chain.
+ * FAILED, CANCELLED and REFUND_REQUIRED branch off that path and REORGED can
+ * happen at any point while the source log is not final. HELD_FOR_REVIEW parks a
+ * deposit of a token the registry does not allow releasing until an operator
+ * retries or cancels it; AWAITING_APPROVAL parks one above its token's approval
+ * threshold until enough operators have signed off. The listeners' upserts
+ * are the one other entry into PENDING: they insert new transfers and revive
+ * reorged ones, and record that in deposit_events themselves.
+ */
+export const DEPOSIT_TRANSITIONS: Readonly<Record<BridgeStatus, readonly BridgeStatus[]>> = {
+  [BridgeStatus.PENDING]: [BridgeStatus.CONFIRMING, BridgeStatus.CANCELLED, BridgeStatus.REORGED],
+  [BridgeStatus.CONFIRMING]: [BridgeStatus.PROCESSING, BridgeStatus.CANCELLED, BridgeStatus.REORGED],
+  [BridgeStatus.PROCESSING]: [
+    BridgeStatus.SUBMITTED,
+    BridgeStatus.COMPLETED, // an earlier attempt's release was found on the target chain
+    BridgeStatus.CONFIRMING, // not queued, not yet deep enough or releases paused; the scheduler picks it up again
+    BridgeStatus.FAILED,
+    BridgeStatus.CANCELLED,
+    BridgeStatus.REFUND_REQUIRED,
+    BridgeStatus.REORGED,
+    BridgeStatus.HELD_FOR_REVIEW,
+    BridgeStatus.AWAITING_APPROVAL,
+  ],
+  [BridgeStatus.HELD_FOR_REVIEW]: [BridgeStatus.PROCESSING, BridgeStatus.CANCELLED, BridgeStatus.REFUND_REQUIRED, BridgeStatus.REORGED],
+  [BridgeStatus.AWAITING_APPROVAL]: [BridgeStatus.PROCESSING, BridgeStatus.CANCELLED, BridgeStatus.REFUND_REQUIRED, BridgeStatus.REORGED],
+  [BridgeStatus.SUBMITTED]: [BridgeStatus.COMPLETED, BridgeStatus.FAILED, BridgeStatus.REORGED],
+  [BridgeStatus.FAILED]: [BridgeStatus.PROCESSING, BridgeStatus.CANCELLED, BridgeStatus.REFUND_REQUIRED, BridgeStatus.REORGED],
+  [BridgeStatus.CANCELLED]: [BridgeStatus.REFUND_REQUIRED],
+  [BridgeStatus.REFUND_REQUIRED]: [],
+  [BridgeStatus.COMPLETED]: [BridgeStatus.REORGED],
+  [BridgeStatus.REORGED]: [BridgeStatus.PENDING],
+};
+
+export class InvalidTransitionError extends Error {
+  // Picked up by the error handler and returned to API callers as 409 Conflict
+  readonly status = 409;
+
+  constructor(depositId: string, from: BridgeStatus, to: BridgeStatus, detail?: string) {
+    super(`Cannot move ${depositId} from ${from} to ${to}${detail ? `: ${detail}` : ''}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export interface TransitionOptions {
+  actor: string;
+  reason?: string;
+  completedTxHash?: string;
+  failureReason?: string;
+}
+
+export function canTransition(from: BridgeStatus, to: BridgeStatus): boolean {
+  return DEPOSIT_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+// Throws InvalidTransitionError unless the record may move to `to`
+export function assertTransition(deposit: BridgeDepositRecord, to: BridgeStatus): void {
+  if (!canTransition(deposit.status, to)) {
+    throw new InvalidTransitionError(deposit.deposit_id, deposit.status, to);
+  }
+
+  // FAILED covers failures after submission too; once a release tx exists it cannot be called off
+  if (to === BridgeStatus.CANCELLED && (deposit.l2_tx_hash || deposit.l1_release_tx_hash)) {
+    throw new InvalidTransitionError(deposit.deposit_id, deposit.status, to, 'release transaction already submitted');
+  }
+}
+
+/**
+ * Moves a transfer from the status in `deposit` to `to` and records the event.
+ * Returns false if the stored status changed since `deposit` was read; throws
+ * InvalidTransitionError if the transition is not allowed at all.
+ */
+export async function transitionDeposit(
+  deposit: BridgeDepositRecord,
+  to: BridgeStatus,
+  options: TransitionOptions
+): Promise<boolean> {
+  assertTransition(deposit, to);
+
+  return SimpleBridgeDB.transitionDeposit(deposit.deposit_id, deposit.status, to, {
+    sourceChain: deposit.source_chain,
+    ...options,
+  });
+}
@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import { getBridgeConfig } from '@/config/bridgeConfig';
+import { BridgeChain, ChainConfig } from '@/types/bridge';
+
+const estimateMarginPercent = () => parseInt(process.env.GAS_ESTIMATE_MARGIN_PERCENT || '20');
+const maxDeferMs = () => parseInt(process.env.GAS_MAX_DEFER_MS || '3600000');
+
+// The scheduler asks once per deposit; one fee lookup per chain is enough for a tick
+const GAS_PRICE_CACHE_MS = 10000;
+
+// maxPriorityFeePerGas is null for legacy (type 0) transactions; maxFeePerGas is then the gas price
+export interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint | null;
+}
+
+// A transaction the configured chain limits do not allow to be sent at all
+export class GasPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GasPolicyError';
+  }
+}
+
+export function chainConfigFor(chain: BridgeChain): ChainConfig {
+  const config = getBridgeConfig();
+  return chain === 'L1' ? config.l1 : config.l2;
+}
+
+/**
+ * Gas limit for a transaction estimated at `estimate`: the estimate plus
+ * GAS_ESTIMATE_MARGIN_PERCENT, but never above the chain's gasLimit. An
+ * estimate that is already over the limit is refused rather than sent to fail.
+ */
+export function gasLimitFor(estimate: bigint, chain: ChainConfig): bigint {
+  if (estimate > chain.gasLimit) {
+    throw new GasPolicyError(`Estimated gas ${estimate} exceeds the ${chain.name} gas limit of ${chain.gasLimit}`);
+  }
+  const withMargin = (estimate * BigInt(100 + estimateMarginPercent())) / 100n;
+  return withMargin < chain.gasLimit ? withMargin : chain.gasLimit;
+}
+
+// Caps what a transaction may pay per gas at the chain's maxGasPrice
+export function capFees(fees: Fees, chain: ChainConfig): Fees {
+  const maxFeePerGas = fees.maxFeePerGas < chain.maxGasPrice ? fees.maxFeePerGas : chain.maxGasPrice;
+  if (fees.maxPriorityFeePerGas === null) {
+    return { maxFeePerGas, maxPriorityFeePerGas: null };
+  }
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas < maxFeePerGas ? fees.maxPriorityFeePerGas : maxFeePerGas,
+  };
+}
+
+/**
+ * A release stops waiting for cheaper gas once its deposit is GAS_MAX_DEFER_MS
+ * old; from then on it is sent at whatever the network charges.
+ */
+export function isUrgentRelease(depositCreatedAt: Date, now: number = Date.now()): boolean {
+  return now - depositCreatedAt.getTime() >= maxDeferMs();
+}
+
+const gasPriceCache = new Map<BridgeChain, { price: bigint; fetchedAt: number }>();
+
+/**
+ * What a transaction currently pays per gas on `chain`. eth_gasPrice (base fee
+ * plus tip) is used rather than the suggested maxFeePerGas, which ethers sets
+ * at twice the base fee and would defer releases the cap actually allows.
+ */
+export async function currentGasPrice(chain: BridgeChain, provider: ethers.Provider): Promise<bigint> {
+  const cached = gasPriceCache.get(chain);
+  if (cached && Date.now() - cached.fetchedAt < GAS_PRICE_CACHE_MS) {
+    return cached.price;
+  }
+
+  const feeData = await provider.getFeeData();
+  const price = feeData.gasPrice ?? feeData.maxFeePerGas;
+  if (price === null) {
+    throw new Error(`${chain} provider returned no fee data`);
+  }
+  gasPriceCache.set(chain, { price, fetchedAt: Date.now() });
+  return price;
+}
+
+/**
+ * Why a release on `chain` should wait for cheaper gas, or null if it can go
+ * now. Only non-urgent releases are deferred; urgent ones are never held back.
+ */
+export async function releaseDeferral(
+  chain: BridgeChain,
+  provider: ethers.Provider,
+  depositCreatedAt: Date
+): Promise<string | null> {
+  if (isUrgentRelease(depositCreatedAt)) {
+    return null;
+  }
+
+  const config = chainConfigFor(chain);
+  const price = await currentGasPrice(chain, provider);
+  if (price <= config.maxGasPrice) {
+    return null;
+  }
+
+  return `${chain} gas price ${ethers.formatUnits(price, 'gwei')} gwei exceeds the cap of ${ethers.formatUnits(config.maxGasPrice, 'gwei')} gwei`;
+}
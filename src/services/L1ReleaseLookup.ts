@@ -0,0 +1,105 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { logger } from '@/utils/logger';
+import { findLatestEvent } from '@/utils/logs';
+
+export interface L1ReleaseRecord {
+  txHash: string;
+  blockNumber: number;
+}
+
+// The signer_transactions reference the L1 release of an L2 withdrawal is sent under
+export const withdrawalReleaseReference = (l2WithdrawalId: bigint | string) => `withdrawal:L2:${l2WithdrawalId.toString()}`;
+
+/**
+ * Looks up whether the L1 bridge has already released a given L2 withdrawal, so a
+ * retry after a crash between sending and recording the L1 tx never pays out twice.
+ * The transactions the signer sent for the withdrawal are checked first; the
+ * WithdrawalReleased search covers releases sent before those were recorded.
+ */
+export class L1ReleaseLookup {
+  private l1Contract: ethers.Contract;
+  private l1Provider: ethers.Provider;
+  private fromBlock: number;
+  private logChunkSize: number;
+
+  constructor(
+    l1Contract: ethers.Contract,
+    l1Provider: ethers.Provider,
+    fromBlock: number = parseInt(process.env.L1_BRIDGE_START_BLOCK || '0')
+  ) {
+    this.l1Contract = l1Contract;
+    this.l1Provider = l1Provider;
+    this.fromBlock = fromBlock;
+    this.logChunkSize = parseInt(process.env.L1_LOG_CHUNK_SIZE || '2000');
+  }
+
+  // WithdrawalReleased indexes the withdrawal id; recipient, token and amount are checked as well
+  async findRelease(l2WithdrawalId: bigint, token: string, recipient: string, amount: bigint): Promise<L1ReleaseRecord | null> {
+    const release = await this.findSentRelease(l2WithdrawalId, token, recipient, amount)
+      ?? await this.findReleaseEvent(l2WithdrawalId, token, recipient, amount);
+
+    if (release) {
+      logger.info(`Found existing L1 release for withdrawal ${l2WithdrawalId.toString()}`, {
+        txHash: release.txHash,
+        blockNumber: release.blockNumber,
+      });
+    }
+
+    return release;
+  }
+
+  private isRelease(args: ethers.Result, l2WithdrawalId: bigint, token: string, recipient: string, amount: bigint): boolean {
+    return args.l2WithdrawalId === l2WithdrawalId &&
+      args.to.toLowerCase() === recipient.toLowerCase() &&
+      args.token.toLowerCase() === token.toLowerCase() &&
+      args.amount === amount;
+  }
+
+  // A successful release among the transactions (replacements included) sent for this withdrawal
+  private async findSentRelease(l2WithdrawalId: bigint, token: string, recipient: string, amount: bigint): Promise<L1ReleaseRecord | null> {
+    const bridgeAddress = (await this.l1Contract.getAddress()).toLowerCase();
+    const txHashes = await SimpleBridgeDB.getSignerTransactionHashes(withdrawalReleaseReference(l2WithdrawalId));
+
+    for (const txHash of txHashes) {
+      const receipt = await this.l1Provider.getTransactionReceipt(txHash);
+      if (!receipt || receipt.status !== 1) {
+        continue;
+      }
+
+      const released = receipt.logs.some(log => {
+        if (log.address.toLowerCase() !== bridgeAddress) {
+          return false;
+        }
+        const parsed = this.l1Contract.interface.parseLog(log);
+        return parsed?.name === 'WithdrawalReleased' && this.isRelease(parsed.args, l2WithdrawalId, token, recipient, amount);
+      });
+      if (released) {
+        return { txHash: receipt.hash, blockNumber: receipt.blockNumber };
+      }
+    }
+
+    return null;
+  }
+
+  private async findReleaseEvent(l2WithdrawalId: bigint, token: string, recipient: string, amount: bigint): Promise<L1ReleaseRecord | null> {
+    const filter = this.l1Contract.filters.WithdrawalReleased!(l2WithdrawalId, recipient, token);
+    const latestBlock = await this.l1Provider.getBlockNumber();
+    const event = await findLatestEvent(
+      this.l1Contract,
+      filter,
+      this.fromBlock,
+      latestBlock,
+      this.logChunkSize,
+      e => e.args.amount === amount
+    );
+    if (!event) {
+      return null;
+    }
+
+    return {
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { logger } from '@/utils/logger';
+import { findLatestEvent } from '@/utils/logs';
+
+export interface L2ReleaseRecord {
+  txHash: string;
+  blockNumber: number;
+  l2DepositId: bigint;
+  l2Token: string | null;
+}
+
+// The signer_transactions reference the L2 release of an L1 deposit is sent under
+export const depositReleaseReference = (l1DepositId: bigint | string) => `deposit:L1:${l1DepositId.toString()}`;
+
+/**
+ * Looks up whether the L2 bridge has already released a given L1 deposit, so a
+ * retry after a crash between sending and recording the L2 tx never mints twice.
+ *
+ * The L2 DepositETH event does not carry the L1 deposit id, so ETH releases are
+ * only found through the transactions the signer sent for the deposit. ERC20
+ * releases are also searched for by their indexed l1DepositId, which covers
+ * releases sent before signer transactions were recorded.
+ */
+export class L2ReleaseLookup {
+  private l2Contract: ethers.Contract;
+  private l2Provider: ethers.Provider;
+  private fromBlock: number;
+  private logChunkSize: number;
+
+  constructor(
+    l2Contract: ethers.Contract,
+    l2Provider: ethers.Provider,
+    fromBlock: number = parseInt(process.env.L2_BRIDGE_START_BLOCK || '0')
+  ) {
+    this.l2Contract = l2Contract;
+    this.l2Provider = l2Provider;
+    this.fromBlock = fromBlock;
+    this.logChunkSize = parseInt(process.env.L2_LOG_CHUNK_SIZE || '2000');
+  }
+
+  async findRelease(l1DepositId: bigint, token: string, recipient: string, amount: bigint): Promise<L2ReleaseRecord | null> {
+    const isETH = token === ethers.ZeroAddress;
+    const release = await this.findSentRelease(l1DepositId, isETH, recipient, amount)
+      ?? (isETH ? null : await this.findERC20Release(l1DepositId));
+
+    if (release) {
+      logger.info(`Found existing L2 release for deposit ${l1DepositId.toString()}`, {
+        txHash: release.txHash,
+        blockNumber: release.blockNumber,
+      });
+    }
+
+    return release;
+  }
+
+  // A successful release among the transactions (replacements included) sent for this deposit
+  private async findSentRelease(l1DepositId: bigint, isETH: boolean, recipient: string, amount: bigint): Promise<L2ReleaseRecord | null> {
+    const bridgeAddress = (await this.l2Contract.getAddress()).toLowerCase();
+    const txHashes = await SimpleBridgeDB.getSignerTransactionHashes(depositReleaseReference(l1DepositId));
+
+    for (const txHash of txHashes) {
+      const receipt = await this.l2Provider.getTransactionReceipt(txHash);
+      if (!receipt || receipt.status !== 1) {
+        continue;
+      }
+
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== bridgeAddress) {
+          continue;
+        }
+        const parsed = this.l2Contract.interface.parseLog(log);
+        const released = isETH
+          ? parsed?.name === 'DepositETH' &&
+            parsed.args.to.toLowerCase() === recipient.toLowerCase() &&
+            parsed.args.amount === amount
+          : parsed?.name === 'DepositERC20' && parsed.args.l1DepositId === l1DepositId;
+        if (released) {
+          return {
+            txHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+            l2DepositId: parsed!.args.depositId,
+            l2Token: isETH ? null : parsed!.args.l2Token,
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  // DepositERC20 indexes l1DepositId directly, so it can be filtered on exactly
+  private async findERC20Release(l1DepositId: bigint): Promise<L2ReleaseRecord | null> {
+    const filter = this.l2Contract.filters.DepositERC20!(null, l1DepositId);
+    const latestBlock = await this.l2Provider.getBlockNumber();
+    const event = await findLatestEvent(this.l2Contract, filter, this.fromBlock, latestBlock, this.logChunkSize);
+    if (!event) {
+      return null;
+    }
+
+    return {
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber,
+      l2DepositId: event.args.depositId,
+      l2Token: event.args.l2Token,
+    };
+  }
+}
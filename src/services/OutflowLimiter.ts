@@ -0,0 +1,195 @@
+import { ethers } from 'ethers';
+import { WatchError } from 'redis';
+import { getRedisClient } from '@/config/redis';
+import { BridgeTokenRecord } from '@/types/bridge';
+
+// Set while releases are paused; holds a ReleasePause and only an admin clears it
+export const RELEASE_PAUSE_KEY = 'bridge:releases:paused';
+
+// Sorted sets of the releases in the rolling window, scored by the time they were counted. Deposits
+// and withdrawals count alike, under the L1 address of their token
+const GLOBAL_OUTFLOW_KEY = 'bridge:outflow:global';
+const tokenOutflowKey = (l1Address: string) => `bridge:outflow:token:${l1Address.toLowerCase()}`;
+
+// Values (amount x reference_price) are fixed-point with this many decimals
+const VALUE_DECIMALS = 18;
+
+const outflowWindowSeconds = () => parseInt(process.env.OUTFLOW_WINDOW_SECONDS || '3600');
+const globalMaxValue = () => ethers.parseUnits(process.env.OUTFLOW_GLOBAL_MAX_VALUE || '0', VALUE_DECIMALS);
+
+// Concurrent reservations retry when another one changed the window first
+const MAX_RESERVE_ATTEMPTS = 5;
+
+export interface ReleasePause {
+  reason: string;
+  pausedBy: string;
+  pausedAt: string;
+}
+
+export interface TokenOutflow {
+  l1Address: string;
+  symbol: string;
+  // Base units released in the current window, and the limit; null means no limit
+  released: string;
+  limit: string | null;
+}
+
+export interface OutflowUsage {
+  windowSeconds: number;
+  // Value released in the current window, in the unit of the tokens' reference prices
+  value: string;
+  // null means no global limit
+  maxValue: string | null;
+  tokens: TokenOutflow[];
+}
+
+// One entry per release reference, so counting the same release again (a retried job) changes nothing
+const outflowMember = (reference: string, amount: bigint) => `${reference}:${amount}`;
+const memberReference = (member: string) => member.slice(0, member.lastIndexOf(':'));
+
+function sumMembers(members: string[]): bigint {
+  return members.reduce((sum, member) => sum + BigInt(member.slice(member.lastIndexOf(':') + 1)), 0n);
+}
+
+// Value of `amount` base units at the token's reference price, or null if it has none
+function outflowValue(token: BridgeTokenRecord, amount: bigint): bigint | null {
+  if (token.reference_price === null) {
+    return null;
+  }
+  return amount * ethers.parseUnits(token.reference_price, VALUE_DECIMALS) / 10n ** BigInt(token.decimals);
+}
+
+export async function getReleasePause(): Promise<ReleasePause | null> {
+  const stored = await getRedisClient().get(RELEASE_PAUSE_KEY);
+  return stored ? JSON.parse(stored) as ReleasePause : null;
+}
+
+/**
+ * Pauses releases unless they already are, and returns the pause in effect:
+ * the first reason is kept so an operator sees what tripped the breaker.
+ */
+export async function setReleasePause(reason: string, pausedBy: string): Promise<{ pause: ReleasePause; created: boolean }> {
+  const pause: ReleasePause = { reason, pausedBy, pausedAt: new Date().toISOString() };
+  const created = await getRedisClient().set(RELEASE_PAUSE_KEY, JSON.stringify(pause), { NX: true });
+  if (created) {
+    return { pause, created: true };
+  }
+  return { pause: (await getReleasePause()) ?? pause, created: false };
+}
+
+// Returns the pause that was lifted, or null if releases were not paused
+export async function clearReleasePause(): Promise<ReleasePause | null> {
+  const stored = await getRedisClient().getDel(RELEASE_PAUSE_KEY);
+  return stored ? JSON.parse(stored) as ReleasePause : null;
+}
+
+/**
+ * Counts the release `reference` (see releaseReference) of `amount` of `token`
+ * against the rolling outflow window, unless that would take the token over its
+ * outflow_limit or the value released by the bridge over OUTFLOW_GLOBAL_MAX_VALUE.
+ * Returns null once counted, or why the release must not go out. Call it just
+ * before the release is sent, and releaseOutflow if it then is not. The check
+ * and the write are one optimistic transaction, so concurrent workers cannot
+ * both squeeze under a limit.
+ */
+export async function reserveOutflow(
+  reference: string,
+  token: BridgeTokenRecord,
+  amount: bigint,
+  now: number = Date.now()
+): Promise<string | null> {
+  const windowSeconds = outflowWindowSeconds();
+  const windowStart = now - windowSeconds * 1000;
+  const tokenKey = tokenOutflowKey(token.l1_address);
+  const member = outflowMember(reference, amount);
+  const limit = token.outflow_limit !== null ? BigInt(token.outflow_limit) : null;
+  const value = outflowValue(token, amount);
+  const maxValue = globalMaxValue();
+  const format = (units: bigint) => `${ethers.formatUnits(units, token.decimals)} ${token.symbol}`;
+
+  // Without a price the release cannot be counted against the global limit, so it must not go out
+  if (maxValue > 0n && value === null) {
+    return `${token.symbol} has no reference price to count against the global outflow limit`;
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await getRedisClient().executeIsolated(async client => {
+        await client.watch([tokenKey, GLOBAL_OUTFLOW_KEY]);
+        const [members, globalMembers] = await Promise.all([
+          client.zRangeByScore(tokenKey, `(${windowStart}`, '+inf'),
+          client.zRangeByScore(GLOBAL_OUTFLOW_KEY, `(${windowStart}`, '+inf'),
+        ]);
+
+        // Counted by an earlier attempt of the same job
+        if (members.includes(member)) {
+          await client.unwatch();
+          return null;
+        }
+
+        const released = sumMembers(members) + amount;
+        if (limit !== null && released > limit) {
+          await client.unwatch();
+          return `${token.symbol} outflow of ${format(released)} in ${windowSeconds}s would exceed its limit of ${format(limit)}`;
+        }
+        const releasedValue = sumMembers(globalMembers) + (value ?? 0n);
+        if (maxValue > 0n && releasedValue > maxValue) {
+          await client.unwatch();
+          return `Outflow worth ${ethers.formatUnits(releasedValue, VALUE_DECIMALS)} in ${windowSeconds}s would exceed ` +
+            `the global limit of ${ethers.formatUnits(maxValue, VALUE_DECIMALS)}`;
+        }
+
+        await client.multi()
+          .zRemRangeByScore(tokenKey, '-inf', windowStart)
+          .zAdd(tokenKey, { score: now, value: member })
+          .pExpire(tokenKey, windowSeconds * 1000)
+          .zRemRangeByScore(GLOBAL_OUTFLOW_KEY, '-inf', windowStart)
+          .zAdd(GLOBAL_OUTFLOW_KEY, { score: now, value: outflowMember(reference, value ?? 0n) })
+          .pExpire(GLOBAL_OUTFLOW_KEY, windowSeconds * 1000)
+          .exec();
+        return null;
+      });
+    } catch (error) {
+      if (!(error instanceof WatchError) || attempt === MAX_RESERVE_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// Takes back the reservation of a release that was never sent, so it no longer counts against the window
+export async function releaseOutflow(reference: string, l1Address: string): Promise<void> {
+  const redis = getRedisClient();
+  for (const key of [tokenOutflowKey(l1Address), GLOBAL_OUTFLOW_KEY]) {
+    const members = await redis.zRangeByScore(key, '-inf', '+inf');
+    const reserved = members.filter(member => memberReference(member) === reference);
+    if (reserved.length > 0) {
+      await redis.zRem(key, reserved);
+    }
+  }
+}
+
+// What has been released in the current window, for the dashboard
+export async function getOutflowUsage(tokens: BridgeTokenRecord[], now: number = Date.now()): Promise<OutflowUsage> {
+  const windowSeconds = outflowWindowSeconds();
+  const windowStart = `(${now - windowSeconds * 1000}`;
+  const redis = getRedisClient();
+  const maxValue = globalMaxValue();
+
+  const [globalMembers, tokenMembers] = await Promise.all([
+    redis.zRangeByScore(GLOBAL_OUTFLOW_KEY, windowStart, '+inf'),
+    Promise.all(tokens.map(token => redis.zRangeByScore(tokenOutflowKey(token.l1_address), windowStart, '+inf'))),
+  ]);
+
+  return {
+    windowSeconds,
+    value: ethers.formatUnits(sumMembers(globalMembers), VALUE_DECIMALS),
+    maxValue: maxValue > 0n ? ethers.formatUnits(maxValue, VALUE_DECIMALS) : null,
+    tokens: tokens.map((token, index) => ({
+      l1Address: token.l1_address,
+      symbol: token.symbol,
+      released: sumMembers(tokenMembers[index] ?? []).toString(),
+      limit: token.outflow_limit,
+    })),
+  };
+}
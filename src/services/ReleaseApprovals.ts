@@ -0,0 +1,229 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getBridgeConfig } from '@/config/bridgeConfig';
+import { hasPermission } from '@/middleware/auth';
+import { ADMIN_ROLES, AdminUserRecord } from '@/types/auth';
+import { BridgeChain, BridgeDepositRecord, BridgeTokenRecord, ReleaseApprovalRecord } from '@/types/bridge';
+
+export class ReleaseApprovalError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ReleaseApprovalError';
+  }
+}
+
+// What operators sign with eth_signTypedData_v4; the field order is part of the type hash
+export const RELEASE_APPROVAL_TYPES: Record<string, ethers.TypedDataField[]> = {
+  ReleaseApproval: [
+    { name: 'depositId', type: 'uint256' },
+    { name: 'sourceChainId', type: 'uint256' },
+    { name: 'targetChainId', type: 'uint256' },
+    { name: 'token', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'recipient', type: 'address' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+};
+
+export interface ReleaseApprovalMessage {
+  depositId: string;
+  // The direction of the release; deposits and withdrawals have separate id sequences
+  sourceChainId: number;
+  targetChainId: number;
+  token: string;
+  amount: string;
+  recipient: string;
+  // Unix seconds
+  deadline: number;
+}
+
+export interface ReleaseApprovalView {
+  operator: string;
+  signer: string;
+  approvedAt: Date;
+  expiresAt: Date;
+  valid: boolean;
+  // Why the approval no longer counts; null while it does
+  invalidReason: string | null;
+}
+
+export interface ReleaseApprovalStatus {
+  required: number;
+  // Operators able to approve: enabled, with a linked wallet and the deposits:approve permission
+  operators: number;
+  approved: number;
+  approvals: ReleaseApprovalView[];
+}
+
+// Roles allowed to approve; users of other roles never count towards the quorum
+export const APPROVER_ROLES = ADMIN_ROLES.filter(role => hasPermission(role, 'deposits:approve'));
+
+export const requiredApprovals = () => Math.max(1, parseInt(process.env.RELEASE_APPROVALS_REQUIRED || '2'));
+
+const maxApprovalTtlSeconds = () => parseInt(process.env.RELEASE_APPROVAL_MAX_TTL_SECONDS || '86400');
+
+const targetChain = (deposit: BridgeDepositRecord): BridgeChain => (deposit.source_chain === 'L1' ? 'L2' : 'L1');
+
+function chainId(chain: BridgeChain): number {
+  const { l1, l2 } = getBridgeConfig();
+  return chain === 'L1' ? l1.chainId : l2.chainId;
+}
+
+/**
+ * Bound to the bridge contract that sends the release (the L2 bridge for a
+ * deposit, the L1 vault for a withdrawal), at the address the processors use,
+ * so an approval is worthless on another deployment.
+ */
+export function releaseApprovalDomain(deposit: BridgeDepositRecord): ethers.TypedDataDomain {
+  const chain = targetChain(deposit);
+  const releasingContract = chain === 'L1' ? process.env.L1_BRIDGE_CONTRACT : process.env.L2_BRIDGE_CONTRACT;
+  return {
+    name: 'DexGood Bridge',
+    version: '1',
+    chainId: chainId(chain),
+    ...(releasingContract && { verifyingContract: releasingContract }),
+  };
+}
+
+// Always built from the stored deposit, so a signature over different terms never verifies
+export function releaseApprovalMessage(deposit: BridgeDepositRecord, deadline: number): ReleaseApprovalMessage {
+  return {
+    depositId: deposit.deposit_id,
+    sourceChainId: chainId(deposit.source_chain),
+    targetChainId: chainId(targetChain(deposit)),
+    token: ethers.getAddress(deposit.token_address),
+    amount: deposit.amount,
+    recipient: ethers.getAddress(deposit.user_address),
+    deadline,
+  };
+}
+
+// Whether a deposit or withdrawal of this token is large enough to wait for operator approvals
+export function needsApproval(deposit: BridgeDepositRecord, token: BridgeTokenRecord): boolean {
+  return token.approval_threshold !== null && BigInt(deposit.amount) >= BigInt(token.approval_threshold);
+}
+
+function recoverApprover(deposit: BridgeDepositRecord, signature: string, deadline: number): string | null {
+  try {
+    return ethers.verifyTypedData(
+      releaseApprovalDomain(deposit),
+      RELEASE_APPROVAL_TYPES,
+      releaseApprovalMessage(deposit, deadline),
+      signature
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks that `signature` is the operator's linked wallet approving the release
+ * of `deposit` until `deadline` (unix seconds), and returns the signer. The
+ * deadline must lie in the future and at most RELEASE_APPROVAL_MAX_TTL_SECONDS
+ * ahead, so no approval stays usable indefinitely.
+ */
+export function verifyReleaseApproval(
+  deposit: BridgeDepositRecord,
+  operator: AdminUserRecord,
+  signature: string,
+  deadline: number,
+  now: number = Date.now()
+): string {
+  if (!operator.wallet_address) {
+    throw new ReleaseApprovalError('Link a wallet to your account before approving releases', 403);
+  }
+
+  const nowSeconds = Math.floor(now / 1000);
+  if (deadline <= nowSeconds) {
+    throw new ReleaseApprovalError('Approval deadline has already passed', 400);
+  }
+  if (deadline > nowSeconds + maxApprovalTtlSeconds()) {
+    throw new ReleaseApprovalError(`Approval deadline must be at most ${maxApprovalTtlSeconds()} seconds ahead`, 400);
+  }
+
+  const signer = recoverApprover(deposit, signature, deadline);
+  if (!signer) {
+    throw new ReleaseApprovalError('Malformed approval signature', 400);
+  }
+  if (signer.toLowerCase() !== operator.wallet_address.toLowerCase()) {
+    throw new ReleaseApprovalError(`Approval is signed by ${signer}, not the wallet linked to ${operator.username}`, 403);
+  }
+  return signer;
+}
+
+/**
+ * Why a stored approval no longer counts, or null if it does. The operator's
+ * account is re-checked as it is now: disabling an operator, demoting them or
+ * changing their wallet withdraws their outstanding approvals.
+ */
+export function approvalInvalidReason(deposit: BridgeDepositRecord, approval: ReleaseApprovalRecord, now: number = Date.now()): string | null {
+  if (new Date(approval.deadline).getTime() <= now) {
+    return 'Expired';
+  }
+  if (approval.operator_disabled) {
+    return 'Operator is disabled';
+  }
+  if (!hasPermission(approval.operator_role, 'deposits:approve')) {
+    return 'Operator may no longer approve releases';
+  }
+  if (approval.operator_wallet?.toLowerCase() !== approval.signer.toLowerCase()) {
+    return 'Operator wallet changed since approving';
+  }
+
+  const deadline = Math.floor(new Date(approval.deadline).getTime() / 1000);
+  if (recoverApprover(deposit, approval.signature, deadline)?.toLowerCase() !== approval.signer.toLowerCase()) {
+    return 'Signature does not match the deposit';
+  }
+  return null;
+}
+
+export function toReleaseApprovalView(
+  deposit: BridgeDepositRecord,
+  approval: ReleaseApprovalRecord,
+  now: number = Date.now()
+): ReleaseApprovalView {
+  const invalidReason = approvalInvalidReason(deposit, approval, now);
+  return {
+    operator: approval.operator_username,
+    signer: ethers.getAddress(approval.signer),
+    approvedAt: approval.created_at,
+    expiresAt: approval.deadline,
+    valid: invalidReason === null,
+    invalidReason,
+  };
+}
+
+// The deposit's approvals and how many of them currently count towards the quorum
+export async function getReleaseApprovalStatus(deposit: BridgeDepositRecord, now: number = Date.now()): Promise<ReleaseApprovalStatus> {
+  const [approvals, operators] = await Promise.all([
+    SimpleBridgeDB.getReleaseApprovals(deposit.deposit_id, deposit.source_chain),
+    SimpleBridgeDB.countApprovalOperators(APPROVER_ROLES),
+  ]);
+  const views = approvals.map(approval => toReleaseApprovalView(deposit, approval, now));
+
+  return {
+    required: requiredApprovals(),
+    operators,
+    approved: views.filter(view => view.valid).length,
+    approvals: views,
+  };
+}
+
+// Verifies and stores an operator's approval, replacing any earlier one of theirs
+export async function recordReleaseApproval(
+  deposit: BridgeDepositRecord,
+  operator: AdminUserRecord,
+  signature: string,
+  deadline: number
+): Promise<ReleaseApprovalStatus> {
+  const signer = verifyReleaseApproval(deposit, operator, signature, deadline);
+  await SimpleBridgeDB.saveReleaseApproval({
+    sourceChain: deposit.source_chain,
+    depositId: deposit.deposit_id,
+    operatorId: operator.id,
+    signer,
+    signature,
+    deadline: new Date(deadline * 1000),
+  });
+  return getReleaseApprovalStatus(deposit);
+}
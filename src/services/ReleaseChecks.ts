@@ -0,0 +1,152 @@
+import Queue from 'bull';
+import { ethers } from 'ethers';
+import { getBridgeQueue } from '@/config/redis';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { logger } from '@/utils/logger';
+import { raiseAlert } from '@/utils/alerts';
+import { BridgeDepositRecord, BridgeJob, BridgeStatus, BridgeTokenRecord } from '@/types/bridge';
+import { transitionDeposit } from './DepositStateMachine';
+import { tokenHoldReason } from './TokenRegistry';
+import { getReleaseApprovalStatus, needsApproval } from './ReleaseApprovals';
+import { clearReleasePause, getReleasePause, ReleasePause, releaseOutflow, setReleasePause } from './OutflowLimiter';
+import { depositReleaseReference } from './L2ReleaseLookup';
+import { withdrawalReleaseReference } from './L1ReleaseLookup';
+
+// Where a release that must not go out now is parked instead
+export interface ParkedRelease {
+  // hold: HELD_FOR_REVIEW, refund: REFUND_REQUIRED, approval: AWAITING_APPROVAL, paused: CONFIRMING while paused
+  outcome: 'hold' | 'refund' | 'approval' | 'paused';
+  reason: string;
+}
+
+export type ReleaseCheck = { outcome: 'release'; token: BridgeTokenRecord } | ParkedRelease;
+
+const label = (record: BridgeDepositRecord) => (record.source_chain === 'L1' ? 'Deposit' : 'Withdrawal');
+
+// The signer reference of the record's release, which also keys it in the outflow window
+export const releaseReference = (record: BridgeDepositRecord) =>
+  record.source_chain === 'L1' ? depositReleaseReference(record.deposit_id) : withdrawalReleaseReference(record.deposit_id);
+
+function amountLimitReason(amount: bigint, token: BridgeTokenRecord): string | null {
+  const minAmount = BigInt(token.min_amount);
+  const maxAmount = BigInt(token.max_amount);
+  const format = (value: bigint) => `${ethers.formatUnits(value, token.decimals)} ${token.symbol}`;
+
+  if (amount < minAmount) {
+    return `Amount ${format(amount)} is below minimum ${format(minAmount)}`;
+  }
+  if (amount > maxAmount) {
+    return `Amount ${format(amount)} exceeds maximum ${format(maxAmount)}`;
+  }
+  return null;
+}
+
+/**
+ * What a PROCESSING deposit (L1 -> L2) or withdrawal (L2 -> L1) must pass
+ * before its release is sent: the token registry, the token's limits, operator
+ * approvals and the release pause. The outflow limits come last, counted by
+ * reserveOutflow just before the release is sent.
+ */
+export async function checkRelease(record: BridgeDepositRecord): Promise<ReleaseCheck> {
+  // Unlisted, disabled or paused tokens wait for an operator instead of being released
+  const token = await SimpleBridgeDB.getBridgeToken(record.token_address);
+  const holdReason = tokenHoldReason(record.token_address, token);
+  if (holdReason !== null) {
+    return { outcome: 'hold', reason: holdReason };
+  }
+
+  // Releases that can never go out are parked for a refund instead of retried
+  const limitReason = amountLimitReason(BigInt(record.amount), token!);
+  if (limitReason !== null) {
+    return { outcome: 'refund', reason: limitReason };
+  }
+
+  // Large releases wait until enough operators have signed off on them
+  if (needsApproval(record, token!)) {
+    const approval = await getReleaseApprovalStatus(record);
+    if (approval.approved < approval.required) {
+      return { outcome: 'approval', reason: `${approval.approved} of ${approval.required} operator approvals` };
+    }
+  }
+
+  // Nothing is released while releases are paused
+  const pause = await getReleasePause();
+  if (pause) {
+    return { outcome: 'paused', reason: pause.reason };
+  }
+
+  return { outcome: 'release', token: token! };
+}
+
+/**
+ * Moves the record to where `parked` says and drops its job; the operator, the
+ * approve endpoint or the scheduler queues it again. Returns the job result.
+ */
+export async function parkRelease(job: Queue.Job<BridgeJob>, record: BridgeDepositRecord, parked: ParkedRelease) {
+  const { reason } = parked;
+  let result: Record<string, unknown>;
+
+  switch (parked.outcome) {
+    case 'hold':
+      logger.warn(`${label(record)} ${record.deposit_id} held for review: ${reason}`);
+      await transitionDeposit(record, BridgeStatus.HELD_FOR_REVIEW, { actor: 'system:processor', failureReason: reason });
+      result = { success: false, held: true, reason };
+      break;
+    case 'refund':
+      await transitionDeposit(record, BridgeStatus.REFUND_REQUIRED, { actor: 'system:processor', failureReason: reason });
+      result = { success: false, refundRequired: true, reason };
+      break;
+    case 'approval':
+      logger.info(`${label(record)} ${record.deposit_id} awaiting approval: ${reason}`);
+      await transitionDeposit(record, BridgeStatus.AWAITING_APPROVAL, { actor: 'system:processor', reason });
+      result = { success: false, awaitingApproval: true, reason };
+      break;
+    case 'paused': {
+      // Back to CONFIRMING; the scheduler queues it again, where it waits until an admin resumes
+      const { pause } = await pauseReleases(reason, 'system:outflow-limiter');
+      await transitionDeposit(record, BridgeStatus.CONFIRMING, {
+        actor: 'system:processor',
+        reason: `Releases paused: ${pause.reason}`,
+      });
+      result = { success: false, paused: true, reason: pause.reason };
+      break;
+    }
+  }
+
+  await job.discard();
+  return result;
+}
+
+// A failed release that never reached the chain stops counting against the outflow window; a sent one may still land
+export async function releaseUnsentOutflow(record: BridgeDepositRecord): Promise<void> {
+  const sent = await SimpleBridgeDB.getSignerTransactionHashes(releaseReference(record));
+  if (sent.length === 0) {
+    await releaseOutflow(releaseReference(record), record.token_address);
+  }
+}
+
+/**
+ * Stops all releases in both directions: deposits and withdrawals are still
+ * ingested and queued, but no worker takes jobs until resumeReleases. Keeps
+ * the reason of an earlier pause.
+ */
+export async function pauseReleases(reason: string, pausedBy: string): Promise<{ pause: ReleasePause; created: boolean }> {
+  const result = await setReleasePause(reason, pausedBy);
+  // Global, and without waiting for active jobs: this may run inside one
+  await getBridgeQueue().pause(false, true);
+  if (result.created) {
+    await raiseAlert('critical', 'Bridge releases paused', { reason, pausedBy });
+  }
+  return result;
+}
+
+/**
+ * Returns the pause that was lifted, or null if releases were not paused.
+ * The outflow window is left as it is, so a held release that still does not
+ * fit pauses releases again until older ones have aged out of the window.
+ */
+export async function resumeReleases(): Promise<ReleasePause | null> {
+  const pause = await clearReleasePause();
+  await getBridgeQueue().resume();
+  return pause;
+}
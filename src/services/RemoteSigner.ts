@@ -0,0 +1,155 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+
+export class RemoteSignerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteSignerError';
+  }
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+// eth_signTransaction answers with the raw transaction (Web3Signer) or { raw, tx } (geth/clef)
+type SignTransactionResult = string | { raw: string };
+
+/**
+ * Signs through an external signing service speaking Web3Signer-style JSON-RPC
+ * (eth_accounts, eth_signTransaction, eth_sign, eth_signTypedData), so the key
+ * never lives in this process. Everything the service signs is decoded and
+ * checked against the request before it is used.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  private requestId = 0;
+
+  constructor(
+    readonly url: string,
+    readonly address: string,
+    provider: ethers.Provider | null = null,
+    private readonly timeoutMs: number = parseInt(process.env.REMOTE_SIGNER_TIMEOUT_MS || '10000')
+  ) {
+    super(provider);
+    this.address = ethers.getAddress(address);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.url, this.address, provider, this.timeoutMs);
+  }
+
+  // Fails unless the service is reachable and holds the key for our address
+  async assertAvailable(): Promise<void> {
+    const accounts = await this.rpc<string[]>('eth_accounts', []);
+    if (!accounts.some(account => account.toLowerCase() === this.address.toLowerCase())) {
+      throw new RemoteSignerError(`Remote signer at ${this.url} does not hold a key for ${this.address}`);
+    }
+  }
+
+  async signTransaction(request: ethers.TransactionRequest): Promise<string> {
+    const { to, from } = await ethers.resolveProperties({
+      to: request.to ? ethers.resolveAddress(request.to, this.provider) : undefined,
+      from: request.from ? ethers.resolveAddress(request.from, this.provider) : undefined,
+    });
+    if (from && ethers.getAddress(from) !== this.address) {
+      throw new RemoteSignerError(`Transaction from ${from} cannot be signed by ${this.address}`);
+    }
+
+    if (request.nonce == null) {
+      throw new RemoteSignerError('Remote signing needs an explicit nonce');
+    }
+    const tx = ethers.Transaction.from({ ...ethers.copyRequest(request), to: to ?? null, from: undefined } as unknown as ethers.TransactionLike<string>);
+
+    const params: Record<string, string> = {
+      from: this.address,
+      gas: ethers.toQuantity(tx.gasLimit),
+      nonce: ethers.toQuantity(tx.nonce),
+      value: ethers.toQuantity(tx.value),
+      data: tx.data,
+    };
+    if (tx.to) {
+      params.to = tx.to;
+    }
+    if (tx.inferType() < 2) {
+      params.gasPrice = ethers.toQuantity(tx.gasPrice ?? 0n);
+    } else {
+      params.maxFeePerGas = ethers.toQuantity(tx.maxFeePerGas ?? 0n);
+      params.maxPriorityFeePerGas = ethers.toQuantity(tx.maxPriorityFeePerGas ?? 0n);
+    }
+
+    const result = await this.rpc<SignTransactionResult>('eth_signTransaction', [params]);
+    const raw = typeof result === 'string' ? result : result.raw;
+    this.assertMatches(tx, ethers.Transaction.from(raw), request.chainId != null);
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = ethers.hexlify(typeof message === 'string' ? ethers.toUtf8Bytes(message) : message);
+    const signature = await this.rpc<string>('eth_sign', [this.address, data]);
+    if (ethers.verifyMessage(ethers.getBytes(data), signature) !== this.address) {
+      throw new RemoteSignerError('Remote signer returned a message signature from another key');
+    }
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    const signature = await this.rpc<string>('eth_signTypedData', [this.address, JSON.stringify(payload)]);
+    if (ethers.verifyTypedData(domain, types, value, signature) !== this.address) {
+      throw new RemoteSignerError('Remote signer returned a typed data signature from another key');
+    }
+    return signature;
+  }
+
+  // A compromised or misconfigured service must not get a different transaction broadcast in our name
+  private assertMatches(requested: ethers.Transaction, signed: ethers.Transaction, checkChainId: boolean): void {
+    const mismatches: string[] = [];
+    if (signed.from !== this.address) mismatches.push(`from ${signed.from}`);
+    if ((signed.to ?? null) !== (requested.to ?? null)) mismatches.push(`to ${signed.to}`);
+    if (signed.nonce !== requested.nonce) mismatches.push(`nonce ${signed.nonce}`);
+    if (signed.value !== requested.value) mismatches.push(`value ${signed.value}`);
+    if (signed.data !== requested.data) mismatches.push('data');
+    if (signed.gasLimit !== requested.gasLimit) mismatches.push(`gas ${signed.gasLimit}`);
+    if (checkChainId && signed.chainId !== requested.chainId) mismatches.push(`chainId ${signed.chainId}`);
+    if (signed.gasPrice !== requested.gasPrice) mismatches.push(`gasPrice ${signed.gasPrice}`);
+    if (signed.maxFeePerGas !== requested.maxFeePerGas) mismatches.push(`maxFeePerGas ${signed.maxFeePerGas}`);
+    if (signed.maxPriorityFeePerGas !== requested.maxPriorityFeePerGas) {
+      mismatches.push(`maxPriorityFeePerGas ${signed.maxPriorityFeePerGas}`);
+    }
+
+    if (mismatches.length > 0) {
+      throw new RemoteSignerError(`Remote signer returned a transaction that differs from the request: ${mismatches.join(', ')}`);
+    }
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    let response;
+    try {
+      response = await axios.post<JsonRpcResponse<T>>(
+        this.url,
+        { jsonrpc: '2.0', id: ++this.requestId, method, params },
+        { timeout: this.timeoutMs }
+      );
+    } catch (error) {
+      throw new RemoteSignerError(`Remote signer request ${method} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const { result, error } = response.data;
+    if (error) {
+      throw new RemoteSignerError(`Remote signer refused ${method}: ${error.message} (${error.code})`);
+    }
+    if (result === undefined || result === null) {
+      throw new RemoteSignerError(`Remote signer returned no result for ${method}`);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,112 @@
+import { logger } from '@/utils/logger';
+import { raiseAlert } from '@/utils/alerts';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { BridgeStatus } from '@/types/bridge';
+import { canTransition, transitionDeposit } from './DepositStateMachine';
+
+// Statuses in which the L2 release may already have happened; nothing before SUBMITTED touches L2
+const RELEASED_OR_IN_FLIGHT: BridgeStatus[] = [BridgeStatus.SUBMITTED, BridgeStatus.COMPLETED];
+
+// Minimal provider surface needed to compare block hashes (ethers providers satisfy it)
+export interface BlockHashProvider {
+  getBlock(blockNumber: number): Promise<{ hash: string | null } | null>;
+}
+
+/**
+ * Tracks hashes of ingested L1 blocks and detects when one of them is replaced
+ * by a reorg. Deposits from orphaned blocks are marked REORGED; if they were
+ * already released on L2 an alert is raised, since that mint is now unbacked.
+ */
+export class ReorgDetector {
+  private provider: BlockHashProvider;
+  private checkDepth: number;
+
+  constructor(provider: BlockHashProvider) {
+    this.provider = provider;
+    this.checkDepth = parseInt(process.env.REORG_CHECK_DEPTH || '64');
+  }
+
+  async recordBlock(blockNumber: number, blockHash: string): Promise<void> {
+    await SimpleBridgeDB.saveBlockHash(blockNumber, blockHash);
+  }
+
+  /**
+   * Compares stored hashes within checkDepth of the head against the chain.
+   * Returns the first block whose hash changed (after handling the orphaned
+   * deposits), or null if the stored history is still canonical.
+   */
+  async detectReorg(headBlock: number): Promise<number | null> {
+    const trackedBlocks = await SimpleBridgeDB.getBlockHashesFrom(Math.max(0, headBlock - this.checkDepth));
+
+    for (const tracked of trackedBlocks) {
+      const block = await this.provider.getBlock(tracked.blockNumber);
+      if (block?.hash === tracked.blockHash) {
+        continue;
+      }
+
+      console.log(`🔀 L1 reorg detected at block ${tracked.blockNumber}`);
+      logger.warn('L1 reorg detected', {
+        blockNumber: tracked.blockNumber,
+        storedHash: tracked.blockHash,
+        canonicalHash: block?.hash ?? null,
+      });
+
+      await this.handleReorg(tracked.blockNumber);
+      return tracked.blockNumber;
+    }
+
+    return null;
+  }
+
+  private async handleReorg(forkBlock: number): Promise<void> {
+    const deposits = await SimpleBridgeDB.getDepositsFromBlock(forkBlock);
+    const canonicalHashes = new Map<number, string | null>();
+
+    for (const deposit of deposits) {
+      const blockNumber = Number(deposit.block_number);
+      if (!canonicalHashes.has(blockNumber)) {
+        const block = await this.provider.getBlock(blockNumber);
+        canonicalHashes.set(blockNumber, block?.hash ?? null);
+      }
+
+      // Legacy rows without a stored hash cannot be judged and are left alone
+      if (!deposit.block_hash || canonicalHashes.get(blockNumber) === deposit.block_hash) {
+        continue;
+      }
+
+      // Cancelled deposits were never released, so there is nothing left to undo
+      if (!canTransition(deposit.status, BridgeStatus.REORGED)) {
+        logger.warn(`Deposit ${deposit.deposit_id} (${deposit.status}) is in a reorged block`);
+        continue;
+      }
+
+      const previousStatus = deposit.status;
+      // A release tx from an earlier attempt counts too, e.g. a FAILED deposit being retried
+      const wasReleased = RELEASED_OR_IN_FLIGHT.includes(previousStatus) || Boolean(deposit.l2_tx_hash || deposit.completed_tx_hash);
+      const reason = `L1 block ${blockNumber} (${deposit.block_hash}) was reorged out`;
+
+      await transitionDeposit(deposit, BridgeStatus.REORGED, {
+        actor: 'system:reorg-detector',
+        failureReason: reason,
+      });
+
+      if (wasReleased) {
+        await raiseAlert('critical', `Released deposit ${deposit.deposit_id} was reorged out of L1`, {
+          depositId: deposit.deposit_id,
+          previousStatus,
+          user: deposit.user_address,
+          token: deposit.token_address,
+          amount: deposit.amount,
+          l1TxHash: deposit.tx_hash,
+          blockNumber,
+          orphanedBlockHash: deposit.block_hash,
+        });
+      } else {
+        logger.warn(`Deposit ${deposit.deposit_id} cancelled: ${reason}`);
+      }
+    }
+
+    // Forget the orphaned history so the re-ingested blocks are tracked afresh
+    await SimpleBridgeDB.deleteBlockHashesFrom(forkBlock);
+  }
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { logger } from '@/utils/logger';
+import { parseSiweMessage, SiweMessage } from '@/utils/siwe';
+import { AuthError, startSession } from './AdminAuth';
+import { AdminUserRecord, AuthTokens } from '@/types/auth';
+
+// Tolerated difference between the wallet's clock and ours
+const CLOCK_SKEW_MS = 60 * 1000;
+
+const nonceKey = (nonce: string) => `siwe:nonce:${nonce}`;
+const nonceTtlSeconds = () => parseInt(process.env.SIWE_NONCE_TTL_SECONDS || '300');
+const allowedDomains = () => (process.env.SIWE_DOMAINS || 'localhost:5173').split(',').map(domain => domain.trim());
+const expectedChainId = () => parseInt(process.env.SIWE_CHAIN_ID || '11155111');
+
+// Issues a nonce for the next SIWE message; it can be used once, within SIWE_NONCE_TTL_SECONDS
+export async function issueSiweNonce(): Promise<{ nonce: string; expiresAt: Date; chainId: number }> {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  await getRedisClient().set(nonceKey(nonce), '1', { EX: nonceTtlSeconds(), NX: true });
+
+  return {
+    nonce,
+    expiresAt: new Date(Date.now() + nonceTtlSeconds() * 1000),
+    chainId: expectedChainId(),
+  };
+}
+
+/**
+ * Verifies a signed EIP-4361 message and opens a session for the admin whose
+ * wallet signed it. The nonce is consumed before anything else is checked, so
+ * a message can only ever be tried once.
+ */
+export async function loginWithEthereum(
+  message: string,
+  signature: string,
+  ip: string | null
+): Promise<{ user: AdminUserRecord; tokens: AuthTokens }> {
+  let siwe: SiweMessage;
+  try {
+    siwe = parseSiweMessage(message);
+  } catch (error) {
+    throw new AuthError(`Invalid SIWE message: ${error instanceof Error ? error.message : 'unparseable'}`);
+  }
+
+  const issued = await getRedisClient().getDel(nonceKey(siwe.nonce));
+  if (!issued) {
+    throw new AuthError('Unknown, used or expired nonce');
+  }
+
+  assertMessageAcceptable(siwe);
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(message, signature);
+  } catch {
+    throw new AuthError('Invalid signature');
+  }
+  if (signer !== siwe.address) {
+    throw new AuthError('Signature does not match the message address');
+  }
+
+  const user = await SimpleBridgeDB.getAdminUserByWallet(signer);
+  if (!user || user.disabled) {
+    logger.warn(`SIWE login from non-admin address ${signer} (${ip ?? 'unknown'})`);
+    throw new AuthError('Address is not an allowed admin');
+  }
+
+  await SimpleBridgeDB.recordAdminLogin(String(user.id));
+  const tokens = await startSession(user, ip);
+  logger.info(`Admin ${user.username} signed in with ${signer} from ${ip ?? 'unknown'}`);
+
+  return { user, tokens };
+}
+
+// Rejects messages meant for another site or chain, or outside their validity window
+export function assertMessageAcceptable(siwe: SiweMessage, now: Date = new Date()): void {
+  if (!allowedDomains().includes(siwe.domain)) {
+    throw new AuthError(`Domain ${siwe.domain} is not allowed`);
+  }
+  if (siwe.version !== '1') {
+    throw new AuthError(`Unsupported SIWE version ${siwe.version}`);
+  }
+  if (siwe.chainId !== expectedChainId()) {
+    throw new AuthError(`Chain ID ${siwe.chainId} is not allowed`);
+  }
+
+  const time = now.getTime();
+  if (siwe.issuedAt.getTime() > time + CLOCK_SKEW_MS) {
+    throw new AuthError('Message is issued in the future');
+  }
+  if (siwe.expirationTime && siwe.expirationTime.getTime() <= time - CLOCK_SKEW_MS) {
+    throw new AuthError('Message has expired');
+  }
+  if (siwe.notBefore && siwe.notBefore.getTime() > time + CLOCK_SKEW_MS) {
+    throw new AuthError('Message is not valid yet');
+  }
+}
@@ -0,0 +1,154 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { getL1Provider } from '@/config/providers';
+import { logger } from '@/utils/logger';
+import { TokenMetadata } from '@/types/bridge';
+
+const NATIVE_METADATA: Omit<TokenMetadata, 'address'> = { name: 'Ether', symbol: 'ETH', decimals: 18 };
+
+const metadataKey = (token: string) => `token:metadata:${token}`;
+
+// Function selectors only; return values are decoded by hand to cope with non-standard tokens
+const erc20Interface = new ethers.Interface([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+]);
+
+// Metadata never changes once read, so it is kept for the lifetime of the process
+const memoryCache = new Map<string, TokenMetadata>();
+
+/**
+ * The token's contract does not answer name/symbol/decimals in any form we can
+ * use. Retrying will not help; deposits of the token need an operator.
+ */
+export class TokenMetadataError extends Error {
+  constructor(readonly token: string, detail: string) {
+    super(`Could not read metadata for token ${token}: ${detail}`);
+    this.name = 'TokenMetadataError';
+  }
+}
+
+/**
+ * Decodes a name() or symbol() return value. Most tokens return a string; some
+ * older ones (MKR, SAI) declare bytes32, padded with trailing zero bytes.
+ */
+export function decodeTokenString(data: string): string {
+  let value: string;
+  try {
+    [value] = ethers.AbiCoder.defaultAbiCoder().decode(['string'], data) as unknown as [string];
+  } catch {
+    if (ethers.dataLength(data) !== 32) {
+      throw new Error('return value is neither string nor bytes32');
+    }
+    const bytes = ethers.getBytes(data);
+    const end = bytes.indexOf(0);
+    value = ethers.toUtf8String(end === -1 ? bytes : bytes.slice(0, end));
+  }
+
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new Error('empty value');
+  }
+  return trimmed;
+}
+
+export function decodeTokenDecimals(data: string): number {
+  const [value] = ethers.AbiCoder.defaultAbiCoder().decode(['uint256'], data) as unknown as [bigint];
+  if (value > 255n) {
+    throw new Error(`implausible decimals ${value}`);
+  }
+  return Number(value);
+}
+
+/**
+ * Reads metadata from the chain. A revert or an undecodable answer is a
+ * TokenMetadataError; provider/network errors are rethrown as they are so the
+ * caller can retry them.
+ */
+export async function readTokenMetadata(token: string, provider: ethers.Provider): Promise<TokenMetadata> {
+  const call = async (method: 'name' | 'symbol' | 'decimals'): Promise<string> => {
+    try {
+      const data = await provider.call({ to: token, data: erc20Interface.encodeFunctionData(method) });
+      if (data === '0x') {
+        throw new TokenMetadataError(token, `${method}() returned nothing`);
+      }
+      return data;
+    } catch (error) {
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        throw new TokenMetadataError(token, `${method}() reverted`);
+      }
+      throw error;
+    }
+  };
+
+  const [nameData, symbolData, decimalsData] = await Promise.all([call('name'), call('symbol'), call('decimals')]);
+
+  const decode = <T>(method: string, decoder: (data: string) => T, data: string): T => {
+    try {
+      return decoder(data);
+    } catch (error) {
+      throw new TokenMetadataError(token, `${method}(): ${error instanceof Error ? error.message : 'undecodable'}`);
+    }
+  };
+
+  return {
+    address: token.toLowerCase(),
+    name: decode('name', decodeTokenString, nameData),
+    symbol: decode('symbol', decodeTokenString, symbolData),
+    decimals: decode('decimals', decodeTokenDecimals, decimalsData),
+  };
+}
+
+async function readCachedMetadata(key: string): Promise<TokenMetadata | null> {
+  try {
+    const cached = await getRedisClient().get(metadataKey(key));
+    return cached ? JSON.parse(cached) as TokenMetadata : null;
+  } catch (error) {
+    logger.warn(`Token metadata cache read failed for ${key}:`, error);
+    return null;
+  }
+}
+
+async function writeCachedMetadata(metadata: TokenMetadata): Promise<void> {
+  try {
+    await getRedisClient().set(metadataKey(metadata.address), JSON.stringify(metadata));
+  } catch (error) {
+    logger.warn(`Token metadata cache write failed for ${metadata.address}:`, error);
+  }
+}
+
+/**
+ * Metadata of an L1 token, looked up in memory, then Redis, then Postgres, and
+ * only read from the chain the first time. Throws TokenMetadataError instead of
+ * making up a name when the token does not provide one.
+ */
+export async function getTokenMetadata(token: string): Promise<TokenMetadata> {
+  const key = token.toLowerCase();
+  if (key === ethers.ZeroAddress) {
+    return { address: key, ...NATIVE_METADATA };
+  }
+
+  const inMemory = memoryCache.get(key);
+  if (inMemory) {
+    return inMemory;
+  }
+
+  let metadata = await readCachedMetadata(key);
+  if (!metadata) {
+    const stored = await SimpleBridgeDB.getTokenMetadata(key);
+    if (stored) {
+      metadata = { address: stored.address, name: stored.name, symbol: stored.symbol, decimals: stored.decimals };
+    } else {
+      const read = await readTokenMetadata(key, getL1Provider());
+      const saved = await SimpleBridgeDB.saveTokenMetadata(read);
+      metadata = { address: saved.address, name: saved.name, symbol: saved.symbol, decimals: saved.decimals };
+      logger.info(`Token metadata for ${key}: ${metadata.name} (${metadata.symbol}), ${metadata.decimals} decimals`);
+    }
+    await writeCachedMetadata(metadata);
+  }
+
+  memoryCache.set(key, metadata);
+  return metadata;
+}
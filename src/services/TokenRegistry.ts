@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { logger } from '@/utils/logger';
+import { BridgeTokenRecord, TokenConfig } from '@/types/bridge';
+
+export function toTokenConfig(token: BridgeTokenRecord): TokenConfig {
+  return {
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    l1Address: token.l1_address,
+    ...(token.l2_address && { l2Address: token.l2_address }),
+    minBridgeAmount: BigInt(token.min_amount),
+    maxBridgeAmount: BigInt(token.max_amount),
+    isNative: token.is_native,
+  };
+}
+
+// Why a deposit of this token must wait for an operator, or null if it may be released
+export function tokenHoldReason(l1Address: string, token: BridgeTokenRecord | null): string | null {
+  if (!token) {
+    return `Token ${l1Address} is not in the token registry`;
+  }
+  if (!token.enabled) {
+    return `Token ${token.symbol} (${l1Address}) is disabled`;
+  }
+  if (token.paused) {
+    return `Token ${token.symbol} (${l1Address}) is paused`;
+  }
+  return null;
+}
+
+/**
+ * Lists native ETH on an empty registry, with the limits previously read from
+ * MIN_BRIDGE_AMOUNT / MAX_BRIDGE_AMOUNT. ERC20 tokens are added by admins.
+ */
+export async function seedTokenRegistry(): Promise<void> {
+  const existing = await SimpleBridgeDB.listBridgeTokens();
+  if (existing.length > 0) {
+    return;
+  }
+
+  const created = await SimpleBridgeDB.createBridgeToken({
+    l1Address: ethers.ZeroAddress,
+    l2Address: ethers.ZeroAddress,
+    symbol: 'ETH',
+    name: 'Ether',
+    decimals: 18,
+    minAmount: ethers.parseEther(process.env.MIN_BRIDGE_AMOUNT || '0.001').toString(),
+    maxAmount: ethers.parseEther(process.env.MAX_BRIDGE_AMOUNT || '1000').toString(),
+    isNative: true,
+    enabled: true,
+    paused: false,
+  });
+  if (created) {
+    logger.info('Token registry seeded with native ETH');
+  }
+}
+
+// Records the wrapped token the L2 bridge created for an L1 token
+export async function recordTokenCreated(l1Token: string, l2Token: string): Promise<void> {
+  const updated = await SimpleBridgeDB.setBridgeTokenL2Address(l1Token, l2Token);
+  if (updated) {
+    logger.info(`Token registry: ${l1Token} is bridged as ${l2Token} on L2`);
+  }
+}
+
+// API shape of a registry entry; amounts stay in base units
+export function toTokenView(token: BridgeTokenRecord) {
+  return {
+    l1Address: token.l1_address,
+    l2Address: token.l2_address,
+    symbol: token.symbol,
+    name: token.name,
+    decimals: token.decimals,
+    minAmount: token.min_amount,
+    maxAmount: token.max_amount,
+    isNative: token.is_native,
+    enabled: token.enabled,
+    paused: token.paused,
+    approvalThreshold: token.approval_threshold,
+    outflowLimit: token.outflow_limit,
+    referencePrice: token.reference_price,
+    createdAt: token.created_at,
+    updatedAt: token.updated_at,
+  };
+}
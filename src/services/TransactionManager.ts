@@ -0,0 +1,289 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { logger } from '@/utils/logger';
+import { BridgeChain, SignerTransactionRecord } from '@/types/bridge';
+import { capFees, chainConfigFor, Fees, gasLimitFor } from './GasPolicy';
+
+const pollIntervalMs = () => parseInt(process.env.TX_POLL_INTERVAL_MS || '5000');
+const stuckAfterMs = () => parseInt(process.env.TX_STUCK_AFTER_MS || '180000');
+const confirmTimeoutMs = () => parseInt(process.env.TX_CONFIRM_TIMEOUT_MS || '900000');
+const maxReplacements = () => parseInt(process.env.TX_MAX_REPLACEMENTS || '5');
+// Nodes refuse a same-nonce replacement that does not raise the fee by at least 10%
+const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+const gasBumpPercent = () => Math.max(MIN_REPLACEMENT_BUMP_PERCENT, parseInt(process.env.TX_GAS_BUMP_PERCENT || '20'));
+
+export interface TransactionRequest {
+  to: string;
+  data: string;
+  value?: bigint;
+}
+
+export interface SendOptions {
+  // Called after each successful broadcast, replacements included
+  onBroadcast?: (txHash: string) => Promise<void>;
+  // Pay what the network asks even above the chain's maxGasPrice
+  urgent?: boolean;
+}
+
+// Still unmined when the wait ran out; sending again with the same reference resumes it
+export class TransactionPendingError extends Error {
+  constructor(readonly reference: string, readonly txHash: string | null, readonly nonce: string) {
+    super(`Transaction for ${reference} (nonce ${nonce}, ${txHash ?? 'not broadcast'}) is still pending`);
+    this.name = 'TransactionPendingError';
+  }
+}
+
+// The nonce was used by a transaction this manager did not send
+export class TransactionReplacedError extends Error {
+  constructor(readonly reference: string, readonly nonce: string) {
+    super(`Nonce ${nonce} for ${reference} was used by another transaction`);
+    this.name = 'TransactionReplacedError';
+  }
+}
+
+export function bumpFees(previous: Fees, current: Fees, percent: number): Fees {
+  const bump = (value: bigint) => (value * BigInt(100 + percent)) / 100n;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+  if (previous.maxPriorityFeePerGas === null) {
+    return { maxFeePerGas: max(bump(previous.maxFeePerGas), current.maxFeePerGas), maxPriorityFeePerGas: null };
+  }
+
+  const maxPriorityFeePerGas = max(bump(previous.maxPriorityFeePerGas), current.maxPriorityFeePerGas ?? 0n);
+  const maxFeePerGas = max(max(bump(previous.maxFeePerGas), current.maxFeePerGas), maxPriorityFeePerGas);
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+function recordFees(record: SignerTransactionRecord): Fees {
+  return {
+    maxFeePerGas: BigInt(record.max_fee_per_gas),
+    maxPriorityFeePerGas: record.max_priority_fee_per_gas === null ? null : BigInt(record.max_priority_fee_per_gas),
+  };
+}
+
+/**
+ * Sends transactions for one signer. Nonces are reserved in signer_transactions
+ * rather than taken from the node, so concurrent jobs never race on them and a
+ * restart picks up where it left off. Each send is watched until one of its
+ * hashes is mined: a transaction pending longer than TX_STUCK_AFTER_MS is
+ * replaced at a higher fee, one the node has dropped is broadcast again, and a
+ * nonce taken by somebody else's transaction is reported as replaced.
+ */
+export class TransactionManager {
+  constructor(
+    private readonly chain: BridgeChain,
+    private readonly signer: ethers.Signer,
+    private readonly provider: ethers.Provider
+  ) {}
+
+  /**
+   * Sends `request` and resolves with its receipt. `reference` identifies what
+   * the transaction is for (e.g. the deposit): if an earlier call for the same
+   * reference left a transaction pending, that one is watched instead of
+   * sending a second.
+   */
+  async send(reference: string, request: TransactionRequest, options: SendOptions = {}): Promise<ethers.TransactionReceipt> {
+    let record = await SimpleBridgeDB.getPendingSignerTransaction(reference);
+    if (record) {
+      logger.info(`Resuming ${this.chain} transaction for ${reference} at nonce ${record.nonce}`);
+    } else {
+      record = await this.reserve(reference, request, options);
+    }
+
+    if (!record.tx_hash) {
+      record = await this.broadcast(record, recordFees(record), false, options);
+    }
+
+    return this.waitForResolution(record, options);
+  }
+
+  async currentFees(): Promise<Fees> {
+    const feeData = await this.provider.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas };
+    }
+    if (feeData.gasPrice !== null) {
+      return { maxFeePerGas: feeData.gasPrice, maxPriorityFeePerGas: null };
+    }
+    throw new Error(`${this.chain} provider returned no fee data`);
+  }
+
+  // Fees within the chain's maxGasPrice unless the send is urgent
+  private allowedFees(fees: Fees, options: SendOptions): Fees {
+    return options.urgent ? fees : capFees(fees, chainConfigFor(this.chain));
+  }
+
+  // Estimates first, so a call that would revert (or needs more gas than allowed) fails before it takes a nonce
+  private async reserve(reference: string, request: TransactionRequest, options: SendOptions): Promise<SignerTransactionRecord> {
+    const from = await this.signer.getAddress();
+    const value = request.value ?? 0n;
+    const estimate = await this.provider.estimateGas({ from, to: request.to, data: request.data, value });
+    const gasLimit = gasLimitFor(estimate, chainConfigFor(this.chain));
+    const fees = this.allowedFees(await this.currentFees(), options);
+    const chainNonce = await this.provider.getTransactionCount(from, 'pending');
+
+    const record = await SimpleBridgeDB.reserveSignerTransaction({
+      chain: this.chain,
+      signer: from,
+      chainNonce,
+      reference,
+      to: request.to,
+      data: request.data,
+      value: value.toString(),
+      gasLimit: gasLimit.toString(),
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString() ?? null,
+    });
+    logger.info(`Reserved ${this.chain} nonce ${record.nonce} for ${reference}`);
+    return record;
+  }
+
+  /**
+   * Signs the stored transaction with `fees` and broadcasts it. The hash is
+   * stored before broadcasting so a crash never leaves a sent transaction
+   * untracked. If the very first broadcast is rejected and the node does not
+   * know the transaction, the nonce is given back and the error rethrown; later
+   * rejections are logged and left to the next check.
+   */
+  private async broadcast(
+    record: SignerTransactionRecord,
+    fees: Fees,
+    replacement: boolean,
+    options: SendOptions
+  ): Promise<SignerTransactionRecord> {
+    const firstBroadcast = record.tx_hash === null && record.previous_hashes.length === 0;
+    const { chainId } = await this.provider.getNetwork();
+    const signed = await this.signer.signTransaction({
+      chainId,
+      nonce: Number(record.nonce),
+      to: record.to_address,
+      data: record.data,
+      value: BigInt(record.value),
+      gasLimit: BigInt(record.gas_limit),
+      ...(fees.maxPriorityFeePerGas === null
+        ? { type: 0, gasPrice: fees.maxFeePerGas }
+        : { type: 2, maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas }),
+    });
+    const txHash = ethers.Transaction.from(signed).hash!;
+
+    const updated = await SimpleBridgeDB.recordSignerTransactionSent(record.id, {
+      txHash,
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas?.toString() ?? null,
+      replacement,
+    });
+
+    try {
+      await this.provider.broadcastTransaction(signed);
+    } catch (error) {
+      // Already known, nonce used or replacement underpriced: the next check sorts out which
+      if (!firstBroadcast || ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED')) {
+        logger.warn(`Broadcast of ${this.chain} tx ${txHash} for ${record.reference} rejected:`, error);
+        return updated;
+      }
+
+      const known = await this.provider.getTransaction(txHash).catch(() => undefined);
+      if (known === null) {
+        await SimpleBridgeDB.resolveSignerTransaction(record.id, {
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      throw error;
+    }
+
+    logger.info(`Broadcast ${this.chain} tx ${txHash} for ${record.reference} (nonce ${record.nonce}${replacement ? `, replacement ${updated.replacements}` : ''})`);
+    await options.onBroadcast?.(txHash);
+    return updated;
+  }
+
+  private async waitForResolution(record: SignerTransactionRecord, options: SendOptions): Promise<ethers.TransactionReceipt> {
+    const deadline = Date.now() + confirmTimeoutMs();
+
+    for (;;) {
+      const receipt = await this.checkOutcome(record);
+      if (receipt) {
+        return receipt;
+      }
+      if (Date.now() >= deadline) {
+        throw new TransactionPendingError(record.reference, record.tx_hash, record.nonce);
+      }
+
+      record = await this.unstick(record, options);
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs()));
+    }
+  }
+
+  /**
+   * Receipt of whichever of our hashes for this nonce was mined, or null while
+   * none is. The nonce count is read before the receipts, so a count past our
+   * nonce with no receipt means another transaction took it.
+   */
+  private async checkOutcome(record: SignerTransactionRecord): Promise<ethers.TransactionReceipt | null> {
+    const minedNonce = await this.provider.getTransactionCount(record.signer, 'latest');
+    const hashes = [record.tx_hash, ...record.previous_hashes].filter((hash): hash is string => !!hash);
+
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (!receipt) {
+        continue;
+      }
+
+      if (receipt.status !== 1) {
+        await SimpleBridgeDB.resolveSignerTransaction(record.id, { status: 'REVERTED', ...this.resolution(receipt) });
+        throw new Error(`${this.chain} transaction ${hash} for ${record.reference} reverted in block ${receipt.blockNumber}`);
+      }
+
+      await SimpleBridgeDB.resolveSignerTransaction(record.id, { status: 'MINED', ...this.resolution(receipt) });
+      return receipt;
+    }
+
+    if (minedNonce > Number(record.nonce)) {
+      logger.warn(`${this.chain} nonce ${record.nonce} for ${record.reference} was used by a transaction we did not send`);
+      await SimpleBridgeDB.resolveSignerTransaction(record.id, { status: 'REPLACED', error: 'Nonce used by another transaction' });
+      throw new TransactionReplacedError(record.reference, record.nonce);
+    }
+
+    return null;
+  }
+
+  // Gas is recorded for reverted transactions too: they cost as much as mined ones
+  private resolution(receipt: ethers.TransactionReceipt) {
+    return {
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+    };
+  }
+
+  /**
+   * Replaces a transaction pending too long at a higher fee, and rebroadcasts
+   * one the node has dropped. A transaction too close to the fee cap is left
+   * to wait: a replacement that doesn't raise the fee enough would be refused.
+   */
+  private async unstick(record: SignerTransactionRecord, options: SendOptions): Promise<SignerTransactionRecord> {
+    const pendingMs = Date.now() - (record.last_sent_at?.getTime() ?? 0);
+    const stuck = pendingMs >= stuckAfterMs() && record.replacements < maxReplacements();
+    const known = record.tx_hash ? await this.provider.getTransaction(record.tx_hash) : null;
+
+    if (stuck) {
+      const previous = recordFees(record);
+      const bumped = bumpFees(previous, await this.currentFees(), gasBumpPercent());
+      const fees = this.allowedFees(bumped, options);
+      if (fees.maxFeePerGas < (previous.maxFeePerGas * BigInt(100 + MIN_REPLACEMENT_BUMP_PERCENT)) / 100n) {
+        logger.warn(`${this.chain} tx ${record.tx_hash} for ${record.reference} pending for ${Math.round(pendingMs / 1000)}s at the gas price cap, not replacing`);
+      } else {
+        logger.warn(`${this.chain} tx ${record.tx_hash} for ${record.reference} pending for ${Math.round(pendingMs / 1000)}s, replacing at max fee ${fees.maxFeePerGas}`);
+        return this.broadcast(record, fees, true, options);
+      }
+    }
+
+    if (!known) {
+      logger.warn(`${this.chain} tx ${record.tx_hash} for ${record.reference} was dropped by the node, broadcasting again`);
+      return this.broadcast(record, recordFees(record), false, options);
+    }
+
+    return record;
+  }
+}
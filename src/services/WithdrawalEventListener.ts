@@ -0,0 +1,194 @@
+import { ethers } from 'ethers';
+import { logger } from '@/utils/logger';
+import { WithdrawalProcessor } from './WithdrawalProcessor';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { L2WithdrawalEvent } from '@/types/bridge';
+import { BRIDGE_L2_ABI } from '@/config/abis';
+
+// Key under which the L2 withdrawal checkpoint is stored in bridge_sync_state
+const CHECKPOINT_KEY = 'l2_withdrawals';
+
+/**
+ * Polls the L2 bridge for WithdrawETH / WithdrawERC20 events with eth_getLogs.
+ *
+ * Blocks are scanned up to head, but the checkpoint only advances to
+ * head - L2_FINALITY_BLOCKS. Unfinalized blocks are therefore rescanned on every
+ * poll, which moves a withdrawal to its new block if L2 reorgs before release.
+ */
+export class WithdrawalEventListener {
+  private l2Provider: ethers.JsonRpcProvider;
+  private l2Contract: ethers.Contract;
+  private withdrawalProcessor: WithdrawalProcessor;
+  private isListening: boolean = false;
+  private isSyncing: boolean = false;
+  private lastProcessedBlock: number = 0;
+  private logChunkSize: number;
+  private pollIntervalMs: number;
+  private pollTimer: NodeJS.Timeout | undefined;
+
+  constructor(withdrawalProcessor: WithdrawalProcessor) {
+    this.withdrawalProcessor = withdrawalProcessor;
+
+    const l2RpcUrl = process.env.L2_RPC_URL;
+    if (!l2RpcUrl) {
+      throw new Error('L2_RPC_URL not configured');
+    }
+
+    const l2BridgeContract = process.env.L2_BRIDGE_CONTRACT;
+    if (!l2BridgeContract) {
+      throw new Error('L2_BRIDGE_CONTRACT not configured');
+    }
+
+    this.l2Provider = new ethers.JsonRpcProvider(l2RpcUrl);
+    this.l2Contract = new ethers.Contract(l2BridgeContract, BRIDGE_L2_ABI, this.l2Provider);
+    this.logChunkSize = parseInt(process.env.L2_LOG_CHUNK_SIZE || '2000');
+    this.pollIntervalMs = parseInt(process.env.L2_POLL_INTERVAL_MS || '5000');
+  }
+
+  async start(): Promise<void> {
+    if (this.isListening) {
+      logger.warn('Withdrawal listener is already running');
+      return;
+    }
+
+    const currentBlock = await this.l2Provider.getBlockNumber();
+    this.lastProcessedBlock = await this.loadCheckpoint(currentBlock);
+
+    console.log(`⏪ Catching up on L2 withdrawals from block ${this.lastProcessedBlock + 1} to ${currentBlock}...`);
+    await this.catchUp(currentBlock);
+
+    this.isListening = true;
+    this.schedulePoll();
+
+    logger.info(`Withdrawal listener started (L2 contract ${process.env.L2_BRIDGE_CONTRACT}, checkpoint ${this.lastProcessedBlock})`);
+  }
+
+  async stop(): Promise<void> {
+    this.isListening = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+
+    logger.info('Withdrawal listener stopped');
+  }
+
+  private schedulePoll(): void {
+    this.pollTimer = setTimeout(async () => {
+      try {
+        const blockNumber = await this.l2Provider.getBlockNumber();
+        await this.catchUp(blockNumber);
+      } catch (error) {
+        console.log('❌ L2 poll failed:', error);
+        logger.error('L2 poll failed:', error);
+      } finally {
+        if (this.isListening) {
+          this.schedulePoll();
+        }
+      }
+    }, this.pollIntervalMs);
+  }
+
+  private async loadCheckpoint(currentBlock: number): Promise<number> {
+    const checkpoint = await SimpleBridgeDB.getLastProcessedBlock(CHECKPOINT_KEY);
+    if (checkpoint !== null) {
+      return checkpoint;
+    }
+
+    const startBlock = process.env.L2_BRIDGE_START_BLOCK;
+    const initialCheckpoint = startBlock ? parseInt(startBlock) - 1 : currentBlock;
+    if (!startBlock) {
+      logger.warn(`No L2 checkpoint found and L2_BRIDGE_START_BLOCK not set, starting from head ${currentBlock}`);
+    }
+
+    await SimpleBridgeDB.saveLastProcessedBlock(CHECKPOINT_KEY, initialCheckpoint);
+    return initialCheckpoint;
+  }
+
+  private async catchUp(toBlock: number): Promise<void> {
+    if (this.isSyncing) {
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      const finalizedBlock = toBlock - this.withdrawalProcessor.requiredConfirmations;
+      let fromBlock = this.lastProcessedBlock + 1;
+
+      while (fromBlock <= toBlock) {
+        const chunkEnd = Math.min(fromBlock + this.logChunkSize - 1, toBlock);
+
+        const processed = await this.processBlockRange(fromBlock, chunkEnd);
+        if (processed > 0) {
+          console.log(`📊 Processed ${processed} withdrawal(s) in L2 blocks ${fromBlock}-${chunkEnd}`);
+        }
+
+        const checkpoint = Math.min(chunkEnd, finalizedBlock);
+        if (checkpoint > this.lastProcessedBlock) {
+          await SimpleBridgeDB.saveLastProcessedBlock(CHECKPOINT_KEY, checkpoint);
+          this.lastProcessedBlock = checkpoint;
+          logger.debug(`L2 checkpoint advanced to block ${checkpoint}`);
+        }
+
+        fromBlock = chunkEnd + 1;
+      }
+    } catch (error) {
+      console.log('❌ Error catching up on L2 withdrawals:', error);
+      logger.error(`Withdrawal catch-up stopped at checkpoint ${this.lastProcessedBlock}:`, error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  private async processBlockRange(fromBlock: number, toBlock: number): Promise<number> {
+    const withdrawETHTopic = this.l2Contract.interface.getEvent('WithdrawETH')!.topicHash;
+    const withdrawERC20Topic = this.l2Contract.interface.getEvent('WithdrawERC20')!.topicHash;
+
+    const logs = await this.l2Provider.getLogs({
+      address: await this.l2Contract.getAddress(),
+      topics: [[withdrawETHTopic, withdrawERC20Topic]],
+      fromBlock,
+      toBlock,
+    });
+
+    const sortedLogs = [...logs].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    for (const log of sortedLogs) {
+      const withdrawal = this.parseWithdrawalLog(log);
+      if (withdrawal) {
+        await this.withdrawalProcessor.processL2Withdrawal(withdrawal);
+      }
+    }
+
+    return sortedLogs.length;
+  }
+
+  private parseWithdrawalLog(log: ethers.Log): L2WithdrawalEvent | null {
+    const parsed = this.l2Contract.interface.parseLog(log);
+    if (!parsed) {
+      return null;
+    }
+
+    const isETH = parsed.name === 'WithdrawETH';
+    return {
+      withdrawalId: parsed.args.withdrawalId,
+      user: parsed.args.user,
+      token: isETH ? ethers.ZeroAddress : parsed.args.l1Token,
+      l2Token: isETH ? null : parsed.args.l2Token,
+      amount: parsed.args.amount,
+      nonce: parsed.args.nonce,
+      timestamp: parsed.args.timestamp,
+      transactionHash: log.transactionHash,
+      blockNumber: BigInt(log.blockNumber),
+      blockHash: log.blockHash,
+      logIndex: log.index,
+    };
+  }
+
+  public getStatus() {
+    return {
+      isListening: this.isListening,
+      lastProcessedBlock: this.lastProcessedBlock,
+      provider: process.env.L2_RPC_URL || 'Unknown',
+    };
+  }
+}
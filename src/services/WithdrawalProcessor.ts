@@ -0,0 +1,363 @@
+import { ethers } from 'ethers';
+import Queue from 'bull';
+import { getBridgeQueue } from '@/config/redis';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { logger } from '@/utils/logger';
+import { L2WithdrawalEvent, BridgeJob, BridgeStatus, BridgeDepositRecord, BridgeTokenRecord } from '@/types/bridge';
+import { BRIDGE_L1_ABI, BRIDGE_L2_ABI } from '@/config/abis';
+import { L1ReleaseLookup, withdrawalReleaseReference } from './L1ReleaseLookup';
+import { ConfirmationTarget } from './DepositConfirmationScheduler';
+import { canTransition, transitionDeposit } from './DepositStateMachine';
+import { TransactionManager } from './TransactionManager';
+import { isUrgentRelease, releaseDeferral } from './GasPolicy';
+import { releaseOutflow, reserveOutflow } from './OutflowLimiter';
+import { checkRelease, parkRelease, releaseReference, releaseUnsentOutflow } from './ReleaseChecks';
+
+/**
+ * L2 -> L1 counterpart of BridgeProcessor. Withdrawals are stored as
+ * bridge_deposits rows with source_chain L2 and go through the same state
+ * machine (see DepositStateMachine); once L2_FINALITY_BLOCKS
+ * deep they are released on the L1 bridge by a dedicated L1 signer, through
+ * its own TransactionManager and within the L1 gas limits of the bridge config.
+ * Before that they pass the same checks as deposits (see ReleaseChecks).
+ */
+export class WithdrawalProcessor implements ConfirmationTarget {
+  private l1Provider: ethers.JsonRpcProvider;
+  private l2Provider: ethers.JsonRpcProvider;
+  private l2Interface: ethers.Interface;
+  private l1Contract: ethers.Contract;
+  private releaseSigner: ethers.Signer;
+  private queue!: Queue.Queue<BridgeJob>;
+  private l1ReleaseLookup: L1ReleaseLookup;
+  private l1Transactions: TransactionManager;
+  public readonly sourceChain = 'L2';
+  public readonly requiredConfirmations: number;
+
+  constructor(releaseSigner: ethers.Signer) {
+    const l1RpcUrl = process.env.L1_RPC_URL;
+    if (!l1RpcUrl) {
+      throw new Error('L1_RPC_URL not configured');
+    }
+
+    const l2RpcUrl = process.env.L2_RPC_URL;
+    if (!l2RpcUrl) {
+      throw new Error('L2_RPC_URL not configured');
+    }
+
+    this.l1Provider = new ethers.JsonRpcProvider(l1RpcUrl);
+    this.l2Provider = new ethers.JsonRpcProvider(l2RpcUrl);
+    this.l2Interface = new ethers.Interface(BRIDGE_L2_ABI);
+    this.requiredConfirmations = parseInt(process.env.L2_FINALITY_BLOCKS || '64');
+
+    // Separate signer from the BRIDGE one so the L1 vault signer can be scoped and rotated on its own
+    this.releaseSigner = releaseSigner.connect(this.l1Provider);
+
+    const l1BridgeContract = process.env.L1_BRIDGE_CONTRACT;
+    if (!l1BridgeContract) {
+      throw new Error('L1_BRIDGE_CONTRACT not configured');
+    }
+
+    this.l1Contract = new ethers.Contract(l1BridgeContract, BRIDGE_L1_ABI, this.releaseSigner);
+    this.l1ReleaseLookup = new L1ReleaseLookup(this.l1Contract, this.l1Provider);
+    this.l1Transactions = new TransactionManager('L1', this.releaseSigner, this.l1Provider);
+
+    this.initializeQueueProcessor();
+  }
+
+  // Unfinalized L2 blocks are rescanned, so the same withdrawal is usually seen several times
+  async processL2Withdrawal(event: L2WithdrawalEvent): Promise<void> {
+    // Errors propagate so the listener does not advance its checkpoint past an unsaved withdrawal
+    const isNew = await SimpleBridgeDB.saveWithdrawal({
+      withdrawalId: event.withdrawalId.toString(),
+      userAddress: event.user,
+      l1TokenAddress: event.token,
+      l2TokenAddress: event.l2Token,
+      amount: event.amount.toString(),
+      nonce: event.nonce.toString(),
+      txHash: event.transactionHash,
+      blockNumber: event.blockNumber.toString(),
+      blockHash: event.blockHash,
+      logIndex: event.logIndex,
+      timestamp: new Date(Number(event.timestamp) * 1000),
+    });
+
+    if (isNew) {
+      logger.info('L2 withdrawal recorded:', {
+        withdrawalId: event.withdrawalId.toString(),
+        user: event.user,
+        token: event.token,
+        amount: event.amount.toString(),
+        blockNumber: event.blockNumber.toString(),
+      });
+      console.log(`⏳ Withdrawal ${event.withdrawalId.toString()} pending ${this.requiredConfirmations} L2 confirmations`);
+    }
+  }
+
+  // Same claim-then-enqueue handshake as deposits; job ids are prefixed so they never collide with deposit ids
+  async enqueueConfirmed(withdrawal: BridgeDepositRecord): Promise<void> {
+    // Releases that can wait stay CONFIRMING while L1 gas costs more than the configured cap
+    const deferral = await releaseDeferral('L1', this.l1Provider, new Date(withdrawal.created_at));
+    if (deferral) {
+      logger.debug(`Deferring release of withdrawal ${withdrawal.deposit_id}: ${deferral}`);
+      return;
+    }
+
+    const claimed = await transitionDeposit(withdrawal, BridgeStatus.PROCESSING, {
+      actor: 'system:scheduler',
+      reason: `Reached ${this.requiredConfirmations} L2 confirmations`,
+    });
+    if (!claimed) {
+      logger.debug(`Withdrawal ${withdrawal.deposit_id} already claimed by another worker`);
+      return;
+    }
+
+    try {
+      await this.addJob(withdrawal);
+      logger.info(`Withdrawal ${withdrawal.deposit_id} queued for L1 release`);
+    } catch (error) {
+      await transitionDeposit({ ...withdrawal, status: BridgeStatus.PROCESSING }, BridgeStatus.CONFIRMING, {
+        actor: 'system:scheduler',
+        reason: 'Failed to queue release job',
+      });
+      throw error;
+    }
+  }
+
+  async retryFailed(withdrawal: BridgeDepositRecord, actor: string, reason?: string): Promise<boolean> {
+    const moved = await transitionDeposit(withdrawal, BridgeStatus.PROCESSING, {
+      actor,
+      reason: reason ?? 'Retry requested',
+    });
+    if (!moved) {
+      return false;
+    }
+
+    try {
+      await this.addJob(withdrawal);
+    } catch (error) {
+      // Hand the withdrawal to the scheduler rather than leave it PROCESSING with no job
+      await transitionDeposit({ ...withdrawal, status: BridgeStatus.PROCESSING }, BridgeStatus.CONFIRMING, {
+        actor,
+        reason: 'Failed to queue retry job',
+      });
+      throw error;
+    }
+    return true;
+  }
+
+  private async addJob(withdrawal: BridgeDepositRecord): Promise<void> {
+    const bridgeJob: BridgeJob = {
+      depositId: withdrawal.deposit_id,
+      user: withdrawal.user_address,
+      token: withdrawal.token_address,
+      amount: withdrawal.amount,
+      sourceChain: 'L2',
+      targetChain: 'L1',
+      txHash: withdrawal.tx_hash,
+      blockNumber: withdrawal.block_number,
+    };
+
+    const jobId = `withdrawal-${withdrawal.deposit_id}`;
+    const staleJob = await this.queue.getJob(jobId);
+    if (staleJob) {
+      await staleJob.remove();
+    }
+
+    await this.queue.add('process-withdrawal', bridgeJob, { jobId });
+  }
+
+  private initializeQueueProcessor(): void {
+    this.queue = getBridgeQueue();
+
+    this.queue.process('process-withdrawal', parseInt(process.env.QUEUE_CONCURRENCY || '5'), async (job: Queue.Job<BridgeJob>) => {
+      return await this.processWithdrawalJob(job);
+    });
+  }
+
+  private async processWithdrawalJob(job: Queue.Job<BridgeJob>): Promise<any> {
+    const bridgeJob = job.data;
+
+    try {
+      logger.info(`Processing withdrawal job ${bridgeJob.depositId} (attempt ${job.attemptsMade + 1})`);
+
+      let withdrawal = await SimpleBridgeDB.getDepositById(bridgeJob.depositId, 'L2');
+      if (!withdrawal || (withdrawal.status !== BridgeStatus.PROCESSING && withdrawal.status !== BridgeStatus.SUBMITTED)) {
+        logger.warn(`Skipping withdrawal job ${bridgeJob.depositId}: status is ${withdrawal?.status ?? 'missing'}`);
+        return { success: false, skipped: true };
+      }
+
+      const currentBlock = await this.l2Provider.getBlockNumber();
+      const confirmations = currentBlock - parseInt(withdrawal.block_number);
+      if (confirmations < this.requiredConfirmations) {
+        throw new Error(`Insufficient L2 confirmations: ${confirmations}/${this.requiredConfirmations}`);
+      }
+
+      // Never pay out on L1 for a withdrawal that was reorged out of L2
+      const isCanonical = await this.verifyWithdrawalOnChain(withdrawal);
+      if (!isCanonical) {
+        logger.warn(`Withdrawal ${bridgeJob.depositId} no longer found on the canonical L2 chain`);
+        await transitionDeposit(withdrawal, BridgeStatus.REORGED, {
+          actor: 'system:processor',
+          failureReason: 'Withdrawal log not found on canonical L2 chain',
+        });
+        return { success: false, reorged: true };
+      }
+
+      const amount = BigInt(withdrawal.amount);
+      if (amount <= 0n) {
+        const failureReason = `Invalid withdrawal amount ${withdrawal.amount}`;
+        await transitionDeposit(withdrawal, BridgeStatus.REFUND_REQUIRED, { actor: 'system:processor', failureReason });
+        await job.discard();
+        return { success: false, refundRequired: true, reason: failureReason };
+      }
+
+      // The same token, limit, approval and pause checks as a deposit; a SUBMITTED withdrawal passed them already
+      let token: BridgeTokenRecord | null = null;
+      if (withdrawal.status === BridgeStatus.PROCESSING) {
+        const check = await checkRelease(withdrawal);
+        if (check.outcome !== 'release') {
+          return parkRelease(job, withdrawal, check);
+        }
+        token = check.token;
+      }
+
+      // A previous attempt may have released on L1 before crashing; reconcile instead of resending
+      const withdrawalId = BigInt(withdrawal.deposit_id);
+      const existingRelease = await this.l1ReleaseLookup.findRelease(withdrawalId, withdrawal.token_address, withdrawal.user_address, amount);
+      if (existingRelease) {
+        console.log(`♻️  Withdrawal ${bridgeJob.depositId} already released on L1 in ${existingRelease.txHash}`);
+        const existingReceipt = await this.l1Provider.getTransactionReceipt(existingRelease.txHash);
+        if (existingReceipt) {
+          await this.recordL1Confirmation(bridgeJob.depositId, existingReceipt);
+        }
+        await transitionDeposit(withdrawal, BridgeStatus.COMPLETED, {
+          actor: 'system:processor',
+          reason: 'Existing L1 release found',
+          completedTxHash: existingRelease.txHash,
+        });
+        return { success: true, reconciled: true, l1TxHash: existingRelease.txHash };
+      }
+
+      if (withdrawal.status === BridgeStatus.PROCESSING) {
+        // Only a release about to be sent counts against the outflow limits; one over a limit pauses them all
+        const limitReason = await reserveOutflow(releaseReference(withdrawal), token!, amount);
+        if (limitReason !== null) {
+          return parkRelease(job, withdrawal, { outcome: 'paused', reason: limitReason });
+        }
+
+        const claimed = await transitionDeposit(withdrawal, BridgeStatus.SUBMITTED, {
+          actor: 'system:processor',
+          reason: 'Submitting L1 release',
+        });
+        if (!claimed) {
+          await releaseOutflow(releaseReference(withdrawal), withdrawal.token_address);
+          logger.warn(`Withdrawal ${bridgeJob.depositId} changed status before submission, skipping`);
+          return { success: false, skipped: true };
+        }
+        withdrawal = { ...withdrawal, status: BridgeStatus.SUBMITTED };
+      }
+
+      const l1TxHash = await this.releaseToL1(withdrawal);
+      await transitionDeposit(withdrawal, BridgeStatus.COMPLETED, {
+        actor: 'system:processor',
+        reason: 'L1 release confirmed',
+        completedTxHash: l1TxHash,
+      });
+
+      logger.info(`Withdrawal job completed for ${bridgeJob.depositId}`, {
+        originalTxHash: bridgeJob.txHash,
+        l1TxHash,
+      });
+
+      return { success: true, txHash: bridgeJob.txHash, l1TxHash };
+
+    } catch (error) {
+      logger.error(`Withdrawal job failed for ${bridgeJob.depositId}:`, error);
+
+      const failureReason = error instanceof Error ? error.message : 'Unknown error';
+      await SimpleBridgeDB.incrementRetryCount(bridgeJob.depositId, failureReason, 'L2');
+
+      const maxAttempts = job.opts.attempts ?? 1;
+      if (job.attemptsMade + 1 >= maxAttempts) {
+        const current = await SimpleBridgeDB.getDepositById(bridgeJob.depositId, 'L2');
+        if (current && canTransition(current.status, BridgeStatus.FAILED)) {
+          await transitionDeposit(current, BridgeStatus.FAILED, { actor: 'system:processor', failureReason });
+          await releaseUnsentOutflow(current);
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  // Confirms the withdrawal log is still in the same transaction and block on L2
+  private async verifyWithdrawalOnChain(withdrawal: BridgeDepositRecord): Promise<boolean> {
+    const receipt = await this.l2Provider.getTransactionReceipt(withdrawal.tx_hash);
+    if (!receipt || receipt.status !== 1 || receipt.blockHash !== withdrawal.block_hash) {
+      return false;
+    }
+
+    const l2BridgeAddress = process.env.L2_BRIDGE_CONTRACT!.toLowerCase();
+    return receipt.logs.some(log => {
+      if (log.address.toLowerCase() !== l2BridgeAddress) {
+        return false;
+      }
+      const parsed = this.l2Interface.parseLog(log);
+      return (parsed?.name === 'WithdrawETH' || parsed?.name === 'WithdrawERC20') &&
+        parsed.args.withdrawalId.toString() === withdrawal.deposit_id;
+    });
+  }
+
+  // Returns the L1 transaction hash of the release
+  private async releaseToL1(withdrawal: BridgeDepositRecord): Promise<string> {
+    const withdrawalId = BigInt(withdrawal.deposit_id);
+    const amount = BigInt(withdrawal.amount);
+    const isETH = withdrawal.token_address === ethers.ZeroAddress;
+
+    console.log(`🚀 Releasing ${isETH ? 'ETH' : `ERC20 ${withdrawal.token_address}`} on L1 to ${withdrawal.user_address}`);
+
+    const request = isETH
+      ? await this.l1Contract.getFunction('releaseETH').populateTransaction(withdrawalId, withdrawal.user_address, amount)
+      : await this.l1Contract.getFunction('releaseERC20').populateTransaction(
+        withdrawalId,
+        withdrawal.token_address,
+        withdrawal.user_address,
+        amount
+      );
+
+    // Keyed by withdrawal so a retried job picks up its pending transaction instead of paying out again
+    const receipt = await this.l1Transactions.send(
+      withdrawalReleaseReference(withdrawalId),
+      { to: request.to, data: request.data },
+      {
+        onBroadcast: async txHash => {
+          console.log(`📤 L1 release transaction sent: ${txHash}`);
+          await SimpleBridgeDB.recordL1ReleaseSubmission(withdrawal.deposit_id, txHash);
+        },
+        urgent: isUrgentRelease(new Date(withdrawal.created_at)),
+      }
+    );
+    await this.recordL1Confirmation(withdrawal.deposit_id, receipt);
+    console.log(`✅ L1 release confirmed in block: ${receipt.blockNumber}`);
+
+    logger.info('Withdrawal released on L1:', {
+      withdrawalId: withdrawal.deposit_id,
+      user: withdrawal.user_address,
+      token: withdrawal.token_address,
+      amount: withdrawal.amount,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    });
+
+    return receipt.hash;
+  }
+
+  private async recordL1Confirmation(withdrawalId: string, receipt: ethers.TransactionReceipt): Promise<void> {
+    await SimpleBridgeDB.recordL1ReleaseConfirmation(withdrawalId, {
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { BridgeProcessor } from './BridgeProcessor';
+import { BridgeEventListener } from './BridgeEventListener';
+import { DepositConfirmationScheduler } from './DepositConfirmationScheduler';
+import { WithdrawalProcessor } from './WithdrawalProcessor';
+import { WithdrawalEventListener } from './WithdrawalEventListener';
+
+/**
+ * Long-lived bridge services created at startup in index.ts, exposed to
+ * controllers. Every entry is optional because startup may fail part way or
+ * the withdrawal flow may be disabled.
+ */
+export interface BridgeServices {
+  bridgeProcessor?: BridgeProcessor;
+  eventListener?: BridgeEventListener;
+  confirmationScheduler?: DepositConfirmationScheduler;
+  withdrawalProcessor?: WithdrawalProcessor;
+  withdrawalListener?: WithdrawalEventListener;
+  withdrawalScheduler?: DepositConfirmationScheduler;
+}
+
+const services: BridgeServices = {};
+
+export function registerServices(started: BridgeServices): void {
+  Object.assign(services, started);
+}
+
+export function getServices(): Readonly<BridgeServices> {
+  return services;
+}
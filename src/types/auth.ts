@@ -0,0 +1,100 @@
+export type AdminRole = 'viewer' | 'operator' | 'admin';
+
+export const ADMIN_ROLES: readonly AdminRole[] = ['viewer', 'operator', 'admin'];
+
+// One permission per kind of admin route; roles are mapped to these in middleware/auth.ts
+export type Permission =
+  | 'dashboard:read'
+  | 'deposits:read'
+  | 'deposits:retry'
+  | 'deposits:cancel'
+  | 'deposits:approve'
+  | 'queue:read'
+  | 'queue:manage'
+  | 'releases:pause'
+  | 'releases:resume'
+  | 'config:read'
+  | 'config:write'
+  | 'users:manage'
+  | 'audit:read';
+
+// Raw admin_users row
+export interface AdminUserRecord {
+  id: string;
+  username: string;
+  password_hash: string | null;
+  wallet_address: string | null;
+  role: AdminRole;
+  disabled: boolean;
+  last_login_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Raw admin_refresh_tokens row
+export interface RefreshTokenRecord {
+  id: string;
+  user_id: string;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+  replaced_by: string | null;
+  created_ip: string | null;
+  created_at: Date;
+}
+
+// Claims of the access JWT, available to handlers as req.user
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: AdminRole;
+  sessionId: string;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  refreshExpiresIn: number;
+}
+
+// Admin user as returned by the API, without the password hash
+export interface AdminUserView {
+  id: string;
+  username: string;
+  role: AdminRole;
+  walletAddress: string | null;
+  hasPassword: boolean;
+  disabled: boolean;
+  lastLoginAt: Date | null;
+  createdAt: Date;
+}
+
+// Changed fields of an audited action, with their values before and after it
+export type AuditDiff = Record<string, { before: unknown; after: unknown }>;
+
+// Raw admin_audit_log row
+export interface AuditLogRecord {
+  id: string;
+  actor: string;
+  action: string;
+  target: string | null;
+  diff: AuditDiff;
+  ip: string | null;
+  request_id: string | null;
+  created_at: Date;
+  prev_hash: string;
+  hash: string;
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  action?: string;
+  target?: string;
+  fromDate?: Date;
+  toDate?: Date;
+  beforeId?: string;
+  limit: number;
+}
@@ -1,3 +1,5 @@
+import { AdminRole } from './auth';
+
 export interface BridgeDeposit {
   id: string;
   depositId: bigint;
@@ -18,12 +20,19 @@ export interface BridgeDeposit {
   updatedAt: Date;
 }
 
+// Allowed transitions between these live in services/DepositStateMachine.ts
 export enum BridgeStatus {
   PENDING = 'PENDING',
+  CONFIRMING = 'CONFIRMING',
   PROCESSING = 'PROCESSING',
+  SUBMITTED = 'SUBMITTED',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
-  CANCELLED = 'CANCELLED'
+  CANCELLED = 'CANCELLED',
+  REFUND_REQUIRED = 'REFUND_REQUIRED',
+  REORGED = 'REORGED',
+  HELD_FOR_REVIEW = 'HELD_FOR_REVIEW',
+  AWAITING_APPROVAL = 'AWAITING_APPROVAL'
 }
 
 export interface L1DepositEvent {
@@ -35,6 +44,127 @@ export interface L1DepositEvent {
   timestamp: bigint;
   transactionHash: string;
   blockNumber: bigint;
+  blockHash: string;
+  logIndex: number;
+}
+
+// Raw bridge_deposits row as returned by SimpleBridgeDB
+export interface BridgeDepositRecord {
+  id: number;
+  deposit_id: string;
+  user_address: string;
+  token_address: string;
+  amount: string;
+  nonce: string | null;
+  source_chain: BridgeChain;
+  target_chain: string;
+  status: BridgeStatus;
+  tx_hash: string;
+  block_number: string;
+  block_hash: string | null;
+  log_index: number | null;
+  retry_count: number;
+  failure_reason: string | null;
+  completed_tx_hash: string | null;
+  completed_at: Date | null;
+  l2_tx_hash: string | null;
+  l2_block_number: string | null;
+  l2_gas_used: string | null;
+  l2_effective_gas_price: string | null;
+  l2_deposit_id: string | null;
+  l2_token: string | null;
+  submitted_at: Date | null;
+  confirmed_at: Date | null;
+  l1_release_tx_hash: string | null;
+  l1_release_block_number: string | null;
+  l1_release_gas_used: string | null;
+  l1_release_effective_gas_price: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DepositHistoryFilters {
+  userAddress: string;
+  status?: BridgeStatus;
+  tokenAddress?: string;
+  sourceChain?: BridgeChain;
+  fromDate?: Date;
+  toDate?: Date;
+  cursor?: DepositCursor;
+  limit: number;
+}
+
+// Keyset position in the deposit history; createdAt keeps created_at's microseconds
+export interface DepositCursor {
+  createdAt: string;
+  id: number;
+}
+
+// A deposit history row, with created_at as full-precision text for the next cursor
+export interface DepositHistoryRow extends BridgeDepositRecord {
+  created_at_key: string;
+}
+
+// Public view of a deposit returned by the bridge API
+export interface DepositView {
+  depositId: string;
+  direction: 'deposit' | 'withdrawal';
+  sourceChain: string;
+  targetChain: string;
+  user: string;
+  token: string;
+  amount: string;
+  amountFormatted: string;
+  decimals: number;
+  nonce: string | null;
+  status: BridgeStatus;
+  l1TxHash: string | null;
+  l1BlockNumber: string | null;
+  l2TxHash: string | null;
+  failureReason: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+// Full lifecycle of a single deposit, as polled by the frontend
+export interface DepositLifecycle extends DepositView {
+  indexed: true;
+  confirmations: number;
+  requiredConfirmations: number;
+  estimatedSecondsRemaining: number | null;
+  l2BlockNumber: string | null;
+  submittedAt: Date | null;
+  confirmedAt: Date | null;
+}
+
+// A deposit found in an L1 receipt that the listener has not stored yet
+export interface UnindexedDeposit {
+  indexed: false;
+  status: 'SEEN_ON_CHAIN';
+  depositId: string;
+  user: string;
+  token: string;
+  amount: string;
+  nonce: string;
+  l1TxHash: string;
+  l1BlockNumber: string;
+  confirmations: number;
+  requiredConfirmations: number;
+}
+
+// Burn/withdraw event emitted by the L2 bridge; token is the L1 token to release
+export interface L2WithdrawalEvent {
+  withdrawalId: bigint;
+  user: string;
+  token: string;
+  l2Token: string | null;
+  amount: bigint;
+  nonce: bigint;
+  timestamp: bigint;
+  transactionHash: string;
+  blockNumber: bigint;
+  blockHash: string;
+  logIndex: number;
 }
 
 export interface L2MintEvent {
@@ -47,13 +177,15 @@ export interface L2MintEvent {
   blockNumber: bigint;
 }
 
+export type BridgeChain = 'L1' | 'L2';
+
 export interface BridgeJob {
   depositId: string;
   user: string;
   token: string;
   amount: string;
-  sourceChain: 'L1' | 'L2';
-  targetChain: 'L1' | 'L2';
+  sourceChain: BridgeChain;
+  targetChain: BridgeChain;
   txHash: string;
   blockNumber: string;
 }
@@ -79,14 +211,137 @@ export interface TokenConfig {
   isNative: boolean;
 }
 
+// Per-token settings live in the token registry (bridge_tokens), not here
 export interface BridgeConfig {
   l1: ChainConfig;
   l2: ChainConfig;
-  tokens: Record<string, TokenConfig>;
+  // Display only: published by GET /api/bridge/config, never deducted from releases
   feePercentage: number;
   minConfirmations: number;
 }
 
+/**
+ * BridgeConfig as stored in bridge_config_versions and exchanged with the admin
+ * API: bigints as decimal strings and without RPC URLs, which stay in the
+ * environment because they carry provider keys.
+ */
+export interface StoredChainConfig {
+  chainId: number;
+  name: string;
+  bridgeContract: string;
+  confirmationBlocks: number;
+  gasLimit: string;
+  maxGasPrice: string;
+}
+
+export interface StoredBridgeConfig {
+  l1: StoredChainConfig;
+  l2: StoredChainConfig;
+  feePercentage: number;
+  minConfirmations: number;
+}
+
+// Raw bridge_tokens row; addresses are lowercase and amounts in base units
+export interface BridgeTokenRecord {
+  l1_address: string;
+  l2_address: string | null;
+  symbol: string;
+  name: string;
+  decimals: number;
+  min_amount: string;
+  max_amount: string;
+  is_native: boolean;
+  enabled: boolean;
+  paused: boolean;
+  approval_threshold: string | null;
+  outflow_limit: string | null;
+  reference_price: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// On-chain name/symbol/decimals of an L1 token
+export interface TokenMetadata {
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+// Raw token_metadata row
+export interface TokenMetadataRecord extends TokenMetadata {
+  fetched_at: Date;
+}
+
+/**
+ * PENDING: nonce reserved, possibly broadcast. MINED / REVERTED: one of our
+ * hashes was included. REPLACED: the nonce was used by a transaction we did not
+ * send. FAILED: never accepted by the node, so the nonce was given back.
+ */
+export type SignerTransactionStatus = 'PENDING' | 'MINED' | 'REVERTED' | 'REPLACED' | 'FAILED';
+
+// Raw signer_transactions row; numeric columns come back from pg as strings
+export interface SignerTransactionRecord {
+  id: string;
+  chain: BridgeChain;
+  signer: string;
+  nonce: string;
+  reference: string;
+  to_address: string;
+  data: string;
+  value: string;
+  gas_limit: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string | null;
+  tx_hash: string | null;
+  previous_hashes: string[];
+  replacements: number;
+  status: SignerTransactionStatus;
+  block_number: string | null;
+  error: string | null;
+  gas_used: string | null;
+  effective_gas_price: string | null;
+  created_at: Date;
+  last_sent_at: Date | null;
+  resolved_at: Date | null;
+}
+
+// Gas paid for deposit releases of one token, mined and reverted transactions alike
+export interface GasCostRow {
+  token_address: string;
+  deposit_count: string;
+  transaction_count: string;
+  reverted_count: string;
+  gas_used: string;
+  cost_wei: string;
+}
+
+// Raw release_approvals row joined with the approving operator's current account
+export interface ReleaseApprovalRecord {
+  id: string;
+  source_chain: BridgeChain;
+  deposit_id: string;
+  operator_id: string;
+  signer: string;
+  signature: string;
+  deadline: Date;
+  created_at: Date;
+  operator_username: string;
+  operator_wallet: string | null;
+  operator_role: AdminRole;
+  operator_disabled: boolean;
+}
+
+// Raw bridge_config_versions row
+export interface BridgeConfigVersionRecord {
+  version: number;
+  config: StoredBridgeConfig;
+  created_by: string;
+  reason: string | null;
+  restored_from: number | null;
+  created_at: Date;
+}
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -103,21 +358,70 @@ export interface PaginatedResponse<T> extends ApiResponse<T[]> {
     totalPages: number;
     hasNext: boolean;
     hasPrev: boolean;
+    nextCursor?: string | null;
   };
 }
 
+export interface TokenStats {
+  decimals: number;
+  count: number;
+  completedCount: number;
+  volume: string;
+  averageProcessingTime: number | null;
+  p95ProcessingTime: number | null;
+}
+
+// Amounts are decimal strings in token units; processing times are in seconds
 export interface BridgeStats {
   totalDeposits: number;
-  totalVolume: string;
   completedBridges: number;
   pendingBridges: number;
   failedBridges: number;
-  averageProcessingTime: number;
-  dailyVolume: Record<string, string>;
-  tokenStats: Record<string, {
-    volume: string;
-    count: number;
-  }>;
+  countsByStatus: Record<string, number>;
+  volumeByToken: Record<string, string>;
+  averageProcessingTime: number | null;
+  p95ProcessingTime: number | null;
+  dailyVolume: Record<string, Record<string, string>>;
+  tokenStats: Record<string, TokenStats>;
+  window: {
+    from: string;
+    to: string;
+    days: number;
+  };
+}
+
+// One row of deposit_events: a status transition with who made it and why
+export interface DepositEventRecord {
+  id: string;
+  source_chain: BridgeChain;
+  deposit_id: string;
+  from_status: BridgeStatus | null;
+  to_status: BridgeStatus;
+  actor: string;
+  reason: string | null;
+  created_at: Date;
+}
+
+// Rows of the rollup tables maintained by the bridge_deposits stats trigger
+export interface StatusRollupRow {
+  token_address: string;
+  status: BridgeStatus;
+  transfer_count: string;
+  volume: string;
+}
+
+export interface DailyRollupRow {
+  day: string;
+  token_address: string;
+  transfer_count: string;
+  volume: string;
+}
+
+export interface ProcessingTimeBucket {
+  token_address: string;
+  bucket_upper_seconds: number;
+  transfer_count: string;
+  total_seconds: string;
 }
 
 export interface HealthCheck {
@@ -0,0 +1,34 @@
+import axios from 'axios';
+import { logger } from '@/utils/logger';
+
+export type AlertSeverity = 'warning' | 'critical';
+
+/**
+ * Raises an operator alert. Always logged; additionally POSTed to ALERT_WEBHOOK_URL
+ * when configured. Never throws, so callers can alert from inside error paths.
+ */
+export async function raiseAlert(
+  severity: AlertSeverity,
+  title: string,
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  console.log(`🚨 [${severity.toUpperCase()}] ${title}`);
+  logger.error(`ALERT: ${title}`, { alert: true, severity, ...details });
+
+  const webhookUrl = process.env.ALERT_WEBHOOK_URL;
+  if (!webhookUrl) {
+    return;
+  }
+
+  try {
+    await axios.post(webhookUrl, {
+      severity,
+      title,
+      details,
+      service: 'bridge-api',
+      timestamp: new Date().toISOString(),
+    }, { timeout: 5000 });
+  } catch (error) {
+    logger.error('Failed to deliver alert webhook:', error);
+  }
+}
@@ -0,0 +1,150 @@
+import { ethers } from 'ethers';
+import {
+  BridgeStats,
+  BridgeStatus,
+  DailyRollupRow,
+  ProcessingTimeBucket,
+  StatusRollupRow,
+  TokenStats,
+} from '@/types/bridge';
+import { getTokenDecimals } from '@/utils/tokens';
+
+// Upper bound of the open-ended last histogram bucket (see migration 006)
+const OVERFLOW_BUCKET = 2147483647;
+
+// Statuses that still have work ahead of them
+const IN_FLIGHT_STATUSES: string[] = [
+  BridgeStatus.PENDING,
+  BridgeStatus.CONFIRMING,
+  BridgeStatus.PROCESSING,
+  BridgeStatus.SUBMITTED,
+];
+
+/**
+ * Reads a percentile off the processing-time histogram: the upper bound of the
+ * bucket containing it. The open-ended last bucket has no bound, so its mean is
+ * used instead.
+ */
+export function percentileFromBuckets(buckets: ProcessingTimeBucket[], percentile: number): number | null {
+  const merged = mergeBuckets(buckets);
+  const total = merged.reduce((sum, bucket) => sum + bucket.count, 0);
+  if (total === 0) {
+    return null;
+  }
+
+  const rank = Math.ceil(total * percentile);
+  let cumulative = 0;
+  for (const bucket of merged) {
+    cumulative += bucket.count;
+    if (cumulative >= rank) {
+      return bucket.upper === OVERFLOW_BUCKET ? Math.round(bucket.seconds / bucket.count) : bucket.upper;
+    }
+  }
+
+  return null;
+}
+
+export function averageFromBuckets(buckets: ProcessingTimeBucket[]): number | null {
+  const merged = mergeBuckets(buckets);
+  const count = merged.reduce((sum, bucket) => sum + bucket.count, 0);
+  const seconds = merged.reduce((sum, bucket) => sum + bucket.seconds, 0);
+  return count === 0 ? null : Math.round(seconds / count);
+}
+
+// Buckets for several tokens are summed per bound before computing percentiles
+function mergeBuckets(buckets: ProcessingTimeBucket[]): Array<{ upper: number; count: number; seconds: number }> {
+  const byUpper = new Map<number, { upper: number; count: number; seconds: number }>();
+  for (const bucket of buckets) {
+    const upper = Number(bucket.bucket_upper_seconds);
+    const entry = byUpper.get(upper) ?? { upper, count: 0, seconds: 0 };
+    entry.count += Number(bucket.transfer_count);
+    entry.seconds += Number(bucket.total_seconds);
+    byUpper.set(upper, entry);
+  }
+  return [...byUpper.values()].sort((a, b) => a.upper - b.upper);
+}
+
+/**
+ * Assembles BridgeStats from the rollup tables. Volumes count completed
+ * transfers only and are formatted with each token's decimals; reorged
+ * transfers are left out of the totals.
+ */
+export async function buildBridgeStats(
+  statusRows: StatusRollupRow[],
+  dailyRows: DailyRollupRow[],
+  processingBuckets: ProcessingTimeBucket[],
+  window: { from: Date; to: Date; days: number }
+): Promise<BridgeStats> {
+  const tokens = new Set([
+    ...statusRows.map(row => row.token_address),
+    ...dailyRows.map(row => row.token_address),
+  ]);
+  const decimals = new Map<string, number>();
+  for (const token of tokens) {
+    decimals.set(token, await getTokenDecimals(token));
+  }
+  const format = (token: string, amount: bigint) => ethers.formatUnits(amount, decimals.get(token) ?? 18);
+
+  const countsByStatus: Record<string, number> = {};
+  const tokenTotals = new Map<string, { count: number; completedCount: number; volume: bigint }>();
+
+  for (const row of statusRows) {
+    const count = Number(row.transfer_count);
+    countsByStatus[row.status] = (countsByStatus[row.status] ?? 0) + count;
+
+    if (row.status === BridgeStatus.REORGED) {
+      continue;
+    }
+
+    const totals = tokenTotals.get(row.token_address) ?? { count: 0, completedCount: 0, volume: 0n };
+    totals.count += count;
+    if (row.status === BridgeStatus.COMPLETED) {
+      totals.completedCount += count;
+      totals.volume += BigInt(row.volume);
+    }
+    tokenTotals.set(row.token_address, totals);
+  }
+
+  const tokenStats: Record<string, TokenStats> = {};
+  const volumeByToken: Record<string, string> = {};
+  for (const [token, totals] of tokenTotals) {
+    const buckets = processingBuckets.filter(bucket => bucket.token_address === token);
+    volumeByToken[token] = format(token, totals.volume);
+    tokenStats[token] = {
+      decimals: decimals.get(token) ?? 18,
+      count: totals.count,
+      completedCount: totals.completedCount,
+      volume: volumeByToken[token]!,
+      averageProcessingTime: averageFromBuckets(buckets),
+      p95ProcessingTime: percentileFromBuckets(buckets, 0.95),
+    };
+  }
+
+  const dailyVolume: Record<string, Record<string, string>> = {};
+  for (const row of dailyRows) {
+    const day = dailyVolume[row.day] ?? {};
+    day[row.token_address] = format(row.token_address, BigInt(row.volume));
+    dailyVolume[row.day] = day;
+  }
+
+  const sumStatuses = (statuses: string[]) =>
+    statuses.reduce((sum, status) => sum + (countsByStatus[status] ?? 0), 0);
+
+  return {
+    totalDeposits: [...tokenTotals.values()].reduce((sum, totals) => sum + totals.count, 0),
+    completedBridges: sumStatuses([BridgeStatus.COMPLETED]),
+    pendingBridges: sumStatuses(IN_FLIGHT_STATUSES),
+    failedBridges: sumStatuses([BridgeStatus.FAILED]),
+    countsByStatus,
+    volumeByToken,
+    averageProcessingTime: averageFromBuckets(processingBuckets),
+    p95ProcessingTime: percentileFromBuckets(processingBuckets, 0.95),
+    dailyVolume,
+    tokenStats,
+    window: {
+      from: window.from.toISOString().slice(0, 10),
+      to: window.to.toISOString().slice(0, 10),
+      days: window.days,
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { ethers } from 'ethers';
+import {
+  BridgeDepositRecord,
+  BridgeStatus,
+  DepositCursor,
+  DepositHistoryRow,
+  DepositLifecycle,
+  DepositView,
+  UnindexedDeposit,
+} from '@/types/bridge';
+import { formatTokenAmount } from '@/utils/tokens';
+import { getBridgeConfig, requiredDepositConfirmations } from '@/config/bridgeConfig';
+import { BRIDGE_L1_ABI } from '@/config/abis';
+
+const l1BridgeInterface = new ethers.Interface(BRIDGE_L1_ABI);
+
+export async function toDepositView(deposit: BridgeDepositRecord): Promise<DepositView> {
+  const { formatted, decimals } = await formatTokenAmount(deposit.amount, deposit.token_address);
+
+  return {
+    depositId: deposit.deposit_id,
+    direction: deposit.source_chain === 'L2' ? 'withdrawal' : 'deposit',
+    sourceChain: deposit.source_chain,
+    targetChain: deposit.target_chain,
+    user: deposit.user_address,
+    token: deposit.token_address,
+    amount: deposit.amount,
+    amountFormatted: formatted,
+    decimals,
+    nonce: deposit.nonce,
+    status: deposit.status,
+    ...(deposit.source_chain === 'L2'
+      ? {
+        l1TxHash: deposit.l1_release_tx_hash ?? deposit.completed_tx_hash,
+        l1BlockNumber: deposit.l1_release_block_number,
+        l2TxHash: deposit.tx_hash,
+      }
+      : {
+        l1TxHash: deposit.tx_hash,
+        l1BlockNumber: deposit.block_number,
+        l2TxHash: deposit.l2_tx_hash ?? deposit.completed_tx_hash,
+      }),
+    failureReason: deposit.failure_reason,
+    createdAt: deposit.created_at,
+    completedAt: deposit.completed_at,
+  };
+}
+
+// Statuses after which nothing more will happen to the deposit without operator action
+const TERMINAL_STATUSES: BridgeStatus[] = [
+  BridgeStatus.COMPLETED,
+  BridgeStatus.FAILED,
+  BridgeStatus.CANCELLED,
+  BridgeStatus.REFUND_REQUIRED,
+  BridgeStatus.REORGED,
+  BridgeStatus.HELD_FOR_REVIEW,
+  BridgeStatus.AWAITING_APPROVAL,
+];
+
+// currentBlock is the head of the source chain: L1 for deposits, L2 for withdrawals
+export async function toDepositLifecycle(deposit: BridgeDepositRecord, currentBlock: number): Promise<DepositLifecycle> {
+  const requiredConfirmations = deposit.source_chain === 'L2'
+    ? parseInt(process.env.L2_FINALITY_BLOCKS || '64')
+    : requiredDepositConfirmations();
+  const confirmations = Math.max(0, currentBlock - parseInt(deposit.block_number));
+
+  return {
+    ...(await toDepositView(deposit)),
+    indexed: true,
+    confirmations,
+    requiredConfirmations,
+    estimatedSecondsRemaining: estimateSecondsRemaining(deposit.status, confirmations, requiredConfirmations),
+    l2BlockNumber: deposit.source_chain === 'L2' ? deposit.block_number : deposit.l2_block_number,
+    submittedAt: deposit.submitted_at,
+    confirmedAt: deposit.confirmed_at,
+  };
+}
+
+/**
+ * Looks for a bridge deposit event in an L1 receipt the listener hasn't stored
+ * yet. Only logs emitted by the configured L1 bridge count, so a look-alike
+ * event from any other contract is never reported as a deposit.
+ */
+export function findUnindexedDeposit(receipt: ethers.TransactionReceipt, currentBlock: number): UnindexedDeposit | null {
+  const bridgeAddress = getBridgeConfig().l1.bridgeContract.toLowerCase();
+  if (!bridgeAddress) {
+    throw new Error('L1 bridge contract not configured');
+  }
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== bridgeAddress) {
+      continue;
+    }
+
+    let parsed: ethers.LogDescription | null;
+    try {
+      parsed = l1BridgeInterface.parseLog(log);
+    } catch {
+      // Same topic as a known event but undecodable data
+      continue;
+    }
+    if (!parsed || (parsed.name !== 'DepositETH' && parsed.name !== 'DepositERC20')) {
+      continue;
+    }
+
+    return {
+      indexed: false,
+      status: 'SEEN_ON_CHAIN',
+      depositId: parsed.args.depositId.toString(),
+      user: parsed.args.user,
+      token: parsed.name === 'DepositETH' ? ethers.ZeroAddress : parsed.args.token,
+      amount: parsed.args.amount.toString(),
+      nonce: parsed.args.nonce.toString(),
+      l1TxHash: receipt.hash,
+      l1BlockNumber: receipt.blockNumber.toString(),
+      confirmations: Math.max(0, currentBlock - receipt.blockNumber),
+      requiredConfirmations: requiredDepositConfirmations(),
+    };
+  }
+
+  return null;
+}
+
+// Rough ETA: remaining L1 blocks at the configured block time, plus the usual L2 release time
+export function estimateSecondsRemaining(status: BridgeStatus, confirmations: number, requiredConfirmations: number): number | null {
+  if (status === BridgeStatus.COMPLETED) {
+    return 0;
+  }
+  if (TERMINAL_STATUSES.includes(status)) {
+    return null;
+  }
+
+  const blockTimeSeconds = parseInt(process.env.L1_BLOCK_TIME_SECONDS || '12');
+  const releaseSeconds = parseInt(process.env.L2_RELEASE_ESTIMATE_SECONDS || '60');
+  const remainingBlocks = Math.max(0, requiredConfirmations - confirmations);
+
+  return remainingBlocks * blockTimeSeconds + releaseSeconds;
+}
+
+// Cursors are opaque to clients: base64url of the last row's (created_at, id).
+// created_at travels as Postgres text so rows within the same millisecond are not skipped.
+const CURSOR_TIMESTAMP = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}\.\d{6}$/;
+
+export function encodeCursor(row: DepositHistoryRow): string {
+  const payload = JSON.stringify({ createdAt: row.created_at_key, id: row.id });
+  return Buffer.from(payload).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): DepositCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof payload.createdAt !== 'string' || !CURSOR_TIMESTAMP.test(payload.createdAt) || !Number.isInteger(payload.id)) {
+      return null;
+    }
+    return { createdAt: payload.createdAt, id: payload.id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,27 @@
+import { ethers } from 'ethers';
+
+/**
+ * Searches `contract` for the newest event matching `filter` and `matches`
+ * between fromBlock and toBlock, querying at most chunkSize blocks at a time
+ * (newest first) so no single eth_getLogs call spans the whole chain.
+ */
+export async function findLatestEvent(
+  contract: ethers.Contract,
+  filter: ethers.DeferredTopicFilter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number,
+  matches: (event: ethers.EventLog) => boolean = () => true
+): Promise<ethers.EventLog | null> {
+  for (let chunkEnd = toBlock; chunkEnd >= fromBlock; chunkEnd -= chunkSize) {
+    const chunkStart = Math.max(fromBlock, chunkEnd - chunkSize + 1);
+    const events = await contract.queryFilter(filter, chunkStart, chunkEnd);
+
+    const event = events.filter((e): e is ethers.EventLog => 'args' in e && matches(e)).pop();
+    if (event) {
+      return event;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,112 @@
+import { ethers } from 'ethers';
+
+// Fields of an EIP-4361 (Sign-In with Ethereum) message
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement: string | null;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime: Date | null;
+  notBefore: Date | null;
+  requestId: string | null;
+  resources: string[];
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELD_NAMES: Record<string, keyof SiweMessage> = {
+  'URI': 'uri',
+  'Version': 'version',
+  'Chain ID': 'chainId',
+  'Nonce': 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+function parseTimestamp(value: string, field: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field}: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Parses the plain-text message a wallet signed. Only checks the message is
+ * well formed; whether it is acceptable (domain, nonce, times) is up to the
+ * caller. Throws on anything malformed.
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.split('\n');
+
+  const header = lines[0] ?? '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Not a Sign-In with Ethereum message');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  if (!ethers.isAddress(lines[1] ?? '')) {
+    throw new Error('Invalid address line');
+  }
+  const address = ethers.getAddress(lines[1]!);
+
+  // Everything between the address and the first field is the optional statement
+  let index = 2;
+  const statementLines: string[] = [];
+  while (index < lines.length && !lines[index]!.startsWith('URI: ')) {
+    statementLines.push(lines[index]!);
+    index++;
+  }
+  const statement = statementLines.join('\n').trim() || null;
+
+  const fields: Partial<Record<keyof SiweMessage, string>> = {};
+  const resources: string[] = [];
+  for (; index < lines.length; index++) {
+    const line = lines[index]!;
+    if (line === 'Resources:') {
+      for (index++; index < lines.length && lines[index]!.startsWith('- '); index++) {
+        resources.push(lines[index]!.slice(2));
+      }
+      break;
+    }
+
+    const separator = line.indexOf(': ');
+    const key = FIELD_NAMES[line.slice(0, separator)];
+    if (separator === -1 || !key) {
+      throw new Error(`Unexpected line: ${line}`);
+    }
+    fields[key] = line.slice(separator + 2);
+  }
+
+  const { uri, version, chainId, nonce, issuedAt } = fields;
+  if (!uri || !version || !chainId || !nonce || !issuedAt) {
+    throw new Error('Missing required field');
+  }
+  if (!/^\d+$/.test(chainId)) {
+    throw new Error(`Invalid Chain ID: ${chainId}`);
+  }
+  if (!/^[a-zA-Z0-9]{8,}$/.test(nonce)) {
+    throw new Error('Invalid nonce');
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri,
+    version,
+    chainId: Number(chainId),
+    nonce,
+    issuedAt: parseTimestamp(issuedAt, 'Issued At'),
+    expirationTime: fields.expirationTime ? parseTimestamp(fields.expirationTime, 'Expiration Time') : null,
+    notBefore: fields.notBefore ? parseTimestamp(fields.notBefore, 'Not Before') : null,
+    requestId: fields.requestId ?? null,
+    resources,
+  };
+}
@@ -0,0 +1,28 @@
+import { ethers } from 'ethers';
+import { getTokenMetadata } from '@/services/TokenMetadata';
+import { logger } from '@/utils/logger';
+
+const NATIVE_DECIMALS = 18;
+
+export function isNativeToken(tokenAddress: string): boolean {
+  return tokenAddress.toLowerCase() === ethers.ZeroAddress;
+}
+
+// For display only: a token without readable metadata is shown with 18 decimals
+export async function getTokenDecimals(tokenAddress: string): Promise<number> {
+  if (isNativeToken(tokenAddress)) {
+    return NATIVE_DECIMALS;
+  }
+
+  try {
+    return (await getTokenMetadata(tokenAddress)).decimals;
+  } catch (error) {
+    logger.warn(`Could not read decimals for ${tokenAddress}, assuming ${NATIVE_DECIMALS}:`, error);
+    return NATIVE_DECIMALS;
+  }
+}
+
+export async function formatTokenAmount(amount: string, tokenAddress: string): Promise<{ formatted: string; decimals: number }> {
+  const decimals = await getTokenDecimals(tokenAddress);
+  return { formatted: ethers.formatUnits(amount, decimals), decimals };
+}
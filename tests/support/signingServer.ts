@@ -0,0 +1,104 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+export interface SigningServer {
+  url: string;
+  // Every JSON-RPC call received, in order
+  requests: Array<{ method: string; params: unknown[] }>;
+  close(): Promise<void>;
+}
+
+export interface SigningServerOptions {
+  // Like Web3Signer, the chain id comes from the server's configuration, not the request
+  chainId: bigint;
+  // Lets a test make the server sign something other than what was asked
+  tamper?: (tx: ethers.TransactionLike<string>) => ethers.TransactionLike<string>;
+}
+
+type SignTransactionParams = Record<string, string | undefined>;
+
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Local stand-in for a Web3Signer-style signing service: answers eth_accounts,
+ * eth_signTransaction, eth_sign and eth_signTypedData on 127.0.0.1 with the key
+ * of `wallet`, so RemoteSigner can be tested without the real service.
+ */
+export async function startSigningServer(wallet: ethers.Wallet, options: SigningServerOptions): Promise<SigningServer> {
+  const requests: SigningServer['requests'] = [];
+
+  const assertAccount = (address: unknown) => {
+    if (typeof address !== 'string' || address.toLowerCase() !== wallet.address.toLowerCase()) {
+      throw new RpcError(-32000, `No key for account ${String(address)}`);
+    }
+  };
+
+  const handlers: Record<string, (params: unknown[]) => Promise<unknown>> = {
+    eth_accounts: async () => [wallet.address],
+    eth_signTransaction: async ([input]) => {
+      const params = input as SignTransactionParams;
+      assertAccount(params.from);
+      let tx: ethers.TransactionLike<string> = {
+        chainId: options.chainId,
+        to: params.to ?? null,
+        nonce: Number(params.nonce),
+        gasLimit: BigInt(params.gas ?? 0),
+        value: BigInt(params.value ?? 0),
+        data: params.data ?? '0x',
+        ...(params.gasPrice !== undefined
+          ? { type: 0, gasPrice: BigInt(params.gasPrice) }
+          : { type: 2, maxFeePerGas: BigInt(params.maxFeePerGas ?? 0), maxPriorityFeePerGas: BigInt(params.maxPriorityFeePerGas ?? 0) }),
+      };
+      if (options.tamper) {
+        tx = options.tamper(tx);
+      }
+      return wallet.signTransaction(tx);
+    },
+    eth_sign: async ([address, data]) => {
+      assertAccount(address);
+      return wallet.signMessage(ethers.getBytes(data as string));
+    },
+    eth_signTypedData: async ([address, json]) => {
+      assertAccount(address);
+      const { domain, types, message } = JSON.parse(json as string);
+      delete types.EIP712Domain;
+      return wallet.signTypedData(domain, types, message);
+    },
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', async () => {
+      const { id, method, params } = JSON.parse(body);
+      requests.push({ method, params });
+      let reply: Record<string, unknown>;
+      try {
+        const handler = handlers[method];
+        if (!handler) {
+          throw new RpcError(-32601, `Method ${method} not found`);
+        }
+        reply = { jsonrpc: '2.0', id, result: await handler(params) };
+      } catch (error) {
+        const code = error instanceof RpcError ? error.code : -32603;
+        reply = { jsonrpc: '2.0', id, error: { code, message: error instanceof Error ? error.message : String(error) } };
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(reply));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,120 @@
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { AuthError, refreshSession, revokeSession, startSession, verifyAccessToken } from '@/services/AdminAuth';
+import { hasPermission } from '@/middleware/auth';
+import { AdminUserRecord, RefreshTokenRecord } from '@/types/auth';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetRedisClient = getRedisClient as jest.MockedFunction<typeof getRedisClient>;
+
+const operator: AdminUserRecord = {
+  id: '7',
+  username: 'ops',
+  password_hash: 'unused',
+  wallet_address: null,
+  role: 'operator',
+  disabled: false,
+  last_login_at: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+describe('AdminAuth', () => {
+  let refreshTokens: Map<string, RefreshTokenRecord>;
+  let redis: Map<string, string>;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.JWT_SECRET = 'test-secret';
+    refreshTokens = new Map();
+    redis = new Map();
+
+    const store = (token: { id: string; userId: string; sessionId: string; tokenHash: string; expiresAt: Date }) => {
+      refreshTokens.set(token.id, {
+        id: token.id,
+        user_id: token.userId,
+        session_id: token.sessionId,
+        token_hash: token.tokenHash,
+        expires_at: token.expiresAt,
+        revoked_at: null,
+        replaced_by: null,
+        created_ip: null,
+        created_at: new Date(),
+      });
+    };
+
+    mockedDB.saveRefreshToken.mockImplementation(async token => store(token));
+    mockedDB.getRefreshToken.mockImplementation(async id => refreshTokens.get(id) ?? null);
+    mockedDB.getAdminUserById.mockResolvedValue(operator);
+    mockedDB.rotateRefreshToken.mockImplementation(async (currentId, next) => {
+      const current = refreshTokens.get(currentId)!;
+      if (current.revoked_at) {
+        return false;
+      }
+      current.revoked_at = new Date();
+      current.replaced_by = next.id;
+      store(next);
+      return true;
+    });
+    mockedDB.revokeRefreshSession.mockImplementation(async sessionId => {
+      for (const token of refreshTokens.values()) {
+        if (token.session_id === sessionId) {
+          token.revoked_at ??= new Date();
+        }
+      }
+    });
+
+    mockedGetRedisClient.mockReturnValue({
+      set: jest.fn(async (key: string, value: string) => { redis.set(key, value); return 'OK'; }),
+      mGet: jest.fn(async (keys: string[]) => keys.map(key => redis.get(key) ?? null)),
+    } as unknown as ReturnType<typeof getRedisClient>);
+  });
+
+  it('maps roles to admin route permissions', () => {
+    expect(hasPermission('viewer', 'dashboard:read')).toBe(true);
+    expect(hasPermission('viewer', 'deposits:retry')).toBe(false);
+    expect(hasPermission('operator', 'deposits:retry')).toBe(true);
+    expect(hasPermission('operator', 'config:write')).toBe(false);
+    expect(hasPermission('admin', 'config:write')).toBe(true);
+    expect(hasPermission('admin', 'users:manage')).toBe(true);
+  });
+
+  it('issues access tokens that authMiddleware accepts', async () => {
+    const tokens = await startSession(operator, '127.0.0.1');
+
+    const user = await verifyAccessToken(tokens.accessToken);
+
+    expect(user).toMatchObject({ id: '7', username: 'ops', role: 'operator' });
+  });
+
+  it('rotates refresh tokens and revokes the session when an old one is replayed', async () => {
+    const first = await startSession(operator, null);
+    const second = await refreshSession(first.refreshToken, null);
+
+    await expect(refreshSession(first.refreshToken, null)).rejects.toThrow('Refresh token has been revoked');
+
+    // The replay took the rotated token and its access token down with it
+    await expect(refreshSession(second.refreshToken, null)).rejects.toThrow(AuthError);
+    await expect(verifyAccessToken(second.accessToken)).rejects.toThrow('Token has been revoked');
+  });
+
+  it('rejects refresh tokens with a wrong secret', async () => {
+    const tokens = await startSession(operator, null);
+    const [id] = tokens.refreshToken.split('.');
+
+    await expect(refreshSession(`${id}.not-the-secret`, null)).rejects.toThrow('Invalid refresh token');
+  });
+
+  it('rejects access tokens of a logged out session', async () => {
+    const tokens = await startSession(operator, null);
+    const user = await verifyAccessToken(tokens.accessToken);
+
+    await revokeSession(user.sessionId);
+
+    await expect(verifyAccessToken(tokens.accessToken)).rejects.toThrow('Token has been revoked');
+  });
+});
@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import pg from 'pg';
+import { ethers } from 'ethers';
+import { AdminController } from '@/controllers/adminController';
+import { SimpleBridgeDB, getDatabaseSimple } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { getL1Provider, getL2Provider } from '@/config/providers';
+import { getServices } from '@/services/registry';
+import { getOutflowUsage, getReleasePause } from '@/services/OutflowLimiter';
+import { formatTokenAmount } from '@/utils/tokens';
+import { BridgeChain, BridgeStatus, StatusRollupRow } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn(), getBridgeQueue: jest.fn() }));
+jest.mock('@/config/providers');
+jest.mock('@/services/registry', () => ({ getServices: jest.fn() }));
+jest.mock('@/services/OutflowLimiter');
+jest.mock('@/utils/tokens');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const ETH = ethers.ZeroAddress;
+const USDC = '0x94a9d9ac8a22534e3faca9f4e7f2e2cf85d5e4c8';
+
+function summaryRow(source_chain: BridgeChain, token_address: string, status: BridgeStatus, transfer_count: number, volume: string) {
+  return { source_chain, token_address, status, transfer_count: String(transfer_count), volume };
+}
+
+function mockResponse() {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+}
+
+async function getDashboard(query: Record<string, string> = {}) {
+  const res = mockResponse();
+  await AdminController.getDashboard({ query } as unknown as Request, res as unknown as Response);
+  return res;
+}
+
+describe('AdminController.getDashboard', () => {
+  let databaseQuery: jest.Mock;
+  let ping: jest.Mock;
+  let l1BlockNumber: jest.Mock;
+  let l2BlockNumber: jest.Mock;
+  let summary: Array<StatusRollupRow & { source_chain: BridgeChain }>;
+
+  beforeEach(() => {
+    process.env.HEALTH_CHECK_TIMEOUT_MS = '50';
+    databaseQuery = jest.fn().mockResolvedValue({ rows: [] });
+    ping = jest.fn().mockResolvedValue('PONG');
+    l1BlockNumber = jest.fn().mockResolvedValue(1000);
+    l2BlockNumber = jest.fn().mockResolvedValue(5000);
+    summary = [];
+
+    jest.mocked(getDatabaseSimple).mockReturnValue({ query: databaseQuery } as unknown as pg.Pool);
+    jest.mocked(getRedisClient).mockReturnValue({ ping } as unknown as ReturnType<typeof getRedisClient>);
+    jest.mocked(getL1Provider).mockReturnValue({ getBlockNumber: l1BlockNumber } as unknown as ethers.JsonRpcProvider);
+    jest.mocked(getL2Provider).mockReturnValue({ getBlockNumber: l2BlockNumber } as unknown as ethers.JsonRpcProvider);
+    jest.mocked(getServices).mockReturnValue({});
+    jest.mocked(getReleasePause).mockResolvedValue(null);
+    jest.mocked(getOutflowUsage).mockResolvedValue({} as Awaited<ReturnType<typeof getOutflowUsage>>);
+    jest.mocked(formatTokenAmount).mockImplementation(async (amount, token) => ({
+      formatted: `${amount} ${token === ETH ? 'ETH' : 'USDC'}`,
+      decimals: 18,
+    }));
+    mockedDB.getTransferSummarySince.mockImplementation(async () => summary);
+    mockedDB.getRecentTransfers.mockResolvedValue([]);
+    mockedDB.listBridgeTokens.mockResolvedValue([]);
+  });
+
+  describe('window stats', () => {
+    it('counts deposits and withdrawals, sums completed volume per token and leaves out reorged transfers', async () => {
+      summary = [
+        summaryRow('L1', ETH, BridgeStatus.COMPLETED, 3, '3000'),
+        summaryRow('L2', ETH, BridgeStatus.COMPLETED, 1, '500'),
+        summaryRow('L1', USDC, BridgeStatus.COMPLETED, 2, '70'),
+        summaryRow('L1', USDC, BridgeStatus.FAILED, 1, '10'),
+        summaryRow('L1', ETH, BridgeStatus.PENDING, 4, '4000'),
+        summaryRow('L1', ETH, BridgeStatus.REORGED, 5, '5000'),
+      ];
+
+      const res = await getDashboard({ windows: '24h' });
+
+      const [stats] = res.json.mock.calls[0]![0].data.stats;
+      expect(stats).toMatchObject({
+        window: '24h',
+        totalDeposits: 10,
+        totalWithdrawals: 1,
+        totalVolume: { [ETH]: '3500 ETH', [USDC]: '70 USDC' },
+        successRate: 85.71,
+      });
+    });
+
+    it('reports no success rate when nothing has completed or failed', async () => {
+      summary = [summaryRow('L1', ETH, BridgeStatus.PENDING, 2, '20')];
+
+      const res = await getDashboard({ windows: '24h' });
+
+      expect(res.json.mock.calls[0]![0].data.stats[0].successRate).toBeNull();
+    });
+
+    it('queries each requested window from its start', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-10T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'clearTimeout'] });
+      try {
+        const res = await getDashboard({ windows: '1h, 7d' });
+
+        expect(mockedDB.getTransferSummarySince.mock.calls.map(([since]) => since.toISOString())).toEqual([
+          '2026-01-09T23:00:00.000Z',
+          '2026-01-03T00:00:00.000Z',
+        ]);
+        expect(res.json.mock.calls[0]![0].data.stats.map((s: { window: string }) => s.window)).toEqual(['1h', '7d']);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it.each(['24h,', '0d', '3w', 'abc'])('rejects malformed windows %p', async windows => {
+      const res = await getDashboard({ windows });
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockedDB.getTransferSummarySince).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('system health', () => {
+    it('reports every dependency healthy when its check succeeds', async () => {
+      const res = await getDashboard();
+
+      const { systemHealth } = res.json.mock.calls[0]![0].data;
+      expect(databaseQuery).toHaveBeenCalledWith('SELECT 1');
+      expect(ping).toHaveBeenCalled();
+      for (const name of ['database', 'redis', 'l1Connection', 'l2Connection']) {
+        expect(systemHealth[name]).toEqual({ status: 'healthy', latencyMs: expect.any(Number) });
+      }
+    });
+
+    it('marks a failing dependency unhealthy with its error without failing the dashboard', async () => {
+      ping.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      const res = await getDashboard();
+
+      expect(res.status).not.toHaveBeenCalled();
+      const { systemHealth } = res.json.mock.calls[0]![0].data;
+      expect(systemHealth.redis).toMatchObject({ status: 'unhealthy', error: 'ECONNREFUSED' });
+      expect(systemHealth.database.status).toBe('healthy');
+    });
+
+    it('marks a dependency that does not answer in time unhealthy', async () => {
+      l2BlockNumber.mockReturnValue(new Promise(() => undefined));
+
+      const res = await getDashboard();
+
+      expect(res.json.mock.calls[0]![0].data.systemHealth.l2Connection).toMatchObject({
+        status: 'unhealthy',
+        error: 'Timed out after 50ms',
+      });
+    });
+
+    it('reports listener state and how far the L1 checkpoint trails the head', async () => {
+      const eventListener = { getStatus: () => ({ isListening: true, lastProcessedBlock: 990 }) };
+      jest.mocked(getServices).mockReturnValue({ eventListener } as unknown as ReturnType<typeof getServices>);
+
+      const res = await getDashboard();
+
+      const { systemHealth, listeners } = res.json.mock.calls[0]![0].data;
+      expect(systemHealth.l1Listener).toEqual({ status: 'healthy' });
+      expect(systemHealth.l2Listener).toEqual({ status: 'disabled' });
+      expect(listeners.l1).toMatchObject({ isListening: true, headBlock: 1000, lagBlocks: 10 });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { canonicalJson, diffSnapshots, GENESIS_HASH, hashAuditEntry, verifyChainSegment } from '@/utils/auditChain';
+import { AuditDiff, AuditLogRecord } from '@/types/auth';
+
+// Builds entries the way SimpleBridgeDB.appendAuditEntry chains them
+function buildChain(actions: Array<{ action: string; diff: AuditDiff }>): AuditLogRecord[] {
+  const entries: AuditLogRecord[] = [];
+  let prevHash = GENESIS_HASH;
+  actions.forEach(({ action, diff }, index) => {
+    const id = String(index + 1);
+    const createdAt = new Date(Date.UTC(2024, 0, 1, 0, 0, index));
+    const fields = { id, actor: 'admin:1', action, target: `L1:${index}`, diff, ip: '10.0.0.1', requestId: `req-${index}` };
+    const hash = hashAuditEntry({ ...fields, createdAt, prevHash });
+    entries.push({
+      id,
+      actor: fields.actor,
+      action,
+      target: fields.target,
+      diff,
+      ip: fields.ip,
+      request_id: fields.requestId,
+      created_at: createdAt,
+      prev_hash: prevHash,
+      hash,
+    });
+    prevHash = hash;
+  });
+  return entries;
+}
+
+describe('audit chain', () => {
+  const chain = () => buildChain([
+    { action: 'deposit.retry', diff: { status: { before: 'FAILED', after: 'PROCESSING' } } },
+    { action: 'deposit.cancel', diff: { status: { before: 'PENDING', after: 'CANCELLED' } } },
+    { action: 'queue.clean', diff: { completed: { before: 120, after: 0 } } },
+  ]);
+
+  it('serialises objects independently of key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } }))
+      .toBe(canonicalJson({ a: { c: null, d: [2, { e: 0, f: 1 }] }, b: 1 }));
+  });
+
+  it('diffs only the fields that changed', () => {
+    expect(diffSnapshots({ role: 'viewer', disabled: false }, { role: 'operator', disabled: false })).toEqual({
+      role: { before: 'viewer', after: 'operator' },
+    });
+    expect(diffSnapshots(null, { role: 'admin' })).toEqual({ role: { before: null, after: 'admin' } });
+  });
+
+  it('accepts an untouched chain', () => {
+    const entries = chain();
+
+    expect(verifyChainSegment(entries, GENESIS_HASH)).toEqual({ ok: true, lastHash: entries[2]!.hash });
+  });
+
+  it('detects an edited entry', () => {
+    const entries = chain();
+    entries[1]!.diff = { status: { before: 'PENDING', after: 'COMPLETED' } };
+
+    expect(verifyChainSegment(entries, GENESIS_HASH)).toEqual({
+      ok: false,
+      brokenAt: '2',
+      reason: 'contents do not match hash',
+    });
+  });
+
+  it('detects a removed entry', () => {
+    const entries = chain();
+    entries.splice(1, 1);
+
+    expect(verifyChainSegment(entries, GENESIS_HASH)).toMatchObject({ ok: false, brokenAt: '3' });
+  });
+
+  it('detects an entry rehashed without updating its successor', () => {
+    const entries = chain();
+    const forged = { ...entries[0]!, actor: 'admin:2' };
+    forged.hash = hashAuditEntry({
+      id: forged.id,
+      actor: forged.actor,
+      action: forged.action,
+      target: forged.target,
+      diff: forged.diff,
+      ip: forged.ip,
+      requestId: forged.request_id,
+      createdAt: forged.created_at,
+      prevHash: forged.prev_hash,
+    });
+    entries[0] = forged;
+
+    expect(verifyChainSegment(entries, GENESIS_HASH)).toMatchObject({ ok: false, brokenAt: '2' });
+  });
+});
@@ -0,0 +1,40 @@
+import { auditAdminAction } from '@/services/AuditLog';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { AuthRequest } from '@/middleware/auth';
+import { raiseAlert } from '@/utils/alerts';
+
+jest.mock('@/config/database-simple');
+jest.mock('@/utils/alerts');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const req = { user: { id: '7' }, ip: '10.0.0.1', requestId: 'req-1' } as unknown as AuthRequest;
+
+describe('auditAdminAction', () => {
+  it('appends the changed fields under the admin actor', async () => {
+    await auditAdminAction(req, 'token.update', 'L1:0xabc', { paused: false, symbol: 'USDC' }, { paused: true, symbol: 'USDC' });
+
+    expect(mockedDB.appendAuditEntry).toHaveBeenCalledWith({
+      actor: 'admin:7',
+      action: 'token.update',
+      target: 'L1:0xabc',
+      diff: { paused: { before: false, after: true } },
+      ip: '10.0.0.1',
+      requestId: 'req-1',
+    });
+    expect(raiseAlert).not.toHaveBeenCalled();
+  });
+
+  it('raises a critical alert instead of failing when the entry cannot be written', async () => {
+    mockedDB.appendAuditEntry.mockRejectedValue(new Error('connection reset'));
+
+    await expect(auditAdminAction(req, 'deposit.retry', 'L1:42', null, { status: 'PROCESSING' })).resolves.toBeUndefined();
+
+    expect(raiseAlert).toHaveBeenCalledWith('critical', 'Admin action missing from audit log', expect.objectContaining({
+      actor: 'admin:7',
+      action: 'deposit.retry',
+      target: 'L1:42',
+      error: 'connection reset',
+    }));
+  });
+});
@@ -0,0 +1,97 @@
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import {
+  BridgeConfigError,
+  defaultBridgeConfig,
+  fromStoredConfig,
+  getBridgeConfig,
+  requiredDepositConfirmations,
+  restoreBridgeConfig,
+  updateBridgeConfig,
+  validateBridgeConfig,
+} from '@/config/bridgeConfig';
+import { BridgeConfigVersionRecord, StoredBridgeConfig } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetRedisClient = getRedisClient as jest.MockedFunction<typeof getRedisClient>;
+
+function withConfirmations(config: StoredBridgeConfig, confirmationBlocks: number): StoredBridgeConfig {
+  return { ...config, l1: { ...config.l1, confirmationBlocks } };
+}
+
+function record(version: number, config: StoredBridgeConfig, restoredFrom: number | null = null): BridgeConfigVersionRecord {
+  return { version, config, created_by: 'admin:1', reason: null, restored_from: restoredFrom, created_at: new Date() };
+}
+
+describe('bridge config', () => {
+  const publish = jest.fn();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    publish.mockResolvedValue(1);
+    mockedGetRedisClient.mockReturnValue({ publish } as unknown as ReturnType<typeof getRedisClient>);
+  });
+
+  it('seeds from the environment and converts amounts to bigints', () => {
+    const config = fromStoredConfig(defaultBridgeConfig());
+
+    expect(config.l1.maxGasPrice).toBe(100000000000n);
+    expect(requiredDepositConfirmations(config)).toBe(12);
+  });
+
+  it('accepts the default config', () => {
+    expect(validateBridgeConfig(defaultBridgeConfig())).toEqual(defaultBridgeConfig());
+  });
+
+  it('rejects invalid values', () => {
+    const config = defaultBridgeConfig();
+
+    expect(() => validateBridgeConfig({ ...config, l1: { ...config.l1, gasLimit: '1.5' } })).toThrow(BridgeConfigError);
+    expect(() => validateBridgeConfig({ ...config, feePercentage: 120 })).toThrow(/feePercentage/);
+    expect(() => validateBridgeConfig({ ...config, l2: { ...config.l2, maxGasPrice: '0' } })).toThrow(/maxGasPrice/);
+    expect(() => validateBridgeConfig({ ...config, l1: { ...config.l1, gasLimit: '000' } })).toThrow(/gasLimit/);
+  });
+
+  it('never requires fewer confirmations than minConfirmations', () => {
+    expect(requiredDepositConfirmations(fromStoredConfig(withConfirmations(defaultBridgeConfig(), 3)))).toBe(12);
+  });
+
+  it('applies an update locally and announces the version', async () => {
+    const updated = withConfirmations(defaultBridgeConfig(), 20);
+    mockedDB.saveBridgeConfigVersion.mockImplementation(async entry => record(entry.expectedVersion + 1, entry.config));
+
+    const saved = await updateBridgeConfig(updated, 3, 'admin:1', 'deeper reorg protection');
+
+    expect(saved.version).toBe(4);
+    expect(requiredDepositConfirmations()).toBe(20);
+    expect(publish).toHaveBeenCalledWith('bridge:config', JSON.stringify({ version: 4 }));
+  });
+
+  it('refuses an update based on a stale version', async () => {
+    mockedDB.saveBridgeConfigVersion.mockResolvedValue(null);
+
+    await expect(updateBridgeConfig(defaultBridgeConfig(), 1, 'admin:1', null)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('restores an earlier version as a new one', async () => {
+    const original = defaultBridgeConfig();
+    mockedDB.getBridgeConfigVersion.mockResolvedValue(record(2, original));
+    mockedDB.saveBridgeConfigVersion.mockImplementation(async entry => record(9, entry.config, entry.restoredFrom));
+
+    const saved = await restoreBridgeConfig(2, 8, 'admin:1', 'roll back confirmation change');
+
+    expect(mockedDB.saveBridgeConfigVersion).toHaveBeenCalledWith(expect.objectContaining({ restoredFrom: 2, expectedVersion: 8 }));
+    expect(saved.restored_from).toBe(2);
+    expect(getBridgeConfig().l1.confirmationBlocks).toBe(12);
+  });
+
+  it('reports a missing version as not found', async () => {
+    mockedDB.getBridgeConfigVersion.mockResolvedValue(null);
+
+    await expect(restoreBridgeConfig(42, 9, 'admin:1', null)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,215 @@
+import { ethers } from 'ethers';
+import { BridgeEventListener } from '@/services/BridgeEventListener';
+import { BridgeProcessor } from '@/services/BridgeProcessor';
+import { ReorgDetector } from '@/services/ReorgDetector';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { BRIDGE_L1_ABI } from '@/config/abis';
+import { L1DepositEvent } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+jest.mock('@/services/ReorgDetector');
+// Factory mock: the processor pulls in the queue and signers, none of which the listener needs
+jest.mock('@/services/BridgeProcessor', () => ({ BridgeProcessor: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedReorgDetector = ReorgDetector as jest.MockedClass<typeof ReorgDetector>;
+
+const L1_BRIDGE = '0x1111111111111111111111111111111111111111';
+const USER = ethers.getAddress('0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7');
+const l1Interface = new ethers.Interface(BRIDGE_L1_ABI);
+
+// A DepositETH log as eth_getLogs returns it
+function depositLog(depositId: number, blockNumber: number, index: number = 0): ethers.Log {
+  const { topics, data } = l1Interface.encodeEventLog('DepositETH', [depositId, USER, 1000n, 0n, 1700000000n]);
+  return {
+    address: L1_BRIDGE,
+    topics,
+    data,
+    blockNumber,
+    blockHash: ethers.zeroPadValue(ethers.toBeHex(blockNumber), 32),
+    index,
+    transactionHash: ethers.zeroPadValue(ethers.toBeHex(depositId), 32),
+  } as unknown as ethers.Log;
+}
+
+describe('BridgeEventListener', () => {
+  const envBackup = { ...process.env };
+  let logs: ethers.Log[];
+  let head: number;
+  let processL1Deposit: jest.Mock<Promise<void>, [L1DepositEvent]>;
+  let getLogs: jest.SpyInstance;
+  let listener: BridgeEventListener;
+
+  beforeEach(() => {
+    process.env.L1_RPC_URL = 'http://127.0.0.1:8545';
+    process.env.L1_BRIDGE_CONTRACT = L1_BRIDGE;
+    process.env.L1_INGESTION_MODE = 'polling';
+    process.env.L1_LOG_CHUNK_SIZE = '10';
+    process.env.L1_POLL_INTERVAL_MS = '60000';
+    delete process.env.L1_START_BLOCK;
+
+    logs = [];
+    head = 125;
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => head);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlock').mockResolvedValue(null);
+    getLogs = jest.spyOn(ethers.JsonRpcProvider.prototype, 'getLogs').mockImplementation(async filter => {
+      const { fromBlock, toBlock } = filter as ethers.Filter;
+      return logs.filter(log => log.blockNumber >= Number(fromBlock) && log.blockNumber <= Number(toBlock));
+    });
+    mockedReorgDetector.prototype.detectReorg.mockResolvedValue(null);
+
+    processL1Deposit = jest.fn<Promise<void>, [L1DepositEvent]>().mockResolvedValue();
+    listener = new BridgeEventListener({ processL1Deposit } as unknown as BridgeProcessor);
+  });
+
+  afterEach(async () => {
+    await listener.stop();
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('starts from L1_START_BLOCK on first run and catches up in chunks', async () => {
+    process.env.L1_START_BLOCK = '100';
+    mockedDB.getLastProcessedBlock.mockResolvedValue(null);
+
+    await listener.start();
+
+    expect(mockedDB.saveLastProcessedBlock.mock.calls).toEqual([
+      ['l1_deposits', 99],
+      ['l1_deposits', 109],
+      ['l1_deposits', 119],
+      ['l1_deposits', 125],
+    ]);
+    expect(getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock])).toEqual([
+      [100, 109],
+      [110, 119],
+      [120, 125],
+    ]);
+    expect(listener.getStatus().lastProcessedBlock).toBe(125);
+  });
+
+  it('starts from head on first run without L1_START_BLOCK', async () => {
+    mockedDB.getLastProcessedBlock.mockResolvedValue(null);
+
+    await listener.start();
+
+    expect(mockedDB.saveLastProcessedBlock).toHaveBeenCalledTimes(1);
+    expect(mockedDB.saveLastProcessedBlock).toHaveBeenCalledWith('l1_deposits', 125);
+    expect(getLogs).not.toHaveBeenCalled();
+  });
+
+  it('replays deposits missed since the stored checkpoint in chain order', async () => {
+    mockedDB.getLastProcessedBlock.mockResolvedValue(110);
+    logs = [depositLog(3, 118), depositLog(2, 112, 1), depositLog(1, 112, 0), depositLog(9, 105)];
+
+    await listener.start();
+
+    expect(processL1Deposit.mock.calls.map(([event]) => event.depositId)).toEqual([1n, 2n, 3n]);
+    expect(processL1Deposit).toHaveBeenCalledWith(expect.objectContaining({
+      user: USER,
+      token: ethers.ZeroAddress,
+      amount: 1000n,
+      blockNumber: 112n,
+      transactionHash: ethers.zeroPadValue('0x01', 32),
+    }));
+    expect(mockedDB.saveLastProcessedBlock).toHaveBeenLastCalledWith('l1_deposits', 125);
+  });
+
+  it('keeps the checkpoint before a chunk whose deposit could not be saved', async () => {
+    mockedDB.getLastProcessedBlock.mockResolvedValue(100);
+    logs = [depositLog(1, 105), depositLog(2, 115), depositLog(3, 122)];
+    processL1Deposit.mockImplementation(async event => {
+      if (event.depositId === 2n) {
+        throw new Error('database unavailable');
+      }
+    });
+
+    await listener.start();
+
+    expect(mockedDB.saveLastProcessedBlock.mock.calls).toEqual([['l1_deposits', 110]]);
+    expect(listener.getStatus().lastProcessedBlock).toBe(110);
+    expect(processL1Deposit).not.toHaveBeenCalledWith(expect.objectContaining({ depositId: 3n }));
+  });
+
+  it('rewinds the checkpoint to before a reorged block', async () => {
+    mockedDB.getLastProcessedBlock.mockResolvedValue(120);
+    mockedReorgDetector.prototype.detectReorg.mockResolvedValue(115);
+    logs = [depositLog(4, 116)];
+
+    await listener.start();
+
+    expect(mockedDB.saveLastProcessedBlock.mock.calls[0]).toEqual(['l1_deposits', 114]);
+    expect(getLogs.mock.calls[0]![0]).toMatchObject({ fromBlock: 115, toBlock: 124 });
+    expect(processL1Deposit).toHaveBeenCalledWith(expect.objectContaining({ depositId: 4n }));
+  });
+
+  describe('polling mode', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      mockedDB.getLastProcessedBlock.mockResolvedValue(125);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('fetches logs for new blocks on every poll', async () => {
+      await listener.start();
+      expect(getLogs).not.toHaveBeenCalled();
+
+      head = 130;
+      logs = [depositLog(7, 128)];
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(getLogs).toHaveBeenCalledTimes(1);
+      expect(getLogs.mock.calls[0]![0]).toMatchObject({ address: L1_BRIDGE, fromBlock: 126, toBlock: 130 });
+      expect(processL1Deposit).toHaveBeenCalledWith(expect.objectContaining({ depositId: 7n }));
+      expect(mockedDB.saveLastProcessedBlock).toHaveBeenLastCalledWith('l1_deposits', 130);
+
+      head = 131;
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(getLogs.mock.calls[1]![0]).toMatchObject({ fromBlock: 131, toBlock: 131 });
+    });
+
+    it('keeps polling after a failed poll', async () => {
+      await listener.start();
+
+      jest.mocked(ethers.JsonRpcProvider.prototype.getBlockNumber).mockRejectedValueOnce(new Error('rpc timeout'));
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(getLogs).not.toHaveBeenCalled();
+
+      head = 127;
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(getLogs.mock.calls[0]![0]).toMatchObject({ fromBlock: 126, toBlock: 127 });
+    });
+
+    it('stops polling once stopped', async () => {
+      await listener.start();
+      await listener.stop();
+
+      head = 130;
+      await jest.advanceTimersByTimeAsync(5 * 60000);
+
+      expect(getLogs).not.toHaveBeenCalled();
+      expect(listener.getStatus()).toMatchObject({ isListening: false, ingestionMode: 'polling' });
+    });
+
+    it('never installs eth_newFilter subscriptions', async () => {
+      const on = jest.spyOn(ethers.Contract.prototype, 'on');
+
+      await listener.start();
+
+      expect(on).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rejects an unknown ingestion mode', () => {
+    process.env.L1_INGESTION_MODE = 'websocket';
+
+    expect(() => new BridgeEventListener({ processL1Deposit } as unknown as BridgeProcessor))
+      .toThrow("Invalid L1_INGESTION_MODE: websocket (expected 'polling' or 'subscription')");
+  });
+});
@@ -0,0 +1,323 @@
+import { ethers } from 'ethers';
+import Queue from 'bull';
+import { BridgeProcessor } from '@/services/BridgeProcessor';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getBridgeQueue } from '@/config/redis';
+import { releaseDeferral } from '@/services/GasPolicy';
+import { getReleasePause, releaseOutflow, reserveOutflow, setReleasePause } from '@/services/OutflowLimiter';
+import { TransactionManager } from '@/services/TransactionManager';
+import { depositReleaseReference } from '@/services/L2ReleaseLookup';
+import { BRIDGE_L1_ABI } from '@/config/abis';
+import { BridgeDepositRecord, BridgeJob, BridgeStatus, BridgeTokenRecord } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn(), getBridgeQueue: jest.fn() }));
+jest.mock('@/services/TransactionManager');
+jest.mock('@/services/L2ReleaseLookup');
+jest.mock('@/services/GasPolicy');
+jest.mock('@/services/OutflowLimiter');
+jest.mock('@/utils/alerts');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetBridgeQueue = getBridgeQueue as jest.MockedFunction<typeof getBridgeQueue>;
+const mockedReleaseDeferral = releaseDeferral as jest.MockedFunction<typeof releaseDeferral>;
+
+const L1_BRIDGE = '0x1111111111111111111111111111111111111111';
+const USER = ethers.getAddress('0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7');
+const BLOCK_HASH = ethers.zeroPadValue('0x6e', 32);
+const TX_HASH = ethers.zeroPadValue('0x2a', 32);
+const l1Interface = new ethers.Interface(BRIDGE_L1_ABI);
+
+const ETH_TOKEN = {
+  l1_address: ethers.ZeroAddress,
+  l2_address: null,
+  symbol: 'ETH',
+  name: 'Ether',
+  decimals: 18,
+  min_amount: '0',
+  max_amount: (100n * 10n ** 18n).toString(),
+  is_native: true,
+  enabled: true,
+  paused: false,
+  approval_threshold: null,
+  outflow_limit: null,
+  reference_price: null,
+} as BridgeTokenRecord;
+
+function makeDeposit(status: BridgeStatus, overrides: Partial<BridgeDepositRecord> = {}): BridgeDepositRecord {
+  return {
+    deposit_id: '42',
+    user_address: USER.toLowerCase(),
+    token_address: ethers.ZeroAddress,
+    amount: '1000000000000000000',
+    nonce: '0',
+    source_chain: 'L1',
+    target_chain: 'L2',
+    status,
+    tx_hash: TX_HASH,
+    block_number: '110',
+    block_hash: BLOCK_HASH,
+    log_index: 0,
+    retry_count: 0,
+    created_at: new Date(),
+    ...overrides,
+  } as BridgeDepositRecord;
+}
+
+// The L1 receipt of the deposit transaction, as verifyDepositOnChain reads it
+function depositReceipt(overrides: { blockHash?: string; address?: string; depositId?: number } = {}): ethers.TransactionReceipt {
+  const { topics, data } = l1Interface.encodeEventLog('DepositETH', [overrides.depositId ?? 42, USER, 10n ** 18n, 0n, 1700000000n]);
+  return {
+    status: 1,
+    blockNumber: 110,
+    blockHash: overrides.blockHash ?? BLOCK_HASH,
+    logs: [{ address: overrides.address ?? L1_BRIDGE, topics, data }],
+  } as unknown as ethers.TransactionReceipt;
+}
+
+function makeJob(deposit: BridgeDepositRecord, attemptsMade: number = 0, attempts: number = 3): Queue.Job<BridgeJob> {
+  return {
+    data: {
+      depositId: deposit.deposit_id,
+      user: deposit.user_address,
+      token: deposit.token_address,
+      amount: deposit.amount,
+      sourceChain: 'L1',
+      targetChain: 'L2',
+      txHash: deposit.tx_hash,
+      blockNumber: deposit.block_number,
+    },
+    attemptsMade,
+    opts: { attempts },
+    discard: jest.fn(),
+  } as unknown as Queue.Job<BridgeJob>;
+}
+
+describe('BridgeProcessor', () => {
+  const envBackup = { ...process.env };
+  let head: number;
+  let receipt: ethers.TransactionReceipt | null;
+  let queue: { process: jest.Mock; getJob: jest.Mock; add: jest.Mock; pause: jest.Mock };
+  let processor: BridgeProcessor;
+
+  // The Bull handler the processor registered, i.e. processBridgeJob
+  const runJob = (job: Queue.Job<BridgeJob>) => queue.process.mock.calls[0]![2](job);
+
+  beforeEach(() => {
+    process.env.L1_RPC_URL = 'http://127.0.0.1:8545';
+    process.env.L2_RPC_URL = 'http://127.0.0.1:9545';
+    process.env.L1_BRIDGE_CONTRACT = L1_BRIDGE;
+    process.env.L2_BRIDGE_CONTRACT = '0x2222222222222222222222222222222222222222';
+    process.env.CONFIRMATION_BLOCKS = '12';
+
+    head = 130;
+    receipt = depositReceipt();
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockImplementation(async () => head);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransactionReceipt').mockImplementation(async () => receipt);
+
+    queue = { process: jest.fn(), getJob: jest.fn().mockResolvedValue(null), add: jest.fn().mockResolvedValue({}), pause: jest.fn() };
+    mockedGetBridgeQueue.mockReturnValue(queue as unknown as ReturnType<typeof getBridgeQueue>);
+    mockedDB.transitionDeposit.mockResolvedValue(true);
+    mockedDB.getSignerTransactionHashes.mockResolvedValue([]);
+    mockedReleaseDeferral.mockResolvedValue(null);
+
+    processor = new BridgeProcessor(ethers.Wallet.createRandom());
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  describe('re-verification before release', () => {
+    it('returns a deposit that lacks the required confirmations to CONFIRMING without counting a retry', async () => {
+      head = 121;
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+      const job = makeJob(deposit, 2, 3);
+
+      await expect(runJob(job)).resolves.toEqual({ success: false, deferred: true, reason: 'Insufficient confirmations: 11/12' });
+      expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('42', BridgeStatus.PROCESSING, BridgeStatus.CONFIRMING, expect.objectContaining({
+        actor: 'system:processor',
+      }));
+      expect(mockedDB.incrementRetryCount).not.toHaveBeenCalled();
+      expect(job.discard).toHaveBeenCalled();
+    });
+
+    it.each([
+      ['the transaction is gone', null],
+      ['the transaction landed in another block', depositReceipt({ blockHash: ethers.zeroPadValue('0x6f', 32) })],
+      ['the log comes from another contract', depositReceipt({ address: '0x3333333333333333333333333333333333333333' })],
+      ['the log is for another deposit', depositReceipt({ depositId: 43 })],
+    ])('marks the deposit REORGED when %s', async (_case, canonicalReceipt) => {
+      receipt = canonicalReceipt;
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit))).resolves.toEqual({ success: false, reorged: true });
+      expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('42', BridgeStatus.PROCESSING, BridgeStatus.REORGED, expect.objectContaining({
+        actor: 'system:processor',
+        failureReason: 'Deposit log not found on canonical L1 chain',
+      }));
+    });
+
+    it('skips a job whose deposit is no longer queued', async () => {
+      const deposit = makeDeposit(BridgeStatus.CANCELLED);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit))).resolves.toEqual({ success: false, skipped: true });
+      expect(ethers.JsonRpcProvider.prototype.getTransactionReceipt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('queueing and retries', () => {
+    it('queues a confirmed deposit under its deposit id', async () => {
+      const deposit = makeDeposit(BridgeStatus.CONFIRMING, { amount: (150n * 10n ** 18n).toString() });
+
+      await processor.enqueueConfirmed(deposit);
+
+      expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('42', BridgeStatus.CONFIRMING, BridgeStatus.PROCESSING, expect.anything());
+      expect(queue.add).toHaveBeenCalledWith('process-bridge', expect.objectContaining({ depositId: '42' }), { jobId: '42', priority: 1 });
+    });
+
+    it('replaces a stale job Bull still holds for the deposit', async () => {
+      const staleJob = { remove: jest.fn() };
+      queue.getJob.mockResolvedValue(staleJob);
+
+      await processor.enqueueConfirmed(makeDeposit(BridgeStatus.CONFIRMING));
+
+      expect(queue.getJob).toHaveBeenCalledWith('42');
+      expect(staleJob.remove).toHaveBeenCalled();
+      expect(queue.add).toHaveBeenCalled();
+    });
+
+    it('does not queue a deposit another worker claimed first', async () => {
+      mockedDB.transitionDeposit.mockResolvedValue(false);
+
+      await processor.enqueueConfirmed(makeDeposit(BridgeStatus.CONFIRMING));
+
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+
+    it('puts the deposit back to CONFIRMING when the job cannot be queued', async () => {
+      queue.add.mockRejectedValue(new Error('redis down'));
+
+      await expect(processor.enqueueConfirmed(makeDeposit(BridgeStatus.CONFIRMING))).rejects.toThrow('redis down');
+      expect(mockedDB.transitionDeposit).toHaveBeenLastCalledWith('42', BridgeStatus.PROCESSING, BridgeStatus.CONFIRMING, expect.objectContaining({
+        reason: 'Failed to queue release job',
+      }));
+    });
+
+    it('queues an operator retry of a failed deposit', async () => {
+      await expect(processor.retryFailed(makeDeposit(BridgeStatus.FAILED), 'admin:alice')).resolves.toBe(true);
+
+      expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('42', BridgeStatus.FAILED, BridgeStatus.PROCESSING, expect.objectContaining({
+        actor: 'admin:alice',
+      }));
+      expect(queue.add).toHaveBeenCalledWith('process-bridge', expect.objectContaining({ depositId: '42' }), expect.anything());
+    });
+
+    it.each([BridgeStatus.FAILED, BridgeStatus.HELD_FOR_REVIEW, BridgeStatus.AWAITING_APPROVAL])(
+      'hands the deposit to the scheduler when the retry of a %s deposit cannot be queued',
+      async status => {
+        queue.add.mockRejectedValue(new Error('redis down'));
+
+        await expect(processor.retryFailed(makeDeposit(status), 'admin:alice')).rejects.toThrow('redis down');
+        expect(mockedDB.transitionDeposit).toHaveBeenLastCalledWith('42', BridgeStatus.PROCESSING, BridgeStatus.CONFIRMING, expect.objectContaining({
+          actor: 'admin:alice',
+          reason: 'Failed to queue retry job',
+        }));
+      }
+    );
+
+    it('counts a failed attempt and leaves the retry to Bull', async () => {
+      jest.mocked(ethers.JsonRpcProvider.prototype.getTransactionReceipt).mockRejectedValue(new Error('rpc unavailable'));
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit, 1, 3))).rejects.toThrow('rpc unavailable');
+
+      expect(mockedDB.incrementRetryCount).toHaveBeenCalledWith('42', 'rpc unavailable');
+      expect(mockedDB.transitionDeposit).not.toHaveBeenCalled();
+    });
+
+    it('marks the deposit FAILED once Bull has no attempts left', async () => {
+      jest.mocked(ethers.JsonRpcProvider.prototype.getTransactionReceipt).mockRejectedValue(new Error('rpc unavailable'));
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit, 2, 3))).rejects.toThrow('rpc unavailable');
+
+      expect(mockedDB.incrementRetryCount).toHaveBeenCalledTimes(1);
+      expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('42', BridgeStatus.PROCESSING, BridgeStatus.FAILED, expect.objectContaining({
+        actor: 'system:processor',
+        failureReason: 'rpc unavailable',
+      }));
+    });
+  });
+
+  describe('outflow limits', () => {
+    beforeEach(() => {
+      mockedDB.getBridgeToken.mockResolvedValue(ETH_TOKEN);
+      jest.mocked(depositReleaseReference).mockImplementation(id => `deposit:L1:${id}`);
+      jest.mocked(getReleasePause).mockResolvedValue(null);
+      jest.mocked(reserveOutflow).mockResolvedValue(null);
+    });
+
+    it('does not count a release found already sent on L2', async () => {
+      jest.mocked(processor['l2ReleaseLookup'].findRelease).mockResolvedValue({ txHash: ethers.zeroPadValue('0x2b', 32) } as never);
+      // The L1 deposit receipt, then no receipt for the L2 release
+      jest.mocked(ethers.JsonRpcProvider.prototype.getTransactionReceipt).mockResolvedValueOnce(receipt).mockResolvedValueOnce(null);
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit))).resolves.toEqual(expect.objectContaining({ reconciled: true }));
+      expect(reserveOutflow).not.toHaveBeenCalled();
+    });
+
+    it('takes the reservation back when the deposit changed status before submission', async () => {
+      mockedDB.transitionDeposit.mockResolvedValue(false);
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit))).resolves.toEqual({ success: false, skipped: true });
+      expect(reserveOutflow).toHaveBeenCalledWith('deposit:L1:42', ETH_TOKEN, 10n ** 18n);
+      expect(releaseOutflow).toHaveBeenCalledWith('deposit:L1:42', ethers.ZeroAddress);
+    });
+
+    it('takes the reservation back when the release fails for good before anything was sent', async () => {
+      jest.mocked(TransactionManager.prototype.send).mockRejectedValue(new Error('insufficient funds'));
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit, 2, 3))).rejects.toThrow('insufficient funds');
+      expect(mockedDB.getSignerTransactionHashes).toHaveBeenCalledWith('deposit:L1:42');
+      expect(releaseOutflow).toHaveBeenCalledWith('deposit:L1:42', ethers.ZeroAddress);
+    });
+
+    it('keeps the reservation of a failed release that was broadcast', async () => {
+      jest.mocked(TransactionManager.prototype.send).mockRejectedValue(new Error('confirmation timeout'));
+      mockedDB.getSignerTransactionHashes.mockResolvedValue([ethers.zeroPadValue('0x2b', 32)]);
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit, 2, 3))).rejects.toThrow('confirmation timeout');
+      expect(releaseOutflow).not.toHaveBeenCalled();
+    });
+
+    it('holds the deposit without sending when the release would exceed a limit', async () => {
+      jest.mocked(reserveOutflow).mockResolvedValue('ETH outflow would exceed its limit');
+      jest.mocked(setReleasePause).mockResolvedValue({
+        pause: { reason: 'ETH outflow would exceed its limit', pausedBy: 'system:outflow-limiter', pausedAt: '' },
+        created: true,
+      });
+      const deposit = makeDeposit(BridgeStatus.PROCESSING);
+      mockedDB.getDepositById.mockResolvedValue(deposit);
+
+      await expect(runJob(makeJob(deposit))).resolves.toEqual({ success: false, paused: true, reason: 'ETH outflow would exceed its limit' });
+      expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('42', BridgeStatus.PROCESSING, BridgeStatus.CONFIRMING, expect.anything());
+      expect(queue.pause).toHaveBeenCalled();
+      expect(TransactionManager.prototype.send).not.toHaveBeenCalled();
+    });
+  });
+});
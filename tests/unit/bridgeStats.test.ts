@@ -0,0 +1,54 @@
+import { buildBridgeStats, percentileFromBuckets } from '@/utils/bridgeStats';
+import { BridgeStatus, ProcessingTimeBucket } from '@/types/bridge';
+
+// Pulled in through the token metadata cache; the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const ETH = '0x0000000000000000000000000000000000000000';
+
+function bucket(upper: number, count: number, totalSeconds: number, token: string = ETH): ProcessingTimeBucket {
+  return { token_address: token, bucket_upper_seconds: upper, transfer_count: String(count), total_seconds: String(totalSeconds) };
+}
+
+describe('bridgeStats', () => {
+  describe('percentileFromBuckets', () => {
+    it('returns the upper bound of the bucket holding the percentile', () => {
+      const buckets = [bucket(60, 90, 3000), bucket(300, 8, 1600), bucket(600, 2, 1000)];
+
+      expect(percentileFromBuckets(buckets, 0.5)).toBe(60);
+      expect(percentileFromBuckets(buckets, 0.95)).toBe(300);
+      expect(percentileFromBuckets(buckets, 0.99)).toBe(600);
+    });
+
+    it('uses the mean of the open-ended bucket and null for an empty histogram', () => {
+      expect(percentileFromBuckets([bucket(2147483647, 2, 200000)], 0.95)).toBe(100000);
+      expect(percentileFromBuckets([], 0.95)).toBeNull();
+    });
+  });
+
+  it('builds totals, completed volume and daily series from the rollups', async () => {
+    const stats = await buildBridgeStats(
+      [
+        { token_address: ETH, status: BridgeStatus.COMPLETED, transfer_count: '3', volume: '2500000000000000000' },
+        { token_address: ETH, status: BridgeStatus.PENDING, transfer_count: '1', volume: '1000000000000000000' },
+        { token_address: ETH, status: BridgeStatus.REORGED, transfer_count: '1', volume: '5000000000000000000' },
+      ],
+      [{ day: '2026-01-02', token_address: ETH, transfer_count: '3', volume: '2500000000000000000' }],
+      [bucket(60, 2, 80), bucket(120, 1, 100)],
+      { from: new Date('2026-01-01T00:00:00Z'), to: new Date('2026-01-07T00:00:00Z'), days: 7 }
+    );
+
+    expect(stats).toMatchObject({
+      totalDeposits: 4,
+      completedBridges: 3,
+      pendingBridges: 1,
+      countsByStatus: { COMPLETED: 3, PENDING: 1, REORGED: 1 },
+      volumeByToken: { [ETH]: '2.5' },
+      averageProcessingTime: 60,
+      p95ProcessingTime: 120,
+      dailyVolume: { '2026-01-02': { [ETH]: '2.5' } },
+      window: { from: '2026-01-01', to: '2026-01-07', days: 7 },
+    });
+    expect(stats.tokenStats[ETH]).toMatchObject({ count: 4, completedCount: 3, decimals: 18 });
+  });
+});
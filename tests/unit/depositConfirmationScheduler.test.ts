@@ -0,0 +1,122 @@
+import { ethers } from 'ethers';
+import { DepositConfirmationScheduler, ConfirmationTarget } from '@/services/DepositConfirmationScheduler';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getL1Provider } from '@/config/providers';
+import { BridgeDepositRecord, BridgeStatus } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+jest.mock('@/config/providers');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetL1Provider = getL1Provider as jest.MockedFunction<typeof getL1Provider>;
+
+function makeDeposit(depositId: string, blockNumber: number, status: BridgeStatus): BridgeDepositRecord {
+  return {
+    deposit_id: depositId,
+    source_chain: 'L1',
+    status,
+    block_number: blockNumber.toString(),
+  } as BridgeDepositRecord;
+}
+
+describe('DepositConfirmationScheduler', () => {
+  const envBackup = { ...process.env };
+  let head: number;
+  let deposits: BridgeDepositRecord[];
+  let target: ConfirmationTarget & { enqueueConfirmed: jest.Mock<Promise<void>, [BridgeDepositRecord]> };
+  let scheduler: DepositConfirmationScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    process.env.CONFIRMATION_POLL_INTERVAL_MS = '1000';
+
+    head = 120;
+    deposits = [];
+    mockedGetL1Provider.mockReturnValue({ getBlockNumber: async () => head } as unknown as ethers.JsonRpcProvider);
+    mockedDB.getDepositsByStatusUpToBlock.mockImplementation(async (status, maxBlockNumber) =>
+      deposits.filter(d => d.status === status && Number(d.block_number) <= maxBlockNumber)
+    );
+    mockedDB.transitionDeposit.mockImplementation(async (depositId, fromStatus, toStatus) => {
+      const deposit = deposits.find(d => d.deposit_id === depositId && d.status === fromStatus);
+      if (deposit) deposit.status = toStatus;
+      return !!deposit;
+    });
+
+    target = {
+      sourceChain: 'L1',
+      requiredConfirmations: 12,
+      enqueueConfirmed: jest.fn<Promise<void>, [BridgeDepositRecord]>().mockResolvedValue(),
+    };
+    scheduler = new DepositConfirmationScheduler(target);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('moves included deposits from PENDING to CONFIRMING', async () => {
+    deposits.push(makeDeposit('1', 110, BridgeStatus.PENDING), makeDeposit('2', 121, BridgeStatus.PENDING));
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(deposits.map(d => d.status)).toEqual([BridgeStatus.CONFIRMING, BridgeStatus.PENDING]);
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('1', BridgeStatus.PENDING, BridgeStatus.CONFIRMING, expect.objectContaining({
+      actor: 'system:scheduler',
+      reason: 'Included in L1 block 110',
+    }));
+  });
+
+  it('queues a deposit only once it has the required confirmations', async () => {
+    deposits.push(makeDeposit('1', 110, BridgeStatus.CONFIRMING));
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(target.enqueueConfirmed).not.toHaveBeenCalled();
+
+    head = 122;
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(target.enqueueConfirmed).toHaveBeenCalledTimes(1);
+    expect(target.enqueueConfirmed).toHaveBeenCalledWith(deposits[0]);
+  });
+
+  it('never queues a deposit straight from PENDING', async () => {
+    deposits.push(makeDeposit('1', 100, BridgeStatus.PENDING));
+    mockedDB.getDepositsByStatusUpToBlock.mockImplementation(async status =>
+      status === BridgeStatus.CONFIRMING ? [] : deposits.filter(d => d.status === status)
+    );
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(deposits[0]!.status).toBe(BridgeStatus.CONFIRMING);
+    expect(target.enqueueConfirmed).not.toHaveBeenCalled();
+  });
+
+  it('queues the rest of the batch when one deposit cannot be queued', async () => {
+    deposits.push(makeDeposit('1', 100, BridgeStatus.CONFIRMING), makeDeposit('2', 101, BridgeStatus.CONFIRMING));
+    target.enqueueConfirmed.mockRejectedValueOnce(new Error('redis down'));
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(target.enqueueConfirmed.mock.calls.map(([record]) => record.deposit_id)).toEqual(['1', '2']);
+  });
+
+  it('keeps ticking after a failed check', async () => {
+    deposits.push(makeDeposit('1', 100, BridgeStatus.CONFIRMING));
+    mockedDB.getDepositsByStatusUpToBlock.mockRejectedValueOnce(new Error('database down'));
+
+    scheduler.start();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(target.enqueueConfirmed).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(target.enqueueConfirmed).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  canTransition,
+  assertTransition,
+  transitionDeposit,
+  InvalidTransitionError,
+} from '@/services/DepositStateMachine';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { BridgeDepositRecord, BridgeStatus } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+function makeDeposit(status: BridgeStatus, overrides: Partial<BridgeDepositRecord> = {}): BridgeDepositRecord {
+  return {
+    id: 1,
+    deposit_id: '1',
+    user_address: '0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7',
+    token_address: '0x0000000000000000000000000000000000000000',
+    amount: '1000000000000000000',
+    nonce: '0',
+    source_chain: 'L1',
+    target_chain: 'L2',
+    status,
+    tx_hash: '0xtx1',
+    block_number: '100',
+    block_hash: '0xblock100',
+    log_index: 0,
+    retry_count: 0,
+    failure_reason: null,
+    completed_tx_hash: null,
+    completed_at: null,
+    l2_tx_hash: null,
+    l2_block_number: null,
+    l2_gas_used: null,
+    l2_effective_gas_price: null,
+    l2_deposit_id: null,
+    l2_token: null,
+    submitted_at: null,
+    confirmed_at: null,
+    l1_release_tx_hash: null,
+    l1_release_block_number: null,
+    l1_release_gas_used: null,
+    l1_release_effective_gas_price: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('DepositStateMachine', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedDB.transitionDeposit.mockResolvedValue(true);
+  });
+
+  it('allows the happy path in order only', () => {
+    const path = [
+      BridgeStatus.PENDING,
+      BridgeStatus.CONFIRMING,
+      BridgeStatus.PROCESSING,
+      BridgeStatus.SUBMITTED,
+      BridgeStatus.COMPLETED,
+    ];
+    for (let i = 0; i < path.length - 1; i++) {
+      expect(canTransition(path[i]!, path[i + 1]!)).toBe(true);
+    }
+
+    expect(canTransition(BridgeStatus.PENDING, BridgeStatus.PROCESSING)).toBe(false);
+    expect(canTransition(BridgeStatus.COMPLETED, BridgeStatus.PROCESSING)).toBe(false);
+  });
+
+  it('only lets FAILED deposits be retried', () => {
+    expect(canTransition(BridgeStatus.FAILED, BridgeStatus.PROCESSING)).toBe(true);
+    expect(canTransition(BridgeStatus.COMPLETED, BridgeStatus.PROCESSING)).toBe(false);
+    expect(canTransition(BridgeStatus.REFUND_REQUIRED, BridgeStatus.PROCESSING)).toBe(false);
+  });
+
+  it('only releases a deposit awaiting approval through PROCESSING', () => {
+    expect(canTransition(BridgeStatus.PROCESSING, BridgeStatus.AWAITING_APPROVAL)).toBe(true);
+    expect(canTransition(BridgeStatus.AWAITING_APPROVAL, BridgeStatus.PROCESSING)).toBe(true);
+    expect(canTransition(BridgeStatus.AWAITING_APPROVAL, BridgeStatus.SUBMITTED)).toBe(false);
+    expect(canTransition(BridgeStatus.AWAITING_APPROVAL, BridgeStatus.CANCELLED)).toBe(true);
+  });
+
+  it('refuses to cancel once the release has been submitted', () => {
+    expect(() => assertTransition(makeDeposit(BridgeStatus.SUBMITTED), BridgeStatus.CANCELLED))
+      .toThrow(InvalidTransitionError);
+    expect(() => assertTransition(makeDeposit(BridgeStatus.FAILED, { l2_tx_hash: '0xl2' }), BridgeStatus.CANCELLED))
+      .toThrow('release transaction already submitted');
+    expect(() => assertTransition(makeDeposit(BridgeStatus.FAILED), BridgeStatus.CANCELLED)).not.toThrow();
+  });
+
+  it('reports invalid transitions as 409 without touching the database', async () => {
+    const error = await transitionDeposit(makeDeposit(BridgeStatus.COMPLETED), BridgeStatus.CANCELLED, { actor: 'admin:1' })
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(InvalidTransitionError);
+    expect(error.status).toBe(409);
+    expect(mockedDB.transitionDeposit).not.toHaveBeenCalled();
+  });
+
+  it('compares and sets against the status it was read with', async () => {
+    const withdrawal = makeDeposit(BridgeStatus.FAILED, { source_chain: 'L2' });
+
+    await transitionDeposit(withdrawal, BridgeStatus.PROCESSING, { actor: 'admin:7', reason: 'RPC recovered' });
+
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('1', BridgeStatus.FAILED, BridgeStatus.PROCESSING, {
+      sourceChain: 'L2',
+      actor: 'admin:7',
+      reason: 'RPC recovered',
+    });
+  });
+});
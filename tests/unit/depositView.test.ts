@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import {
+  toDepositView,
+  toDepositLifecycle,
+  estimateSecondsRemaining,
+  encodeCursor,
+  decodeCursor,
+  findUnindexedDeposit,
+} from '@/utils/depositView';
+import { BRIDGE_L1_ABI } from '@/config/abis';
+import { BridgeDepositRecord, BridgeStatus } from '@/types/bridge';
+
+// Pulled in through the runtime bridge config; the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const deposit: BridgeDepositRecord = {
+  id: 17,
+  deposit_id: '5',
+  user_address: '0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7',
+  token_address: '0x0000000000000000000000000000000000000000',
+  amount: '1500000000000000000',
+  nonce: '3',
+  source_chain: 'L1',
+  target_chain: 'L2',
+  status: BridgeStatus.COMPLETED,
+  tx_hash: '0xl1',
+  block_number: '100',
+  block_hash: '0xblock',
+  log_index: 0,
+  retry_count: 0,
+  failure_reason: null,
+  completed_tx_hash: '0xl2',
+  completed_at: new Date('2026-01-01T00:05:00.000Z'),
+  l2_tx_hash: '0xl2',
+  l2_block_number: '50',
+  l2_gas_used: '21000',
+  l2_effective_gas_price: '1000000000',
+  l2_deposit_id: '1',
+  l2_token: null,
+  submitted_at: new Date('2026-01-01T00:04:00.000Z'),
+  confirmed_at: new Date('2026-01-01T00:05:00.000Z'),
+  l1_release_tx_hash: null,
+  l1_release_block_number: null,
+  l1_release_gas_used: null,
+  l1_release_effective_gas_price: null,
+  created_at: new Date('2026-01-01T00:00:00.000Z'),
+  updated_at: new Date('2026-01-01T00:05:00.000Z'),
+};
+
+describe('depositView', () => {
+  it('returns raw and formatted amounts for native ETH', async () => {
+    const view = await toDepositView(deposit);
+
+    expect(view).toMatchObject({
+      depositId: '5',
+      direction: 'deposit',
+      amount: '1500000000000000000',
+      amountFormatted: '1.5',
+      decimals: 18,
+      l1TxHash: '0xl1',
+      l2TxHash: '0xl2',
+    });
+  });
+
+  it('round-trips the pagination cursor', () => {
+    const cursor = encodeCursor({ ...deposit, created_at_key: '2026-01-01 00:00:00.000000' });
+
+    expect(decodeCursor(cursor)).toEqual({ createdAt: '2026-01-01 00:00:00.000000', id: 17 });
+  });
+
+  it('keeps the microseconds of rows created in the same millisecond', () => {
+    const first = { ...deposit, id: 18, created_at_key: '2026-01-01 00:00:00.123456' };
+    const second = { ...deposit, id: 19, created_at_key: '2026-01-01 00:00:00.123789' };
+
+    // Both rows look identical as a JavaScript Date
+    expect(new Date('2026-01-01T00:00:00.123456Z')).toEqual(new Date('2026-01-01T00:00:00.123789Z'));
+
+    expect(decodeCursor(encodeCursor(first))).toEqual({ createdAt: '2026-01-01 00:00:00.123456', id: 18 });
+    expect(decodeCursor(encodeCursor(second))).toEqual({ createdAt: '2026-01-01 00:00:00.123789', id: 19 });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"createdAt":"nope","id":1}').toString('base64url'))).toBeNull();
+    expect(decodeCursor(Buffer.from('{"createdAt":"2026-01-01T00:00:00.000Z","id":1}').toString('base64url'))).toBeNull();
+  });
+
+  it('reports confirmations and L2 release details on the lifecycle', async () => {
+    const lifecycle = await toDepositLifecycle(deposit, 130);
+
+    expect(lifecycle).toMatchObject({
+      indexed: true,
+      confirmations: 30,
+      estimatedSecondsRemaining: 0,
+      l2BlockNumber: '50',
+      submittedAt: deposit.submitted_at,
+    });
+  });
+
+  it('estimates remaining time from missing confirmations', () => {
+    expect(estimateSecondsRemaining(BridgeStatus.PENDING, 10, 12)).toBe(2 * 12 + 60);
+    expect(estimateSecondsRemaining(BridgeStatus.PROCESSING, 15, 12)).toBe(60);
+    expect(estimateSecondsRemaining(BridgeStatus.FAILED, 15, 12)).toBeNull();
+  });
+
+  it('maps an L2 withdrawal to its L2 source and L1 release transactions', async () => {
+    const withdrawal: BridgeDepositRecord = {
+      ...deposit,
+      source_chain: 'L2',
+      target_chain: 'L1',
+      tx_hash: '0xwithdraw',
+      block_number: '900',
+      completed_tx_hash: '0xrelease',
+      l2_tx_hash: null,
+      l2_block_number: null,
+      l1_release_tx_hash: '0xrelease',
+      l1_release_block_number: '120',
+    };
+
+    const lifecycle = await toDepositLifecycle(withdrawal, 1000);
+
+    expect(lifecycle).toMatchObject({
+      direction: 'withdrawal',
+      l1TxHash: '0xrelease',
+      l1BlockNumber: '120',
+      l2TxHash: '0xwithdraw',
+      l2BlockNumber: '900',
+      confirmations: 100,
+      requiredConfirmations: 64,
+    });
+  });
+
+  describe('findUnindexedDeposit', () => {
+    const envBackup = { ...process.env };
+    const L1_BRIDGE = '0x1111111111111111111111111111111111111111';
+    const USER = ethers.getAddress('0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7');
+    const { topics, data } = new ethers.Interface(BRIDGE_L1_ABI).encodeEventLog('DepositETH', [8, USER, 10n ** 18n, 2n, 1700000000n]);
+
+    const receipt = (...logs: Array<{ address: string; topics: readonly string[]; data: string }>) =>
+      ({ hash: '0xl1', blockNumber: 120, logs }) as unknown as ethers.TransactionReceipt;
+
+    beforeEach(() => {
+      process.env.L1_BRIDGE_CONTRACT = L1_BRIDGE;
+    });
+
+    afterAll(() => {
+      process.env = envBackup;
+    });
+
+    it('reports a deposit logged by the L1 bridge', () => {
+      expect(findUnindexedDeposit(receipt({ address: L1_BRIDGE, topics, data }), 125)).toMatchObject({
+        indexed: false,
+        status: 'SEEN_ON_CHAIN',
+        depositId: '8',
+        user: USER,
+        token: ethers.ZeroAddress,
+        amount: '1000000000000000000',
+        nonce: '2',
+        confirmations: 5,
+      });
+    });
+
+    it('ignores look-alike deposit events from other contracts', () => {
+      const foreign = { address: '0x3333333333333333333333333333333333333333', topics, data };
+
+      expect(findUnindexedDeposit(receipt(foreign), 125)).toBeNull();
+    });
+
+    it('skips logs that cannot be decoded', () => {
+      const truncated = { address: L1_BRIDGE, topics, data: '0x1234' };
+
+      expect(findUnindexedDeposit(receipt(truncated), 125)).toBeNull();
+      expect(findUnindexedDeposit(receipt(truncated, { address: L1_BRIDGE, topics, data }), 125)).toMatchObject({ depositId: '8' });
+    });
+
+    it('requires the L1 bridge contract to be configured', () => {
+      process.env.L1_BRIDGE_CONTRACT = '';
+
+      expect(() => findUnindexedDeposit(receipt({ address: L1_BRIDGE, topics, data }), 125)).toThrow('L1 bridge contract not configured');
+    });
+  });
+});
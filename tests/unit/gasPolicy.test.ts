@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { capFees, gasLimitFor, GasPolicyError, isUrgentRelease, releaseDeferral } from '@/services/GasPolicy';
+import { ChainConfig } from '@/types/bridge';
+
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const gwei = (value: number) => ethers.parseUnits(String(value), 'gwei');
+
+const chain: ChainConfig = {
+  chainId: 98765432103,
+  name: 'GoodNet Testnet',
+  rpcUrl: '',
+  bridgeContract: '',
+  confirmationBlocks: 1,
+  gasLimit: 500000n,
+  maxGasPrice: gwei(100),
+};
+
+function feeProvider(gasPrice: bigint): ethers.Provider {
+  return {
+    getFeeData: jest.fn(async () => ({ gasPrice, maxFeePerGas: gasPrice * 2n, maxPriorityFeePerGas: gwei(1) })),
+  } as unknown as ethers.Provider;
+}
+
+describe('gas policy', () => {
+  const envBackup = { ...process.env };
+  let now = Date.UTC(2024, 0, 1);
+
+  beforeEach(() => {
+    // Step past the gas price cache so each test sees its own provider
+    now += 60000;
+    jest.useFakeTimers({ now });
+    process.env.GAS_ESTIMATE_MARGIN_PERCENT = '20';
+    process.env.GAS_MAX_DEFER_MS = '3600000';
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('adds the margin to the gas estimate', () => {
+    expect(gasLimitFor(100000n, chain)).toBe(120000n);
+  });
+
+  it('never sets a gas limit above the chain gasLimit', () => {
+    expect(gasLimitFor(450000n, chain)).toBe(500000n);
+    expect(() => gasLimitFor(600000n, chain)).toThrow(GasPolicyError);
+  });
+
+  it('caps EIP-1559 and legacy fees at maxGasPrice', () => {
+    expect(capFees({ maxFeePerGas: gwei(250), maxPriorityFeePerGas: gwei(120) }, chain))
+      .toEqual({ maxFeePerGas: gwei(100), maxPriorityFeePerGas: gwei(100) });
+    expect(capFees({ maxFeePerGas: gwei(40), maxPriorityFeePerGas: gwei(2) }, chain))
+      .toEqual({ maxFeePerGas: gwei(40), maxPriorityFeePerGas: gwei(2) });
+    expect(capFees({ maxFeePerGas: gwei(150), maxPriorityFeePerGas: null }, chain))
+      .toEqual({ maxFeePerGas: gwei(100), maxPriorityFeePerGas: null });
+  });
+
+  it('treats a release as urgent once its deposit is older than GAS_MAX_DEFER_MS', () => {
+    expect(isUrgentRelease(new Date(now - 59 * 60 * 1000), now)).toBe(false);
+    expect(isUrgentRelease(new Date(now - 60 * 60 * 1000), now)).toBe(true);
+  });
+
+  it('defers non-urgent releases while the gas price is above the cap', async () => {
+    const deferral = await releaseDeferral('L2', feeProvider(gwei(120)), new Date(now));
+
+    expect(deferral).toBe('L2 gas price 120.0 gwei exceeds the cap of 100.0 gwei');
+  });
+
+  it('compares the current gas price, not the doubled maxFeePerGas suggestion', async () => {
+    expect(await releaseDeferral('L2', feeProvider(gwei(80)), new Date(now))).toBeNull();
+  });
+
+  it('never defers urgent releases', async () => {
+    const provider = feeProvider(gwei(500));
+
+    expect(await releaseDeferral('L2', provider, new Date(now - 2 * 60 * 60 * 1000))).toBeNull();
+    expect(provider.getFeeData).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { ethers } from 'ethers';
+import { L1ReleaseLookup } from '@/services/L1ReleaseLookup';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { BRIDGE_L1_ABI } from '@/config/abis';
+
+jest.mock('@/config/database-simple');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const USER = ethers.getAddress('0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7');
+const L1_TOKEN = ethers.getAddress('0x7169d38820dfd117c3fa1f22a697dba58d90ba06');
+const L1_BRIDGE = '0x1111111111111111111111111111111111111111';
+const l1Interface = new ethers.Interface(BRIDGE_L1_ABI);
+
+function makeEvent(args: Record<string, unknown>, txHash: string, blockNumber: number) {
+  return { args, transactionHash: txHash, blockNumber };
+}
+
+function releasedLog(l2WithdrawalId: number, amount: bigint) {
+  const { topics, data } = l1Interface.encodeEventLog('WithdrawalReleased', [l2WithdrawalId, USER, L1_TOKEN, amount, 1700000000n]);
+  return { address: L1_BRIDGE, topics, data };
+}
+
+describe('L1ReleaseLookup', () => {
+  let queryFilter: jest.Mock;
+  let filters: { WithdrawalReleased: jest.Mock };
+  let provider: { getBlockNumber: jest.Mock; getTransactionReceipt: jest.Mock };
+  let lookup: L1ReleaseLookup;
+
+  beforeEach(() => {
+    process.env.L1_LOG_CHUNK_SIZE = '1000';
+    queryFilter = jest.fn().mockResolvedValue([]);
+    filters = {
+      WithdrawalReleased: jest.fn((...args: unknown[]) => ({ event: 'WithdrawalReleased', args })),
+    };
+    provider = {
+      getBlockNumber: jest.fn().mockResolvedValue(2499),
+      getTransactionReceipt: jest.fn().mockResolvedValue(null),
+    };
+    mockedDB.getSignerTransactionHashes.mockResolvedValue([]);
+
+    const l1Contract = {
+      filters,
+      queryFilter,
+      interface: l1Interface,
+      getAddress: async () => L1_BRIDGE,
+    } as unknown as ethers.Contract;
+    lookup = new L1ReleaseLookup(l1Contract, provider as unknown as ethers.Provider, 500);
+  });
+
+  it('filters WithdrawalReleased by withdrawal id, recipient and token in chunks, newest first', async () => {
+    await lookup.findRelease(9n, L1_TOKEN, USER, 100n);
+
+    expect(filters.WithdrawalReleased).toHaveBeenCalledWith(9n, USER, L1_TOKEN);
+    expect(queryFilter.mock.calls.map(([, fromBlock, toBlock]) => [fromBlock, toBlock])).toEqual([
+      [1500, 2499],
+      [500, 1499],
+    ]);
+  });
+
+  it('returns the existing release when the amount matches', async () => {
+    queryFilter.mockResolvedValue([makeEvent({ l2WithdrawalId: 9n, amount: 100n }, '0xabc', 77)]);
+
+    await expect(lookup.findRelease(9n, L1_TOKEN, USER, 100n)).resolves.toEqual({ txHash: '0xabc', blockNumber: 77 });
+  });
+
+  it('ignores releases for a different amount', async () => {
+    queryFilter.mockResolvedValue([makeEvent({ l2WithdrawalId: 9n, amount: 99n }, '0xabc', 77)]);
+
+    await expect(lookup.findRelease(9n, L1_TOKEN, USER, 100n)).resolves.toBeNull();
+  });
+
+  it('finds a release among the transactions sent for the withdrawal without searching logs', async () => {
+    mockedDB.getSignerTransactionHashes.mockResolvedValue(['0xreplaced', '0xmined']);
+    provider.getTransactionReceipt.mockImplementation(async (hash: string) =>
+      hash === '0xmined' ? { hash, blockNumber: 2400, status: 1, logs: [releasedLog(9, 100n)] } : null
+    );
+
+    await expect(lookup.findRelease(9n, L1_TOKEN, USER, 100n)).resolves.toEqual({ txHash: '0xmined', blockNumber: 2400 });
+    expect(mockedDB.getSignerTransactionHashes).toHaveBeenCalledWith('withdrawal:L2:9');
+    expect(queryFilter).not.toHaveBeenCalled();
+  });
+});
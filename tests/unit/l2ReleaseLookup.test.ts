@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { L2ReleaseLookup } from '@/services/L2ReleaseLookup';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { BRIDGE_L2_ABI } from '@/config/abis';
+
+jest.mock('@/config/database-simple');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const USER = ethers.getAddress('0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7');
+const L1_TOKEN = '0x7169D38820dfd117C3FA1f22a697dba58d90BA06';
+const L2_TOKEN = '0x94a9D9AC8a22534E3FaCa9F4e7F2E2cf85d5E4C8';
+const L2_BRIDGE = '0x2222222222222222222222222222222222222222';
+const l2Interface = new ethers.Interface(BRIDGE_L2_ABI);
+
+function makeEvent(args: Record<string, unknown>, txHash: string, blockNumber: number) {
+  return { args, transactionHash: txHash, blockNumber };
+}
+
+// An L2 DepositETH log; its depositId is the one the L2 bridge assigned
+function depositETHLog(l2DepositId: number, to: string, amount: bigint, address: string = L2_BRIDGE) {
+  const { topics, data } = l2Interface.encodeEventLog('DepositETH', [l2DepositId, to, amount, 1700000000n]);
+  return { address, topics, data };
+}
+
+function makeReceipt(hash: string, logs: unknown[], status: number = 1) {
+  return { hash, blockNumber: 77, status, logs } as unknown as ethers.TransactionReceipt;
+}
+
+describe('L2ReleaseLookup', () => {
+  let queryFilter: jest.Mock;
+  let filters: { DepositERC20: jest.Mock };
+  let receipts: Map<string, ethers.TransactionReceipt>;
+  let provider: { getBlockNumber: jest.Mock; getTransactionReceipt: jest.Mock };
+  let lookup: L2ReleaseLookup;
+
+  beforeEach(() => {
+    process.env.L2_LOG_CHUNK_SIZE = '2000';
+    queryFilter = jest.fn().mockResolvedValue([]);
+    filters = {
+      DepositERC20: jest.fn((...args: unknown[]) => ({ event: 'DepositERC20', args })),
+    };
+    receipts = new Map();
+    provider = {
+      getBlockNumber: jest.fn().mockResolvedValue(5999),
+      getTransactionReceipt: jest.fn(async (hash: string) => receipts.get(hash) ?? null),
+    };
+    mockedDB.getSignerTransactionHashes.mockResolvedValue([]);
+
+    const l2Contract = {
+      filters,
+      queryFilter,
+      interface: l2Interface,
+      getAddress: async () => L2_BRIDGE,
+    } as unknown as ethers.Contract;
+    lookup = new L2ReleaseLookup(l2Contract, provider as unknown as ethers.Provider, 1000);
+  });
+
+  describe('ERC20 deposits', () => {
+    it('filters DepositERC20 by l1DepositId in chunks, newest first', async () => {
+      await lookup.findRelease(42n, L1_TOKEN, USER, 500n);
+
+      expect(filters.DepositERC20).toHaveBeenCalledWith(null, 42n);
+      expect(queryFilter.mock.calls.map(([, fromBlock, toBlock]) => [fromBlock, toBlock])).toEqual([
+        [4000, 5999],
+        [2000, 3999],
+        [1000, 1999],
+      ]);
+    });
+
+    it('returns the existing release with its L2 deposit id and token', async () => {
+      queryFilter.mockResolvedValueOnce([
+        makeEvent({ depositId: 7n, l1DepositId: 42n, l2Token: L2_TOKEN, amount: 500n }, '0xabc', 4321),
+      ]);
+
+      await expect(lookup.findRelease(42n, L1_TOKEN, USER, 500n)).resolves.toEqual({
+        txHash: '0xabc',
+        blockNumber: 4321,
+        l2DepositId: 7n,
+        l2Token: L2_TOKEN,
+      });
+      expect(queryFilter).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns null when the deposit was never released', async () => {
+      await expect(lookup.findRelease(42n, L1_TOKEN, USER, 500n)).resolves.toBeNull();
+    });
+  });
+
+  describe('ETH deposits', () => {
+    it('finds the release among the transactions sent for the deposit, whatever id L2 assigned', async () => {
+      mockedDB.getSignerTransactionHashes.mockResolvedValue(['0xdropped', '0xmined']);
+      receipts.set('0xmined', makeReceipt('0xmined', [depositETHLog(3, USER, 10n)]));
+
+      await expect(lookup.findRelease(9n, ethers.ZeroAddress, USER, 10n)).resolves.toEqual({
+        txHash: '0xmined',
+        blockNumber: 77,
+        l2DepositId: 3n,
+        l2Token: null,
+      });
+      expect(mockedDB.getSignerTransactionHashes).toHaveBeenCalledWith('deposit:L1:9');
+      expect(queryFilter).not.toHaveBeenCalled();
+    });
+
+    it('never matches an unrelated DepositETH whose L2 id equals the L1 deposit id', async () => {
+      queryFilter.mockResolvedValue([makeEvent({ depositId: 9n, to: USER, amount: 10n }, '0xother', 55)]);
+
+      await expect(lookup.findRelease(9n, ethers.ZeroAddress, USER, 10n)).resolves.toBeNull();
+      expect(queryFilter).not.toHaveBeenCalled();
+    });
+
+    it('ignores reverted transactions and logs that are not the release', async () => {
+      mockedDB.getSignerTransactionHashes.mockResolvedValue(['0xreverted', '0xwrongamount', '0xforeign']);
+      receipts.set('0xreverted', makeReceipt('0xreverted', [depositETHLog(3, USER, 10n)], 0));
+      receipts.set('0xwrongamount', makeReceipt('0xwrongamount', [depositETHLog(3, USER, 11n)]));
+      receipts.set('0xforeign', makeReceipt('0xforeign', [depositETHLog(3, USER, 10n, '0x3333333333333333333333333333333333333333')]));
+
+      await expect(lookup.findRelease(9n, ethers.ZeroAddress, USER, 10n)).resolves.toBeNull();
+    });
+  });
+
+  it('propagates RPC errors so the job is retried instead of resending', async () => {
+    queryFilter.mockRejectedValue(new Error('rpc unavailable'));
+
+    await expect(lookup.findRelease(42n, L1_TOKEN, USER, 500n)).rejects.toThrow('rpc unavailable');
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pg from 'pg';
+import { loadMigrations, migrateUp, checksumOf, Migration } from '@/config/migrations';
+
+function writeMigrations(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  for (const [name, sql] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), sql);
+  }
+  return dir;
+}
+
+// Minimal pg stand-in: records executed SQL and serves schema_migrations rows
+function makePool(appliedRows: Array<{ version: number; checksum: string; applied_at: Date }>) {
+  const executed: string[] = [];
+  const client = {
+    query: jest.fn(async (sql: string) => {
+      executed.push(sql.trim());
+      if (sql.startsWith('SELECT version, checksum')) {
+        return { rows: appliedRows };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn(),
+  };
+  const pool = { connect: jest.fn(async () => client) } as unknown as pg.Pool;
+  return { pool, executed };
+}
+
+describe('migrations', () => {
+  describe('loadMigrations', () => {
+    it('loads up/down pairs ordered by version with checksums of the up file', () => {
+      const dir = writeMigrations({
+        '002_second.up.sql': 'CREATE TABLE b ();',
+        '002_second.down.sql': 'DROP TABLE b;',
+        '001_first.up.sql': 'CREATE TABLE a ();',
+        '001_first.down.sql': 'DROP TABLE a;',
+        'README.md': 'ignored',
+      });
+
+      const migrations = loadMigrations(dir);
+
+      expect(migrations.map(m => `${m.version}_${m.name}`)).toEqual(['1_first', '2_second']);
+      expect(migrations[0]!.checksum).toBe(checksumOf('CREATE TABLE a ();'));
+      expect(migrations[1]!.downSql).toBe('DROP TABLE b;');
+    });
+
+    it('rejects a migration without a down file', () => {
+      const dir = writeMigrations({ '001_first.up.sql': 'CREATE TABLE a ();' });
+
+      expect(() => loadMigrations(dir)).toThrow('missing its down file');
+    });
+
+    it('rejects two migrations sharing a version', () => {
+      const dir = writeMigrations({
+        '001_first.up.sql': 'x',
+        '001_first.down.sql': 'x',
+        '001_other.up.sql': 'y',
+        '001_other.down.sql': 'y',
+      });
+
+      expect(() => loadMigrations(dir)).toThrow('Duplicate migration version 1');
+    });
+
+    it('loads the repository migrations starting with bridge_deposits', () => {
+      const migrations = loadMigrations(path.join(__dirname, '../../migrations'));
+
+      expect(migrations[0]).toMatchObject({ version: 1, name: 'create_bridge_deposits' });
+      expect(migrations.map(m => m.version)).toEqual(migrations.map((_, i) => i + 1));
+    });
+  });
+
+  describe('migrateUp', () => {
+    const migrations: Migration[] = [
+      { version: 1, name: 'first', upSql: 'CREATE TABLE a ();', downSql: 'DROP TABLE a;', checksum: checksumOf('CREATE TABLE a ();') },
+      { version: 2, name: 'second', upSql: 'CREATE TABLE b ();', downSql: 'DROP TABLE b;', checksum: checksumOf('CREATE TABLE b ();') },
+    ];
+
+    it('applies only pending migrations inside the advisory lock', async () => {
+      const { pool, executed } = makePool([{ version: 1, checksum: migrations[0]!.checksum, applied_at: new Date() }]);
+
+      const applied = await migrateUp(pool, migrations);
+
+      expect(applied.map(m => m.version)).toEqual([2]);
+      expect(executed[0]).toContain('pg_advisory_lock');
+      expect(executed).toContain('CREATE TABLE b ();');
+      expect(executed).not.toContain('CREATE TABLE a ();');
+      expect(executed[executed.length - 1]).toContain('pg_advisory_unlock');
+    });
+
+    it('refuses to run when an applied migration was modified', async () => {
+      const { pool, executed } = makePool([{ version: 1, checksum: 'stale', applied_at: new Date() }]);
+
+      await expect(migrateUp(pool, migrations)).rejects.toThrow('Checksum mismatch for applied migration 1_first');
+      expect(executed).not.toContain('CREATE TABLE b ();');
+      expect(executed[executed.length - 1]).toContain('pg_advisory_unlock');
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { WatchError } from 'redis';
+import { getRedisClient } from '@/config/redis';
+import {
+  clearReleasePause,
+  getOutflowUsage,
+  getReleasePause,
+  releaseOutflow,
+  reserveOutflow,
+  setReleasePause,
+} from '@/services/OutflowLimiter';
+import { BridgeTokenRecord } from '@/types/bridge';
+
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedGetRedisClient = getRedisClient as jest.MockedFunction<typeof getRedisClient>;
+
+const USDC = '0x94a9d9ac8a22534e3faca9f4e7f2e2cf85d5e4c8';
+const HOUR = 60 * 60 * 1000;
+
+function token(overrides: Partial<BridgeTokenRecord> = {}): BridgeTokenRecord {
+  return {
+    l1_address: USDC,
+    l2_address: null,
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    min_amount: '1000000',
+    max_amount: '1000000000000',
+    is_native: false,
+    enabled: true,
+    paused: false,
+    approval_threshold: null,
+    outflow_limit: '10000000000', // 10,000 USDC
+    reference_price: '1',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+// Just enough of a Redis client for the limiter: strings and sorted sets, with WATCH conflicts on demand
+function fakeRedis() {
+  const strings = new Map<string, string>();
+  const sets = new Map<string, Map<string, number>>();
+  let conflicts = 0;
+
+  const set = (key: string) => sets.get(key) ?? sets.set(key, new Map()).get(key)!;
+  const minScore = (min: string) => (min === '-inf' ? -Infinity : Number(min.replace('(', '')));
+  const inRange = (score: number, min: string) => (min.startsWith('(') ? score > minScore(min) : score >= minScore(min));
+  const range = (key: string, min: string) =>
+    [...set(key).entries()].filter(([, score]) => inRange(score, min)).map(([member]) => member);
+
+  const client = {
+    get: jest.fn(async (key: string) => strings.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string, options?: { NX?: boolean }) => {
+      if (options?.NX && strings.has(key)) {
+        return null;
+      }
+      strings.set(key, value);
+      return 'OK';
+    }),
+    getDel: jest.fn(async (key: string) => {
+      const value = strings.get(key) ?? null;
+      strings.delete(key);
+      return value;
+    }),
+    watch: jest.fn(async () => 'OK'),
+    unwatch: jest.fn(async () => 'OK'),
+    zRangeByScore: jest.fn(async (key: string, min: string) => range(key, min)),
+    zRem: jest.fn(async (key: string, members: string[]) => members.filter(member => set(key).delete(member)).length),
+    multi: jest.fn(() => {
+      const ops: Array<() => void> = [];
+      const chain = {
+        zRemRangeByScore: (key: string, _min: string, max: number) => {
+          ops.push(() => [...set(key)].forEach(([member, score]) => score <= max && set(key).delete(member)));
+          return chain;
+        },
+        zAdd: (key: string, entry: { score: number; value: string }) => {
+          ops.push(() => set(key).set(entry.value, entry.score));
+          return chain;
+        },
+        pExpire: () => chain,
+        exec: async () => {
+          if (conflicts > 0) {
+            conflicts--;
+            throw new WatchError();
+          }
+          ops.forEach(op => op());
+          return [];
+        },
+      };
+      return chain;
+    }),
+    executeIsolated: jest.fn(async (fn: (isolated: unknown) => unknown): Promise<unknown> => fn(client)),
+  };
+
+  return {
+    client,
+    conflictOnNextExec: () => { conflicts++; },
+  };
+}
+
+describe('outflow limiter', () => {
+  const envBackup = { ...process.env };
+  const now = Date.UTC(2024, 0, 1, 12);
+  let redis: ReturnType<typeof fakeRedis>;
+
+  beforeEach(() => {
+    redis = fakeRedis();
+    mockedGetRedisClient.mockReturnValue(redis.client as unknown as ReturnType<typeof getRedisClient>);
+    process.env.OUTFLOW_WINDOW_SECONDS = '3600';
+    process.env.OUTFLOW_GLOBAL_MAX_VALUE = '20000';
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('counts releases until the token limit would be exceeded', async () => {
+    expect(await reserveOutflow('1', token(), 6000000000n, now)).toBeNull();
+    expect(await reserveOutflow('2', token(), 4000000000n, now + 1000)).toBeNull();
+
+    expect(await reserveOutflow('3', token(), 1n, now + 2000))
+      .toBe('USDC outflow of 10000.000001 USDC in 3600s would exceed its limit of 10000.0 USDC');
+  });
+
+  it('forgets releases once they leave the rolling window', async () => {
+    await reserveOutflow('1', token(), 9000000000n, now);
+
+    expect(await reserveOutflow('2', token(), 9000000000n, now + HOUR - 1)).not.toBeNull();
+    expect(await reserveOutflow('2', token(), 9000000000n, now + HOUR)).toBeNull();
+  });
+
+  it('does not count a retried release twice', async () => {
+    await reserveOutflow('1', token(), 9000000000n, now);
+
+    expect(await reserveOutflow('1', token(), 9000000000n, now + 1000)).toBeNull();
+    expect((await getOutflowUsage([token()], now + 1000)).tokens[0]!.released).toBe('9000000000');
+  });
+
+  it('limits the value released across all tokens', async () => {
+    const eth = token({ l1_address: '0x0000000000000000000000000000000000000000', symbol: 'ETH', decimals: 18, outflow_limit: null, reference_price: '2500.5' });
+    expect(await reserveOutflow('1', eth, 4n * 10n ** 18n, now)).toBeNull(); // 10,002
+    expect(await reserveOutflow('2', token(), 9000000000n, now)).toBeNull(); // 9,000
+
+    expect(await reserveOutflow('3', eth, 10n ** 18n, now))
+      .toBe('Outflow worth 21502.5 in 3600s would exceed the global limit of 20000.0');
+    expect(await reserveOutflow('3', token(), 998000000n, now)).toBeNull();
+  });
+
+  it('does not release a token without a reference price while a global limit is set', async () => {
+    expect(await reserveOutflow('1', token({ reference_price: null }), 1n, now))
+      .toBe('USDC has no reference price to count against the global outflow limit');
+
+    process.env.OUTFLOW_GLOBAL_MAX_VALUE = '0';
+    expect(await reserveOutflow('1', token({ reference_price: null }), 1n, now)).toBeNull();
+  });
+
+  it('stops counting a release that was taken back', async () => {
+    await reserveOutflow('1', token(), 9000000000n, now);
+    await reserveOutflow('12', token(), 500000000n, now);
+
+    await releaseOutflow('1', USDC);
+
+    const usage = await getOutflowUsage([token()], now);
+    expect(usage.tokens[0]!.released).toBe('500000000');
+    expect(usage.value).toBe('500.0');
+    expect(await reserveOutflow('2', token(), 9000000000n, now)).toBeNull();
+  });
+
+  it('retries when another worker changed the window first', async () => {
+    redis.conflictOnNextExec();
+
+    expect(await reserveOutflow('1', token(), 1n, now)).toBeNull();
+    expect(redis.client.executeIsolated).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the first reason while releases stay paused', async () => {
+    const first = await setReleasePause('USDC outflow exceeded', 'system:outflow-limiter');
+    const second = await setReleasePause('Investigating', 'admin:1');
+
+    expect(first.created).toBe(true);
+    expect(second).toEqual({ pause: first.pause, created: false });
+    expect(await getReleasePause()).toEqual(first.pause);
+
+    expect(await clearReleasePause()).toEqual(first.pause);
+    expect(await getReleasePause()).toBeNull();
+    expect(await clearReleasePause()).toBeNull();
+  });
+
+  it('reports usage against each token limit', async () => {
+    await reserveOutflow('1', token(), 2500000000n, now);
+
+    expect(await getOutflowUsage([token(), token({ l1_address: '0x1111111111111111111111111111111111111111', outflow_limit: null })], now))
+      .toEqual({
+        windowSeconds: 3600,
+        value: '2500.0',
+        maxValue: '20000.0',
+        tokens: [
+          { l1Address: USDC, symbol: 'USDC', released: '2500000000', limit: '10000000000' },
+          { l1Address: '0x1111111111111111111111111111111111111111', symbol: 'USDC', released: '0', limit: null },
+        ],
+      });
+  });
+});
@@ -0,0 +1,182 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import {
+  getReleaseApprovalStatus,
+  needsApproval,
+  RELEASE_APPROVAL_TYPES,
+  ReleaseApprovalError,
+  releaseApprovalDomain,
+  releaseApprovalMessage,
+  recordReleaseApproval,
+  verifyReleaseApproval,
+} from '@/services/ReleaseApprovals';
+import { AdminUserRecord } from '@/types/auth';
+import { BridgeDepositRecord, BridgeStatus, BridgeTokenRecord, ReleaseApprovalRecord } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const alice = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const bob = new ethers.Wallet('0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a');
+
+const deposit = {
+  deposit_id: '42',
+  source_chain: 'L1',
+  target_chain: 'L2',
+  status: BridgeStatus.AWAITING_APPROVAL,
+  user_address: '0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7',
+  token_address: '0x94a9d9ac8a22534e3faca9f4e7f2e2cf85d5e4c8',
+  amount: '5000000000000',
+} as BridgeDepositRecord;
+
+const token = { approval_threshold: '1000000000000' } as BridgeTokenRecord;
+
+function operator(wallet: ethers.Wallet, overrides: Partial<AdminUserRecord> = {}): AdminUserRecord {
+  return {
+    id: wallet === alice ? '1' : '2',
+    username: wallet === alice ? 'alice' : 'bob',
+    password_hash: null,
+    wallet_address: wallet.address.toLowerCase(),
+    role: 'operator',
+    disabled: false,
+    last_login_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function sign(wallet: ethers.Wallet, deadline: number, terms: Partial<BridgeDepositRecord> = {}): Promise<string> {
+  return wallet.signTypedData(
+    releaseApprovalDomain({ ...deposit, ...terms }),
+    RELEASE_APPROVAL_TYPES,
+    releaseApprovalMessage({ ...deposit, ...terms }, deadline)
+  );
+}
+
+async function storedApproval(
+  wallet: ethers.Wallet,
+  deadline: number,
+  overrides: Partial<ReleaseApprovalRecord> = {}
+): Promise<ReleaseApprovalRecord> {
+  const user = operator(wallet);
+  return {
+    id: user.id,
+    source_chain: 'L1',
+    deposit_id: deposit.deposit_id,
+    operator_id: user.id,
+    signer: wallet.address.toLowerCase(),
+    signature: await sign(wallet, deadline),
+    deadline: new Date(deadline * 1000),
+    created_at: new Date(),
+    operator_username: user.username,
+    operator_wallet: user.wallet_address,
+    operator_role: user.role,
+    operator_disabled: false,
+    ...overrides,
+  };
+}
+
+describe('release approvals', () => {
+  const envBackup = { ...process.env };
+  const now = Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.RELEASE_APPROVALS_REQUIRED = '2';
+    process.env.RELEASE_APPROVAL_MAX_TTL_SECONDS = '86400';
+    process.env.L1_BRIDGE_CONTRACT = '0x1111111111111111111111111111111111111111';
+    process.env.L2_BRIDGE_CONTRACT = '0x2222222222222222222222222222222222222222';
+    mockedDB.countApprovalOperators.mockResolvedValue(3);
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('needs approvals from the token threshold upwards', () => {
+    expect(needsApproval(deposit, token)).toBe(true);
+    expect(needsApproval({ ...deposit, amount: '1000000000000' }, token)).toBe(true);
+    expect(needsApproval({ ...deposit, amount: '999999999999' }, token)).toBe(false);
+    expect(needsApproval(deposit, { approval_threshold: null } as BridgeTokenRecord)).toBe(false);
+  });
+
+  it('accepts an approval signed by the operator wallet', async () => {
+    const signature = await sign(alice, now + 3600);
+
+    expect(verifyReleaseApproval(deposit, operator(alice), signature, now + 3600)).toBe(alice.address);
+  });
+
+  it('rejects approvals from another wallet or over other terms', async () => {
+    const fromBob = await sign(bob, now + 3600);
+    const otherRecipient = await sign(alice, now + 3600, { user_address: bob.address });
+
+    expect(() => verifyReleaseApproval(deposit, operator(alice), fromBob, now + 3600)).toThrow(`signed by ${bob.address}`);
+    expect(() => verifyReleaseApproval(deposit, operator(alice), otherRecipient, now + 3600)).toThrow(ReleaseApprovalError);
+    expect(() => verifyReleaseApproval(deposit, operator(alice, { wallet_address: null }), fromBob, now + 3600))
+      .toThrow('Link a wallet');
+  });
+
+  it('binds the approval to the direction and the contract that sends the release', async () => {
+    const withdrawal = { ...deposit, source_chain: 'L2', target_chain: 'L1' } as BridgeDepositRecord;
+    const depositApproval = await sign(alice, now + 3600);
+
+    expect(releaseApprovalDomain(deposit).verifyingContract).toBe(process.env.L2_BRIDGE_CONTRACT);
+    expect(releaseApprovalDomain(withdrawal).verifyingContract).toBe(process.env.L1_BRIDGE_CONTRACT);
+    expect(() => verifyReleaseApproval(withdrawal, operator(alice), depositApproval, now + 3600)).toThrow(ReleaseApprovalError);
+    expect(verifyReleaseApproval(withdrawal, operator(alice), await sign(alice, now + 3600, withdrawal), now + 3600)).toBe(alice.address);
+  });
+
+  it('requires a deadline in the future and within the maximum lifetime', async () => {
+    const expired = await sign(alice, now - 1);
+    const tooLong = await sign(alice, now + 2 * 86400);
+
+    expect(() => verifyReleaseApproval(deposit, operator(alice), expired, now - 1)).toThrow('already passed');
+    expect(() => verifyReleaseApproval(deposit, operator(alice), tooLong, now + 2 * 86400)).toThrow('at most 86400 seconds');
+  });
+
+  it('counts only unexpired approvals of operators who may still approve', async () => {
+    mockedDB.getReleaseApprovals.mockResolvedValue([
+      await storedApproval(alice, now + 3600),
+      await storedApproval(bob, now - 60),
+      await storedApproval(bob, now + 3600, { operator_disabled: true }),
+      await storedApproval(bob, now + 3600, { operator_role: 'viewer' }),
+      await storedApproval(bob, now + 3600, { operator_wallet: alice.address.toLowerCase() }),
+    ]);
+
+    const status = await getReleaseApprovalStatus(deposit);
+
+    expect(status).toMatchObject({ required: 2, operators: 3, approved: 1 });
+    expect(status.approvals.map(approval => approval.invalidReason)).toEqual([
+      null,
+      'Expired',
+      'Operator is disabled',
+      'Operator may no longer approve releases',
+      'Operator wallet changed since approving',
+    ]);
+    expect(mockedDB.getReleaseApprovals).toHaveBeenCalledWith('42', 'L1');
+  });
+
+  it('stores a verified approval with its deadline', async () => {
+    const signature = await sign(bob, now + 600);
+    mockedDB.getReleaseApprovals.mockResolvedValue([
+      await storedApproval(alice, now + 3600),
+      await storedApproval(bob, now + 600),
+    ]);
+
+    const status = await recordReleaseApproval(deposit, operator(bob), signature, now + 600);
+
+    expect(mockedDB.saveReleaseApproval).toHaveBeenCalledWith({
+      sourceChain: 'L1',
+      depositId: '42',
+      operatorId: '2',
+      signer: bob.address,
+      signature,
+      deadline: new Date((now + 600) * 1000),
+    });
+    expect(status.approved).toBe(2);
+  });
+});
@@ -0,0 +1,225 @@
+import { ReorgDetector, BlockHashProvider } from '@/services/ReorgDetector';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { raiseAlert } from '@/utils/alerts';
+import { BridgeDepositRecord, BridgeStatus } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+jest.mock('@/utils/alerts');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedRaiseAlert = raiseAlert as jest.MockedFunction<typeof raiseAlert>;
+
+// Local stand-in for an L1 provider whose blocks can be swapped out to simulate a reorg
+class FakeChain implements BlockHashProvider {
+  private hashes = new Map<number, string>();
+
+  mine(fromBlock: number, toBlock: number, fork: string = 'a'): void {
+    for (let n = fromBlock; n <= toBlock; n++) {
+      this.hashes.set(n, `0x${fork}${n.toString(16).padStart(63, '0')}`);
+    }
+  }
+
+  hashOf(blockNumber: number): string {
+    return this.hashes.get(blockNumber)!;
+  }
+
+  async getBlock(blockNumber: number): Promise<{ hash: string | null } | null> {
+    const hash = this.hashes.get(blockNumber);
+    return hash ? { hash } : null;
+  }
+}
+
+function makeDeposit(depositId: string, blockNumber: number, blockHash: string, status: BridgeStatus): BridgeDepositRecord {
+  return {
+    id: Number(depositId),
+    deposit_id: depositId,
+    user_address: '0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7',
+    token_address: '0x0000000000000000000000000000000000000000',
+    amount: '1000000000000000000',
+    nonce: '0',
+    source_chain: 'L1',
+    target_chain: 'L2',
+    status,
+    tx_hash: `0xtx${depositId}`,
+    block_number: blockNumber.toString(),
+    block_hash: blockHash,
+    log_index: 0,
+    retry_count: 0,
+    failure_reason: null,
+    completed_tx_hash: null,
+    completed_at: null,
+    l2_tx_hash: null,
+    l2_block_number: null,
+    l2_gas_used: null,
+    l2_effective_gas_price: null,
+    l2_deposit_id: null,
+    l2_token: null,
+    submitted_at: null,
+    confirmed_at: null,
+    l1_release_tx_hash: null,
+    l1_release_block_number: null,
+    l1_release_gas_used: null,
+    l1_release_effective_gas_price: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+describe('ReorgDetector', () => {
+  let chain: FakeChain;
+  let storedHashes: Map<number, string>;
+  let deposits: BridgeDepositRecord[];
+  let detector: ReorgDetector;
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    chain.mine(100, 120);
+    storedHashes = new Map();
+    deposits = [];
+
+    mockedDB.saveBlockHash.mockImplementation(async (blockNumber, blockHash) => {
+      storedHashes.set(blockNumber, blockHash);
+    });
+    mockedDB.getBlockHashesFrom.mockImplementation(async fromBlock =>
+      [...storedHashes.entries()]
+        .filter(([blockNumber]) => blockNumber >= fromBlock)
+        .sort(([a], [b]) => a - b)
+        .map(([blockNumber, blockHash]) => ({ blockNumber, blockHash }))
+    );
+    mockedDB.deleteBlockHashesFrom.mockImplementation(async fromBlock => {
+      for (const blockNumber of [...storedHashes.keys()]) {
+        if (blockNumber >= fromBlock) storedHashes.delete(blockNumber);
+      }
+    });
+    mockedDB.getDepositsFromBlock.mockImplementation(async fromBlock =>
+      deposits.filter(d => Number(d.block_number) >= fromBlock && d.status !== BridgeStatus.REORGED)
+    );
+    mockedDB.transitionDeposit.mockImplementation(async (depositId, fromStatus, toStatus) => {
+      const deposit = deposits.find(d => d.deposit_id === depositId && d.status === fromStatus);
+      if (deposit) deposit.status = toStatus;
+      return !!deposit;
+    });
+    mockedRaiseAlert.mockResolvedValue();
+
+    detector = new ReorgDetector(chain);
+  });
+
+  it('returns null while stored hashes match the chain', async () => {
+    await detector.recordBlock(105, chain.hashOf(105));
+    await detector.recordBlock(110, chain.hashOf(110));
+
+    await expect(detector.detectReorg(120)).resolves.toBeNull();
+    expect(mockedDB.transitionDeposit).not.toHaveBeenCalled();
+  });
+
+  it('marks a pending deposit in an orphaned block as REORGED without alerting', async () => {
+    deposits.push(makeDeposit('1', 110, chain.hashOf(110), BridgeStatus.PENDING));
+    await detector.recordBlock(105, chain.hashOf(105));
+    await detector.recordBlock(110, chain.hashOf(110));
+
+    chain.mine(108, 120, 'b');
+
+    await expect(detector.detectReorg(120)).resolves.toBe(110);
+    expect(deposits[0]!.status).toBe(BridgeStatus.REORGED);
+    expect(mockedRaiseAlert).not.toHaveBeenCalled();
+  });
+
+  it('raises a critical alert when an already released deposit is orphaned', async () => {
+    deposits.push(makeDeposit('2', 112, chain.hashOf(112), BridgeStatus.COMPLETED));
+    await detector.recordBlock(112, chain.hashOf(112));
+
+    chain.mine(111, 120, 'b');
+
+    await expect(detector.detectReorg(120)).resolves.toBe(112);
+    expect(deposits[0]!.status).toBe(BridgeStatus.REORGED);
+    expect(mockedRaiseAlert).toHaveBeenCalledWith(
+      'critical',
+      expect.stringContaining('Released deposit 2'),
+      expect.objectContaining({ depositId: '2', previousStatus: BridgeStatus.COMPLETED })
+    );
+  });
+
+  it('does not alert for a queued deposit that has not been sent to L2', async () => {
+    deposits.push(makeDeposit('7', 112, chain.hashOf(112), BridgeStatus.PROCESSING));
+    await detector.recordBlock(112, chain.hashOf(112));
+
+    chain.mine(111, 120, 'b');
+
+    await expect(detector.detectReorg(120)).resolves.toBe(112);
+    expect(deposits[0]!.status).toBe(BridgeStatus.REORGED);
+    expect(mockedRaiseAlert).not.toHaveBeenCalled();
+  });
+
+  it('alerts for a retried deposit whose earlier attempt already sent an L2 release', async () => {
+    deposits.push({ ...makeDeposit('8', 112, chain.hashOf(112), BridgeStatus.PROCESSING), l2_tx_hash: '0xl2release' });
+    await detector.recordBlock(112, chain.hashOf(112));
+
+    chain.mine(111, 120, 'b');
+    await detector.detectReorg(120);
+
+    expect(mockedRaiseAlert).toHaveBeenCalledWith(
+      'critical',
+      expect.stringContaining('Released deposit 8'),
+      expect.objectContaining({ previousStatus: BridgeStatus.PROCESSING })
+    );
+  });
+
+  it('records the transition with the reorg detector as actor', async () => {
+    deposits.push(makeDeposit('5', 110, chain.hashOf(110), BridgeStatus.CONFIRMING));
+    await detector.recordBlock(110, chain.hashOf(110));
+
+    chain.mine(109, 120, 'b');
+    await detector.detectReorg(120);
+
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith(
+      '5',
+      BridgeStatus.CONFIRMING,
+      BridgeStatus.REORGED,
+      expect.objectContaining({ sourceChain: 'L1', actor: 'system:reorg-detector' })
+    );
+  });
+
+  it('leaves cancelled deposits in reorged blocks alone', async () => {
+    deposits.push(makeDeposit('6', 110, chain.hashOf(110), BridgeStatus.CANCELLED));
+    await detector.recordBlock(110, chain.hashOf(110));
+
+    chain.mine(109, 120, 'b');
+    await detector.detectReorg(120);
+
+    expect(deposits[0]!.status).toBe(BridgeStatus.CANCELLED);
+    expect(mockedDB.transitionDeposit).not.toHaveBeenCalled();
+  });
+
+  it('leaves deposits below the fork point untouched', async () => {
+    deposits.push(makeDeposit('3', 104, chain.hashOf(104), BridgeStatus.PENDING));
+    deposits.push(makeDeposit('4', 115, chain.hashOf(115), BridgeStatus.PENDING));
+    await detector.recordBlock(104, chain.hashOf(104));
+    await detector.recordBlock(115, chain.hashOf(115));
+
+    chain.mine(113, 120, 'b');
+
+    await expect(detector.detectReorg(120)).resolves.toBe(115);
+    expect(deposits[0]!.status).toBe(BridgeStatus.PENDING);
+    expect(deposits[1]!.status).toBe(BridgeStatus.REORGED);
+  });
+
+  it('forgets orphaned block hashes so the new chain can be re-ingested', async () => {
+    await detector.recordBlock(104, chain.hashOf(104));
+    await detector.recordBlock(115, chain.hashOf(115));
+
+    chain.mine(113, 120, 'b');
+    await detector.detectReorg(120);
+
+    expect(mockedDB.deleteBlockHashesFrom).toHaveBeenCalledWith(115);
+    expect([...storedHashes.keys()]).toEqual([104]);
+    await expect(detector.detectReorg(120)).resolves.toBeNull();
+  });
+
+  it('ignores blocks older than the configured check depth', async () => {
+    await detector.recordBlock(100, chain.hashOf(100));
+
+    chain.mine(100, 120, 'b');
+
+    await expect(detector.detectReorg(200)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { loadSigner } from '@/config/signers';
+import { RemoteSigner, RemoteSignerError } from '@/services/RemoteSigner';
+import { SigningServer, startSigningServer } from '../support/signingServer';
+
+const CHAIN_ID = 98765432103n;
+const wallet = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const BRIDGE = '0x1111111111111111111111111111111111111111';
+
+// What TransactionManager hands the signer for an L2 release
+const release: ethers.TransactionRequest = {
+  chainId: CHAIN_ID,
+  nonce: 7,
+  to: BRIDGE,
+  data: '0x1234',
+  value: 0n,
+  gasLimit: 108000n,
+  type: 2,
+  maxFeePerGas: ethers.parseUnits('10', 'gwei'),
+  maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+};
+
+describe('signers', () => {
+  const envBackup = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...envBackup };
+  });
+
+  describe('loadSigner', () => {
+    it('uses the raw private key outside production', async () => {
+      process.env.TEST_PRIVATE_KEY = wallet.privateKey;
+
+      const signer = await loadSigner('TEST');
+
+      expect(await signer.getAddress()).toBe(wallet.address);
+    });
+
+    it('refuses a raw private key in production', async () => {
+      process.env.NODE_ENV = 'production';
+      process.env.TEST_SIGNER = 'private-key';
+      process.env.TEST_PRIVATE_KEY = wallet.privateKey;
+
+      await expect(loadSigner('TEST')).rejects.toThrow('development only');
+    });
+
+    it('rejects an unknown signer kind', async () => {
+      process.env.TEST_SIGNER = 'hsm';
+
+      await expect(loadSigner('TEST')).rejects.toThrow('TEST_SIGNER must be one of');
+    });
+
+    it('decrypts a keystore with the password from a file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'keystore-'));
+      try {
+        // Cheap scrypt parameters; real keystores use the ethers defaults
+        const keystore = await ethers.encryptKeystoreJson(
+          { address: wallet.address, privateKey: wallet.privateKey },
+          'correct horse',
+          { scrypt: { N: 1 << 10 } }
+        );
+        await fs.writeFile(path.join(dir, 'keystore.json'), keystore);
+        await fs.writeFile(path.join(dir, 'password'), 'correct horse\n');
+        process.env.NODE_ENV = 'production';
+        process.env.TEST_SIGNER = 'keystore';
+        process.env.TEST_KEYSTORE_PATH = path.join(dir, 'keystore.json');
+        process.env.TEST_KEYSTORE_PASSWORD_FILE = path.join(dir, 'password');
+
+        const signer = await loadSigner('TEST');
+
+        expect(await signer.getAddress()).toBe(wallet.address);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('RemoteSigner', () => {
+    let server: SigningServer;
+
+    afterEach(async () => {
+      await server?.close();
+    });
+
+    it('loads once the service confirms it holds the key', async () => {
+      server = await startSigningServer(wallet, { chainId: CHAIN_ID });
+      process.env.TEST_SIGNER = 'remote';
+      process.env.TEST_REMOTE_SIGNER_URL = server.url;
+      process.env.TEST_SIGNER_ADDRESS = wallet.address.toLowerCase();
+
+      const signer = await loadSigner('TEST');
+
+      expect(signer).toBeInstanceOf(RemoteSigner);
+      expect(await signer.getAddress()).toBe(wallet.address);
+      expect(server.requests.map(request => request.method)).toEqual(['eth_accounts']);
+    });
+
+    it('refuses to load for an address the service has no key for', async () => {
+      server = await startSigningServer(wallet, { chainId: CHAIN_ID });
+      process.env.TEST_SIGNER = 'remote';
+      process.env.TEST_REMOTE_SIGNER_URL = server.url;
+      process.env.TEST_SIGNER_ADDRESS = BRIDGE;
+
+      await expect(loadSigner('TEST')).rejects.toThrow(`does not hold a key for ${BRIDGE}`);
+    });
+
+    it('signs transactions through eth_signTransaction', async () => {
+      server = await startSigningServer(wallet, { chainId: CHAIN_ID });
+      const signer = new RemoteSigner(server.url, wallet.address);
+
+      const signed = ethers.Transaction.from(await signer.signTransaction(release));
+
+      expect(signed.from).toBe(wallet.address);
+      expect(signed).toMatchObject({ chainId: CHAIN_ID, nonce: 7, to: BRIDGE, data: '0x1234', gasLimit: 108000n });
+      expect(server.requests[0]).toEqual({
+        method: 'eth_signTransaction',
+        params: [{
+          from: wallet.address,
+          to: BRIDGE,
+          gas: '0x1a5e0',
+          nonce: '0x7',
+          value: '0x0',
+          data: '0x1234',
+          maxFeePerGas: '0x2540be400',
+          maxPriorityFeePerGas: '0x3b9aca00',
+        }],
+      });
+    });
+
+    it('rejects a signed transaction that differs from the request', async () => {
+      server = await startSigningServer(wallet, {
+        chainId: CHAIN_ID,
+        tamper: tx => ({ ...tx, to: '0x2222222222222222222222222222222222222222' }),
+      });
+      const signer = new RemoteSigner(server.url, wallet.address);
+
+      await expect(signer.signTransaction(release)).rejects.toThrow(RemoteSignerError);
+    });
+
+    it('rejects a transaction signed for another chain', async () => {
+      server = await startSigningServer(wallet, { chainId: 1n });
+      const signer = new RemoteSigner(server.url, wallet.address);
+
+      await expect(signer.signTransaction(release)).rejects.toThrow('chainId 1');
+    });
+
+    it('signs messages and typed data with the remote key', async () => {
+      server = await startSigningServer(wallet, { chainId: CHAIN_ID });
+      const signer = new RemoteSigner(server.url, wallet.address);
+      const domain = { name: 'DexGood Bridge', version: '1', chainId: CHAIN_ID };
+      const types = { Ping: [{ name: 'value', type: 'uint256' }] };
+
+      const messageSignature = await signer.signMessage('hello');
+      const typedSignature = await signer.signTypedData(domain, types, { value: 1 });
+
+      expect(ethers.verifyMessage('hello', messageSignature)).toBe(wallet.address);
+      expect(ethers.verifyTypedData(domain, types, { value: 1 }, typedSignature)).toBe(wallet.address);
+    });
+
+    it('surfaces errors returned by the service', async () => {
+      server = await startSigningServer(wallet, { chainId: CHAIN_ID });
+      const signer = new RemoteSigner(server.url, BRIDGE);
+
+      await expect(signer.signTransaction(release)).rejects.toThrow('Remote signer refused eth_signTransaction: No key for account');
+    });
+  });
+});
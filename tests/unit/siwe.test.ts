@@ -0,0 +1,126 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { parseSiweMessage } from '@/utils/siwe';
+import { issueSiweNonce, loginWithEthereum } from '@/services/SiweAuth';
+import { verifyAccessToken } from '@/services/AdminAuth';
+import { AdminUserRecord } from '@/types/auth';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetRedisClient = getRedisClient as jest.MockedFunction<typeof getRedisClient>;
+
+function buildMessage(fields: { address: string; nonce: string; domain?: string; chainId?: number; issuedAt?: Date }): string {
+  return [
+    `${fields.domain ?? 'admin.dexgood.com'} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    '',
+    'Sign in to the DexGood bridge admin.',
+    '',
+    'URI: https://admin.dexgood.com',
+    'Version: 1',
+    `Chain ID: ${fields.chainId ?? 11155111}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${(fields.issuedAt ?? new Date()).toISOString()}`,
+    'Resources:',
+    '- https://admin.dexgood.com/api',
+  ].join('\n');
+}
+
+describe('Sign-In with Ethereum', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let nonces: Set<string>;
+  let admin: AdminUserRecord;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.JWT_SECRET = 'test-secret';
+    process.env.SIWE_DOMAINS = 'admin.dexgood.com';
+    process.env.SIWE_CHAIN_ID = '11155111';
+    nonces = new Set();
+
+    admin = {
+      id: '3',
+      username: 'ledger-ops',
+      password_hash: null,
+      wallet_address: wallet.address,
+      role: 'operator',
+      disabled: false,
+      last_login_at: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    mockedGetRedisClient.mockReturnValue({
+      set: jest.fn(async (key: string) => { nonces.add(key); return 'OK'; }),
+      getDel: jest.fn(async (key: string) => (nonces.delete(key) ? '1' : null)),
+      mGet: jest.fn(async (keys: string[]) => keys.map(() => null)),
+    } as unknown as ReturnType<typeof getRedisClient>);
+    mockedDB.getAdminUserByWallet.mockImplementation(async address =>
+      address.toLowerCase() === wallet.address.toLowerCase() ? admin : null
+    );
+  });
+
+  it('parses the statement, fields and resources of a message', () => {
+    const parsed = parseSiweMessage(buildMessage({ address: wallet.address.toLowerCase(), nonce: 'abcdef1234' }));
+
+    expect(parsed).toMatchObject({
+      domain: 'admin.dexgood.com',
+      address: wallet.address,
+      statement: 'Sign in to the DexGood bridge admin.',
+      uri: 'https://admin.dexgood.com',
+      chainId: 11155111,
+      nonce: 'abcdef1234',
+      resources: ['https://admin.dexgood.com/api'],
+    });
+  });
+
+  it('issues the same JWT as password login to an allowlisted wallet', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage({ address: wallet.address, nonce });
+
+    const { tokens } = await loginWithEthereum(message, await wallet.signMessage(message), null);
+
+    await expect(verifyAccessToken(tokens.accessToken)).resolves.toMatchObject({ id: '3', role: 'operator' });
+  });
+
+  it('accepts each nonce only once', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage({ address: wallet.address, nonce });
+    const signature = await wallet.signMessage(message);
+
+    await loginWithEthereum(message, signature, null);
+
+    await expect(loginWithEthereum(message, signature, null)).rejects.toThrow('Unknown, used or expired nonce');
+  });
+
+  it('rejects a message signed by a different wallet', async () => {
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage({ address: wallet.address, nonce });
+    const signature = await ethers.Wallet.createRandom().signMessage(message);
+
+    await expect(loginWithEthereum(message, signature, null)).rejects.toThrow('Signature does not match');
+  });
+
+  it('rejects messages for another domain or chain', async () => {
+    const first = await issueSiweNonce();
+    const phishing = buildMessage({ address: wallet.address, nonce: first.nonce, domain: 'evil.example' });
+    await expect(loginWithEthereum(phishing, await wallet.signMessage(phishing), null)).rejects.toThrow('not allowed');
+
+    const second = await issueSiweNonce();
+    const mainnet = buildMessage({ address: wallet.address, nonce: second.nonce, chainId: 1 });
+    await expect(loginWithEthereum(mainnet, await wallet.signMessage(mainnet), null)).rejects.toThrow('not allowed');
+  });
+
+  it('rejects wallets that are not on the allowlist', async () => {
+    const outsider = ethers.Wallet.createRandom();
+    const { nonce } = await issueSiweNonce();
+    const message = buildMessage({ address: outsider.address, nonce });
+
+    await expect(loginWithEthereum(message, await outsider.signMessage(message), null))
+      .rejects.toThrow('Address is not an allowed admin');
+  });
+});
@@ -0,0 +1,117 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getRedisClient } from '@/config/redis';
+import { getL1Provider } from '@/config/providers';
+import {
+  decodeTokenDecimals,
+  decodeTokenString,
+  getTokenMetadata,
+  readTokenMetadata,
+  TokenMetadataError,
+} from '@/services/TokenMetadata';
+
+jest.mock('@/config/database-simple');
+jest.mock('@/config/providers');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetRedisClient = getRedisClient as jest.MockedFunction<typeof getRedisClient>;
+const mockedGetL1Provider = getL1Provider as jest.MockedFunction<typeof getL1Provider>;
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const MKR = '0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2';
+
+const selectors = {
+  name: ethers.id('name()').slice(0, 10),
+  symbol: ethers.id('symbol()').slice(0, 10),
+  decimals: ethers.id('decimals()').slice(0, 10),
+};
+
+// A provider whose eth_call answers come from a table of selector -> return data (or error)
+function fakeProvider(answers: Record<string, string | Error>): ethers.Provider {
+  return {
+    call: jest.fn(async ({ data }: { data: string }) => {
+      const answer = Object.entries(selectors).find(([, selector]) => data.startsWith(selector));
+      const result = answer ? answers[answer[0]] : undefined;
+      if (result instanceof Error) {
+        throw result;
+      }
+      return result ?? '0x';
+    }),
+  } as unknown as ethers.Provider;
+}
+
+const standardAnswers = {
+  name: coder.encode(['string'], ['Maker']),
+  symbol: coder.encode(['string'], ['MKR']),
+  decimals: coder.encode(['uint8'], [18]),
+};
+
+describe('token metadata', () => {
+  const redis = { get: jest.fn(), set: jest.fn() };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedGetRedisClient.mockReturnValue(redis as unknown as ReturnType<typeof getRedisClient>);
+  });
+
+  it('decodes string and bytes32 return values', () => {
+    expect(decodeTokenString(coder.encode(['string'], ['USD Coin']))).toBe('USD Coin');
+    expect(decodeTokenString(ethers.encodeBytes32String('Maker'))).toBe('Maker');
+  });
+
+  it('rejects empty names and implausible decimals', () => {
+    expect(() => decodeTokenString(ethers.ZeroHash)).toThrow('empty value');
+    expect(() => decodeTokenDecimals(coder.encode(['uint256'], [1000]))).toThrow(/implausible/);
+  });
+
+  it('reads metadata from bytes32 tokens', async () => {
+    const provider = fakeProvider({
+      ...standardAnswers,
+      name: ethers.encodeBytes32String('Maker'),
+      symbol: ethers.encodeBytes32String('MKR'),
+    });
+
+    await expect(readTokenMetadata(MKR, provider)).resolves.toEqual({ address: MKR, name: 'Maker', symbol: 'MKR', decimals: 18 });
+  });
+
+  it('fails hard when the token has no usable name', async () => {
+    const reverted = ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: '0x', reason: null, transaction: { to: MKR, data: selectors.name }, invocation: null, revert: null });
+
+    await expect(readTokenMetadata(MKR, fakeProvider({ ...standardAnswers, name: reverted }))).rejects.toBeInstanceOf(TokenMetadataError);
+    await expect(readTokenMetadata(MKR, fakeProvider({ ...standardAnswers, name: '0x' }))).rejects.toThrow('name() returned nothing');
+  });
+
+  it('lets provider errors through so the job is retried', async () => {
+    const provider = fakeProvider({ ...standardAnswers, symbol: new Error('socket hang up') });
+
+    await expect(readTokenMetadata(MKR, provider)).rejects.not.toBeInstanceOf(TokenMetadataError);
+  });
+
+  it('reads the chain once and caches in Postgres and Redis', async () => {
+    const token = '0x1111111111111111111111111111111111111111';
+    redis.get.mockResolvedValue(null);
+    mockedDB.getTokenMetadata.mockResolvedValue(null);
+    mockedDB.saveTokenMetadata.mockImplementation(async metadata => ({ ...metadata, fetched_at: new Date() }));
+    mockedGetL1Provider.mockReturnValue(fakeProvider(standardAnswers) as ethers.JsonRpcProvider);
+
+    const first = await getTokenMetadata(token);
+    const second = await getTokenMetadata(token.toUpperCase().replace('0X', '0x'));
+
+    expect(first).toEqual({ address: token, name: 'Maker', symbol: 'MKR', decimals: 18 });
+    expect(second).toBe(first);
+    expect(mockedDB.saveTokenMetadata).toHaveBeenCalledTimes(1);
+    expect(redis.set).toHaveBeenCalledWith(`token:metadata:${token}`, JSON.stringify(first));
+  });
+
+  it('prefers the Redis copy over Postgres and the chain', async () => {
+    const token = '0x2222222222222222222222222222222222222222';
+    const cached = { address: token, name: 'Cached', symbol: 'CCH', decimals: 6 };
+    redis.get.mockResolvedValue(JSON.stringify(cached));
+
+    await expect(getTokenMetadata(token)).resolves.toEqual(cached);
+    expect(mockedDB.getTokenMetadata).not.toHaveBeenCalled();
+    expect(mockedGetL1Provider).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { recordTokenCreated, seedTokenRegistry, toTokenConfig, tokenHoldReason } from '@/services/TokenRegistry';
+import { BridgeTokenRecord } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const USDC = '0x94a9d9ac8a22534e3faca9f4e7f2e2cf85d5e4c8';
+
+function token(overrides: Partial<BridgeTokenRecord> = {}): BridgeTokenRecord {
+  return {
+    l1_address: USDC,
+    l2_address: null,
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    min_amount: '1000000',
+    max_amount: '1000000000000',
+    is_native: false,
+    enabled: true,
+    paused: false,
+    approval_threshold: null,
+    outflow_limit: null,
+    reference_price: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('token registry', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('releases listed, enabled and unpaused tokens', () => {
+    expect(tokenHoldReason(USDC, token())).toBeNull();
+  });
+
+  it('holds unlisted, disabled and paused tokens', () => {
+    expect(tokenHoldReason(USDC, null)).toMatch(/not in the token registry/);
+    expect(tokenHoldReason(USDC, token({ enabled: false }))).toMatch(/disabled/);
+    expect(tokenHoldReason(USDC, token({ paused: true }))).toMatch(/paused/);
+  });
+
+  it('keeps limits in base units', () => {
+    expect(toTokenConfig(token())).toMatchObject({
+      decimals: 6,
+      minBridgeAmount: 1000000n,
+      maxBridgeAmount: 1000000000000n,
+    });
+  });
+
+  it('seeds native ETH only into an empty registry', async () => {
+    mockedDB.listBridgeTokens.mockResolvedValueOnce([]);
+    mockedDB.createBridgeToken.mockResolvedValue(token({ symbol: 'ETH', is_native: true }));
+
+    await seedTokenRegistry();
+
+    expect(mockedDB.createBridgeToken).toHaveBeenCalledWith(expect.objectContaining({
+      symbol: 'ETH',
+      isNative: true,
+      minAmount: '1000000000000000',
+      maxAmount: '1000000000000000000000',
+    }));
+
+    mockedDB.createBridgeToken.mockClear();
+    mockedDB.listBridgeTokens.mockResolvedValueOnce([token()]);
+    await seedTokenRegistry();
+
+    expect(mockedDB.createBridgeToken).not.toHaveBeenCalled();
+  });
+
+  it('fills in the L2 address from TokenCreated', async () => {
+    mockedDB.setBridgeTokenL2Address.mockResolvedValue(true);
+
+    await recordTokenCreated(USDC, '0x1111111111111111111111111111111111111111');
+
+    expect(mockedDB.setBridgeTokenL2Address).toHaveBeenCalledWith(USDC, '0x1111111111111111111111111111111111111111');
+  });
+});
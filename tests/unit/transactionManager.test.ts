@@ -0,0 +1,283 @@
+import { ethers } from 'ethers';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { bumpFees, TransactionManager, TransactionReplacedError } from '@/services/TransactionManager';
+import { SignerTransactionRecord } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn() }));
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+
+const gwei = (value: number) => ethers.parseUnits(String(value), 'gwei');
+const wallet = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+const BRIDGE = '0x1111111111111111111111111111111111111111';
+
+// Stands in for the signer_transactions table: one row, updated the way the real queries do
+function trackRow(): { current: () => SignerTransactionRecord } {
+  let row: SignerTransactionRecord;
+
+  mockedDB.getPendingSignerTransaction.mockResolvedValue(null);
+  mockedDB.reserveSignerTransaction.mockImplementation(async input => {
+    row = {
+      id: '1',
+      chain: input.chain,
+      signer: input.signer,
+      nonce: String(input.chainNonce),
+      reference: input.reference,
+      to_address: input.to,
+      data: input.data,
+      value: input.value,
+      gas_limit: input.gasLimit,
+      max_fee_per_gas: input.maxFeePerGas,
+      max_priority_fee_per_gas: input.maxPriorityFeePerGas,
+      tx_hash: null,
+      previous_hashes: [],
+      replacements: 0,
+      status: 'PENDING',
+      block_number: null,
+      error: null,
+      gas_used: null,
+      effective_gas_price: null,
+      created_at: new Date(),
+      last_sent_at: null,
+      resolved_at: null,
+    };
+    return row;
+  });
+  mockedDB.recordSignerTransactionSent.mockImplementation(async (_id, sent) => {
+    row = {
+      ...row,
+      tx_hash: sent.txHash,
+      max_fee_per_gas: sent.maxFeePerGas,
+      max_priority_fee_per_gas: sent.maxPriorityFeePerGas,
+      previous_hashes: sent.replacement && row.tx_hash ? [...row.previous_hashes, row.tx_hash] : row.previous_hashes,
+      replacements: row.replacements + (sent.replacement ? 1 : 0),
+      last_sent_at: new Date(),
+    };
+    return row;
+  });
+  mockedDB.resolveSignerTransaction.mockResolvedValue();
+
+  return { current: () => row };
+}
+
+// An L2 node that mines nothing until told to
+function fakeProvider() {
+  const receipts = new Map<string, { status: number; blockNumber: number; hash: string; gasUsed: bigint; gasPrice: bigint }>();
+  const known = new Set<string>();
+  let minedNonce = 7;
+  return {
+    getNetwork: jest.fn(async () => ({ chainId: 98765432103n })),
+    getFeeData: jest.fn(async () => ({ maxFeePerGas: gwei(10), maxPriorityFeePerGas: gwei(1), gasPrice: null })),
+    estimateGas: jest.fn(async () => 90000n),
+    getTransactionCount: jest.fn(async (_from: string, blockTag: string) => blockTag === 'latest' ? minedNonce : 7),
+    broadcastTransaction: jest.fn(async (signed: string) => {
+      known.add(ethers.Transaction.from(signed).hash!);
+    }),
+    getTransaction: jest.fn(async (hash: string) => known.has(hash) ? { hash } : null),
+    getTransactionReceipt: jest.fn(async (hash: string) => receipts.get(hash) ?? null),
+    mine: (hash: string, status = 1) => {
+      receipts.set(hash, { status, blockNumber: 500, hash, gasUsed: 70000n, gasPrice: gwei(9) });
+      minedNonce = 8;
+    },
+    // Another transaction from the same signer is mined at our nonce
+    mineForeign: () => {
+      minedNonce = 8;
+    },
+  };
+}
+
+function sentTransactions(provider: ReturnType<typeof fakeProvider>): ethers.Transaction[] {
+  return provider.broadcastTransaction.mock.calls.map(([signed]: [string]) => ethers.Transaction.from(signed));
+}
+
+describe('bumpFees', () => {
+  it('raises both EIP-1559 fees by the given percentage', () => {
+    const bumped = bumpFees(
+      { maxFeePerGas: gwei(10), maxPriorityFeePerGas: gwei(1) },
+      { maxFeePerGas: gwei(8), maxPriorityFeePerGas: gwei(1) },
+      20
+    );
+
+    expect(bumped).toEqual({ maxFeePerGas: gwei(12), maxPriorityFeePerGas: gwei(1.2) });
+  });
+
+  it('follows the network when it has moved further than the bump', () => {
+    const bumped = bumpFees(
+      { maxFeePerGas: gwei(10), maxPriorityFeePerGas: gwei(1) },
+      { maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) },
+      20
+    );
+
+    expect(bumped).toEqual({ maxFeePerGas: gwei(30), maxPriorityFeePerGas: gwei(2) });
+  });
+
+  it('keeps legacy transactions legacy', () => {
+    expect(bumpFees({ maxFeePerGas: gwei(10), maxPriorityFeePerGas: null }, { maxFeePerGas: gwei(5), maxPriorityFeePerGas: null }, 10))
+      .toEqual({ maxFeePerGas: gwei(11), maxPriorityFeePerGas: null });
+  });
+});
+
+describe('TransactionManager', () => {
+  const envBackup = { ...process.env };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    process.env.TX_POLL_INTERVAL_MS = '0';
+    process.env.TX_STUCK_AFTER_MS = '60000';
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('reserves a nonce, broadcasts and returns the receipt once mined', async () => {
+    const row = trackRow();
+    const provider = fakeProvider();
+    const onBroadcast = jest.fn(async (hash: string) => {
+      provider.mine(hash);
+    });
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+
+    const receipt = await manager.send('deposit:L1:1', { to: BRIDGE, data: '0x1234' }, { onBroadcast });
+
+    expect(mockedDB.reserveSignerTransaction).toHaveBeenCalledWith(expect.objectContaining({
+      chain: 'L2',
+      signer: wallet.address,
+      chainNonce: 7,
+      reference: 'deposit:L1:1',
+      gasLimit: '108000', // estimate plus the default 20% margin
+    }));
+    const [tx] = sentTransactions(provider);
+    expect(tx).toMatchObject({ nonce: 7, to: BRIDGE, data: '0x1234', type: 2, maxFeePerGas: gwei(10) });
+    expect(receipt.hash).toBe(row.current().tx_hash);
+    expect(onBroadcast).toHaveBeenCalledWith(receipt.hash);
+    expect(mockedDB.resolveSignerTransaction).toHaveBeenCalledWith('1', {
+      status: 'MINED',
+      txHash: receipt.hash,
+      blockNumber: 500,
+      gasUsed: '70000',
+      effectiveGasPrice: String(gwei(9)),
+    });
+  });
+
+  it('resumes the pending transaction of an earlier attempt instead of sending a new one', async () => {
+    const row = trackRow();
+    const provider = fakeProvider();
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+    provider.broadcastTransaction.mockImplementationOnce(async (signed: string) => {
+      provider.mine(ethers.Transaction.from(signed).hash!);
+    });
+    await manager.send('deposit:L1:1', { to: BRIDGE, data: '0x' });
+    mockedDB.getPendingSignerTransaction.mockResolvedValue({ ...row.current(), status: 'PENDING' });
+
+    const receipt = await manager.send('deposit:L1:1', { to: BRIDGE, data: '0x' });
+
+    expect(mockedDB.reserveSignerTransaction).toHaveBeenCalledTimes(1);
+    expect(provider.broadcastTransaction).toHaveBeenCalledTimes(1);
+    expect(receipt.hash).toBe(row.current().tx_hash);
+  });
+
+  it('replaces a stuck transaction at a higher fee and accepts whichever hash is mined', async () => {
+    process.env.TX_STUCK_AFTER_MS = '0';
+    const row = trackRow();
+    const provider = fakeProvider();
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+    let broadcasts = 0;
+    provider.broadcastTransaction.mockImplementation(async () => {
+      broadcasts += 1;
+      // The replacement goes out, but the original is the one that gets mined
+      if (broadcasts === 2) {
+        provider.mine(row.current().previous_hashes[0]!);
+      }
+    });
+
+    const receipt = await manager.send('deposit:L1:2', { to: BRIDGE, data: '0x' });
+
+    const [original, replacement] = sentTransactions(provider);
+    expect(replacement!.nonce).toBe(original!.nonce);
+    expect(replacement!.maxFeePerGas).toBe(gwei(12));
+    expect(replacement!.maxPriorityFeePerGas).toBe(gwei(1.2));
+    expect(row.current().replacements).toBe(1);
+    expect(receipt.hash).toBe(original!.hash);
+  });
+
+  it('keeps fees and replacements within the chain maxGasPrice', async () => {
+    process.env.TX_STUCK_AFTER_MS = '0';
+    trackRow();
+    const provider = fakeProvider();
+    provider.getFeeData.mockResolvedValue({ maxFeePerGas: gwei(150), maxPriorityFeePerGas: gwei(2), gasPrice: null });
+    // Mined while the manager considers replacing it
+    provider.getTransaction.mockImplementationOnce(async (hash: string) => {
+      provider.mine(hash);
+      return { hash };
+    });
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+
+    await manager.send('deposit:L1:7', { to: BRIDGE, data: '0x' });
+
+    const sent = sentTransactions(provider);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.maxFeePerGas).toBe(gwei(100)); // default L2 maxGasPrice
+  });
+
+  it('pays above maxGasPrice for urgent sends', async () => {
+    trackRow();
+    const provider = fakeProvider();
+    provider.getFeeData.mockResolvedValue({ maxFeePerGas: gwei(150), maxPriorityFeePerGas: gwei(2), gasPrice: null });
+    provider.broadcastTransaction.mockImplementationOnce(async (signed: string) => provider.mine(ethers.Transaction.from(signed).hash!));
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+
+    await manager.send('deposit:L1:8', { to: BRIDGE, data: '0x' }, { urgent: true });
+
+    expect(sentTransactions(provider)[0]!.maxFeePerGas).toBe(gwei(150));
+  });
+
+  it('broadcasts a dropped transaction again with the same fees', async () => {
+    trackRow();
+    const provider = fakeProvider();
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+    provider.broadcastTransaction
+      .mockImplementationOnce(async () => undefined) // accepted, then evicted from the pool
+      .mockImplementationOnce(async (signed: string) => provider.mine(ethers.Transaction.from(signed).hash!));
+
+    await manager.send('deposit:L1:3', { to: BRIDGE, data: '0x' });
+
+    const [first, second] = sentTransactions(provider);
+    expect(second!.hash).toBe(first!.hash);
+  });
+
+  it('reports a nonce taken by a foreign transaction', async () => {
+    trackRow();
+    const provider = fakeProvider();
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+    provider.broadcastTransaction.mockImplementationOnce(async () => provider.mineForeign());
+
+    await expect(manager.send('deposit:L1:4', { to: BRIDGE, data: '0x' })).rejects.toBeInstanceOf(TransactionReplacedError);
+    expect(mockedDB.resolveSignerTransaction).toHaveBeenCalledWith('1', expect.objectContaining({ status: 'REPLACED' }));
+  });
+
+  it('gives the nonce back when the first broadcast is rejected outright', async () => {
+    trackRow();
+    const provider = fakeProvider();
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+    provider.broadcastTransaction.mockRejectedValueOnce(new Error('insufficient funds for gas * price + value'));
+
+    await expect(manager.send('deposit:L1:5', { to: BRIDGE, data: '0x' })).rejects.toThrow('insufficient funds');
+    expect(mockedDB.resolveSignerTransaction).toHaveBeenCalledWith('1', {
+      status: 'FAILED',
+      error: 'insufficient funds for gas * price + value',
+    });
+  });
+
+  it('fails on a reverted receipt', async () => {
+    trackRow();
+    const provider = fakeProvider();
+    const manager = new TransactionManager('L2', wallet, provider as unknown as ethers.Provider);
+    provider.broadcastTransaction.mockImplementationOnce(async (signed: string) => provider.mine(ethers.Transaction.from(signed).hash!, 0));
+
+    await expect(manager.send('deposit:L1:6', { to: BRIDGE, data: '0x' })).rejects.toThrow('reverted in block 500');
+    expect(mockedDB.resolveSignerTransaction).toHaveBeenCalledWith('1', expect.objectContaining({ status: 'REVERTED' }));
+  });
+});
@@ -0,0 +1,201 @@
+import { ethers } from 'ethers';
+import Queue from 'bull';
+import { WithdrawalProcessor } from '@/services/WithdrawalProcessor';
+import { SimpleBridgeDB } from '@/config/database-simple';
+import { getBridgeQueue } from '@/config/redis';
+import { getReleasePause, releaseOutflow, reserveOutflow, setReleasePause } from '@/services/OutflowLimiter';
+import { withdrawalReleaseReference } from '@/services/L1ReleaseLookup';
+import { getReleaseApprovalStatus } from '@/services/ReleaseApprovals';
+import { TransactionManager } from '@/services/TransactionManager';
+import { BRIDGE_L2_ABI } from '@/config/abis';
+import { BridgeDepositRecord, BridgeJob, BridgeStatus, BridgeTokenRecord } from '@/types/bridge';
+
+jest.mock('@/config/database-simple');
+// Factory mock: the real module does not type-check against the installed redis client
+jest.mock('@/config/redis', () => ({ getRedisClient: jest.fn(), getBridgeQueue: jest.fn() }));
+jest.mock('@/services/TransactionManager');
+jest.mock('@/services/L1ReleaseLookup');
+jest.mock('@/services/GasPolicy');
+jest.mock('@/services/OutflowLimiter');
+jest.mock('@/services/ReleaseApprovals', () => ({
+  ...jest.requireActual('@/services/ReleaseApprovals'),
+  getReleaseApprovalStatus: jest.fn(),
+}));
+jest.mock('@/utils/alerts');
+
+const mockedDB = SimpleBridgeDB as jest.Mocked<typeof SimpleBridgeDB>;
+const mockedGetBridgeQueue = getBridgeQueue as jest.MockedFunction<typeof getBridgeQueue>;
+
+const L2_BRIDGE = '0x2222222222222222222222222222222222222222';
+const USER = ethers.getAddress('0x742d35cc6634c0532925a3b8d1ec8fbedc5b0dc7');
+const BLOCK_HASH = ethers.zeroPadValue('0x6e', 32);
+const TX_HASH = ethers.zeroPadValue('0x2a', 32);
+const l2Interface = new ethers.Interface(BRIDGE_L2_ABI);
+
+const ETH_TOKEN = {
+  l1_address: ethers.ZeroAddress,
+  l2_address: null,
+  symbol: 'ETH',
+  name: 'Ether',
+  decimals: 18,
+  min_amount: '0',
+  max_amount: (100n * 10n ** 18n).toString(),
+  is_native: true,
+  enabled: true,
+  paused: false,
+  approval_threshold: null,
+  outflow_limit: null,
+  reference_price: null,
+} as BridgeTokenRecord;
+
+function makeWithdrawal(status: BridgeStatus, overrides: Partial<BridgeDepositRecord> = {}): BridgeDepositRecord {
+  return {
+    deposit_id: '7',
+    user_address: USER.toLowerCase(),
+    token_address: ethers.ZeroAddress,
+    amount: '1000000000000000000',
+    nonce: '0',
+    source_chain: 'L2',
+    target_chain: 'L1',
+    status,
+    tx_hash: TX_HASH,
+    block_number: '100',
+    block_hash: BLOCK_HASH,
+    log_index: 0,
+    retry_count: 0,
+    created_at: new Date(),
+    ...overrides,
+  } as BridgeDepositRecord;
+}
+
+// The L2 receipt of the withdrawal transaction, as verifyWithdrawalOnChain reads it
+function withdrawalReceipt(): ethers.TransactionReceipt {
+  const { topics, data } = l2Interface.encodeEventLog('WithdrawETH', [7, USER, 10n ** 18n, 0n, 1700000000n]);
+  return {
+    status: 1,
+    blockNumber: 100,
+    blockHash: BLOCK_HASH,
+    logs: [{ address: L2_BRIDGE, topics, data }],
+  } as unknown as ethers.TransactionReceipt;
+}
+
+function makeJob(withdrawal: BridgeDepositRecord, attemptsMade: number = 0, attempts: number = 3): Queue.Job<BridgeJob> {
+  return {
+    data: {
+      depositId: withdrawal.deposit_id,
+      user: withdrawal.user_address,
+      token: withdrawal.token_address,
+      amount: withdrawal.amount,
+      sourceChain: 'L2',
+      targetChain: 'L1',
+      txHash: withdrawal.tx_hash,
+      blockNumber: withdrawal.block_number,
+    },
+    attemptsMade,
+    opts: { attempts },
+    discard: jest.fn(),
+  } as unknown as Queue.Job<BridgeJob>;
+}
+
+describe('WithdrawalProcessor', () => {
+  const envBackup = { ...process.env };
+  let queue: { process: jest.Mock; pause: jest.Mock };
+
+  // The Bull handler the processor registered, i.e. processWithdrawalJob
+  const runJob = (job: Queue.Job<BridgeJob>) => queue.process.mock.calls[0]![2](job);
+
+  beforeEach(() => {
+    process.env.L1_RPC_URL = 'http://127.0.0.1:8545';
+    process.env.L2_RPC_URL = 'http://127.0.0.1:9545';
+    process.env.L1_BRIDGE_CONTRACT = '0x1111111111111111111111111111111111111111';
+    process.env.L2_BRIDGE_CONTRACT = L2_BRIDGE;
+    process.env.L2_FINALITY_BLOCKS = '64';
+
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber').mockResolvedValue(200);
+    jest.spyOn(ethers.JsonRpcProvider.prototype, 'getTransactionReceipt').mockResolvedValue(withdrawalReceipt());
+
+    queue = { process: jest.fn(), pause: jest.fn() };
+    mockedGetBridgeQueue.mockReturnValue(queue as unknown as ReturnType<typeof getBridgeQueue>);
+    mockedDB.transitionDeposit.mockResolvedValue(true);
+    mockedDB.getBridgeToken.mockResolvedValue(ETH_TOKEN);
+    mockedDB.getSignerTransactionHashes.mockResolvedValue([]);
+    jest.mocked(getReleasePause).mockResolvedValue(null);
+    jest.mocked(reserveOutflow).mockResolvedValue(null);
+    jest.mocked(withdrawalReleaseReference).mockImplementation(id => `withdrawal:L2:${id}`);
+
+    new WithdrawalProcessor(ethers.Wallet.createRandom());
+  });
+
+  afterAll(() => {
+    process.env = envBackup;
+  });
+
+  it('holds a withdrawal of a paused token for review', async () => {
+    mockedDB.getBridgeToken.mockResolvedValue({ ...ETH_TOKEN, paused: true });
+    const withdrawal = makeWithdrawal(BridgeStatus.PROCESSING);
+    mockedDB.getDepositById.mockResolvedValue(withdrawal);
+
+    await expect(runJob(makeJob(withdrawal))).resolves.toEqual(expect.objectContaining({ held: true }));
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('7', BridgeStatus.PROCESSING, BridgeStatus.HELD_FOR_REVIEW, expect.anything());
+    expect(reserveOutflow).not.toHaveBeenCalled();
+  });
+
+  it('parks a withdrawal above the token maximum for a refund', async () => {
+    const withdrawal = makeWithdrawal(BridgeStatus.PROCESSING, { amount: (101n * 10n ** 18n).toString() });
+    mockedDB.getDepositById.mockResolvedValue(withdrawal);
+
+    await expect(runJob(makeJob(withdrawal))).resolves.toEqual({
+      success: false,
+      refundRequired: true,
+      reason: 'Amount 101.0 ETH exceeds maximum 100.0 ETH',
+    });
+  });
+
+  it('waits for operator approvals above the token threshold', async () => {
+    mockedDB.getBridgeToken.mockResolvedValue({ ...ETH_TOKEN, approval_threshold: '1000000000000000000' });
+    jest.mocked(getReleaseApprovalStatus).mockResolvedValue({ required: 2, operators: 3, approved: 1, approvals: [] });
+    const withdrawal = makeWithdrawal(BridgeStatus.PROCESSING);
+    mockedDB.getDepositById.mockResolvedValue(withdrawal);
+
+    await expect(runJob(makeJob(withdrawal))).resolves.toEqual({
+      success: false,
+      awaitingApproval: true,
+      reason: '1 of 2 operator approvals',
+    });
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('7', BridgeStatus.PROCESSING, BridgeStatus.AWAITING_APPROVAL, expect.anything());
+  });
+
+  it('returns the withdrawal to CONFIRMING while releases are paused', async () => {
+    jest.mocked(getReleasePause).mockResolvedValue({ reason: 'Investigating', pausedBy: 'admin:1', pausedAt: '' });
+    const withdrawal = makeWithdrawal(BridgeStatus.PROCESSING);
+    mockedDB.getDepositById.mockResolvedValue(withdrawal);
+    jest.mocked(setReleasePause).mockResolvedValue({
+      pause: { reason: 'Investigating', pausedBy: 'admin:1', pausedAt: '' },
+      created: false,
+    });
+
+    await expect(runJob(makeJob(withdrawal))).resolves.toEqual({ success: false, paused: true, reason: 'Investigating' });
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('7', BridgeStatus.PROCESSING, BridgeStatus.CONFIRMING, expect.anything());
+    expect(reserveOutflow).not.toHaveBeenCalled();
+  });
+
+  it('counts the release against the outflow limits under its withdrawal reference', async () => {
+    mockedDB.transitionDeposit.mockResolvedValue(false);
+    const withdrawal = makeWithdrawal(BridgeStatus.PROCESSING);
+    mockedDB.getDepositById.mockResolvedValue(withdrawal);
+
+    await expect(runJob(makeJob(withdrawal))).resolves.toEqual({ success: false, skipped: true });
+    expect(reserveOutflow).toHaveBeenCalledWith('withdrawal:L2:7', ETH_TOKEN, 10n ** 18n);
+    expect(releaseOutflow).toHaveBeenCalledWith('withdrawal:L2:7', ethers.ZeroAddress);
+  });
+
+  it('takes the reservation back when the release fails for good before anything was sent', async () => {
+    jest.mocked(TransactionManager.prototype.send).mockRejectedValue(new Error('insufficient funds'));
+    const withdrawal = makeWithdrawal(BridgeStatus.PROCESSING);
+    mockedDB.getDepositById.mockResolvedValue(withdrawal);
+
+    await expect(runJob(makeJob(withdrawal, 2, 3))).rejects.toThrow('insufficient funds');
+    expect(mockedDB.transitionDeposit).toHaveBeenCalledWith('7', BridgeStatus.PROCESSING, BridgeStatus.FAILED, expect.anything());
+    expect(releaseOutflow).toHaveBeenCalledWith('withdrawal:L2:7', ethers.ZeroAddress);
+  });
+});